@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."designs" ADD COLUMN     "jobId" TEXT;
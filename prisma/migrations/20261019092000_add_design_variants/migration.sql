@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "public"."design_variants" (
+    "id" TEXT NOT NULL,
+    "designId" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "imageUrl" TEXT NOT NULL,
+    "cloudinaryId" TEXT,
+    "seed" INTEGER,
+    "isSelected" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "design_variants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "design_variants_designId_index_key" ON "public"."design_variants"("designId", "index");
+
+-- AddForeignKey
+ALTER TABLE "public"."design_variants" ADD CONSTRAINT "design_variants_designId_fkey" FOREIGN KEY ("designId") REFERENCES "public"."designs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill variants for completed designs from metadata.allImageUrls
+INSERT INTO "public"."design_variants" ("id", "designId", "index", "imageUrl", "cloudinaryId", "isSelected", "createdAt")
+SELECT
+    gen_random_uuid()::TEXT,
+    d."id",
+    (image.ordinality - 1)::INTEGER,
+    image.url,
+    d."metadata"->'allCloudinaryIds'->>(image.ordinality - 1)::INTEGER,
+    image.url = d."imageUrl",
+    d."createdAt"
+FROM "public"."designs" d
+CROSS JOIN LATERAL jsonb_array_elements_text(d."metadata"->'allImageUrls') WITH ORDINALITY AS image(url, ordinality)
+WHERE d."status" = 'COMPLETED'
+  AND jsonb_typeof(d."metadata"->'allImageUrls') = 'array';
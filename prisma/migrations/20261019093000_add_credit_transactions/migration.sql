@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "public"."CreditTransactionType" AS ENUM ('GRANT', 'DEBIT', 'REFUND');
+
+-- CreateTable
+CREATE TABLE "public"."credit_transactions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "public"."CreditTransactionType" NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "period" TEXT NOT NULL,
+    "designId" TEXT,
+    "reference" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "credit_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_transactions_reference_key" ON "public"."credit_transactions"("reference");
+
+-- CreateIndex
+CREATE INDEX "credit_transactions_userId_period_idx" ON "public"."credit_transactions"("userId", "period");
+
+-- AddForeignKey
+ALTER TABLE "public"."credit_transactions" ADD CONSTRAINT "credit_transactions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "audit_logs_userId_createdAt_idx" ON "public"."audit_logs"("userId", "createdAt");
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "public"."project_share_links" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "passwordHash" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "viewCount" INTEGER NOT NULL DEFAULT 0,
+    "lastViewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "project_share_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "project_share_links_tokenHash_key" ON "public"."project_share_links"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "project_share_links_projectId_idx" ON "public"."project_share_links"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "public"."project_share_links" ADD CONSTRAINT "project_share_links_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."project_share_links" ADD CONSTRAINT "project_share_links_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "public"."design_comments" (
+    "id" TEXT NOT NULL,
+    "designId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "parentId" TEXT,
+    "body" TEXT NOT NULL,
+    "pinX" DOUBLE PRECISION,
+    "pinY" DOUBLE PRECISION,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "design_comments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "design_comments_designId_createdAt_idx" ON "public"."design_comments"("designId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "design_comments_parentId_idx" ON "public"."design_comments"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "public"."design_comments" ADD CONSTRAINT "design_comments_designId_fkey" FOREIGN KEY ("designId") REFERENCES "public"."designs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."design_comments" ADD CONSTRAINT "design_comments_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."design_comments" ADD CONSTRAINT "design_comments_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."design_comments" ADD CONSTRAINT "design_comments_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "public"."design_comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
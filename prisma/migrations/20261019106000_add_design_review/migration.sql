@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "public"."DesignReviewStatus" AS ENUM ('DRAFT', 'SHORTLISTED', 'APPROVED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "public"."designs" ADD COLUMN     "isFavorite" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "rating" INTEGER,
+ADD COLUMN     "reviewStatus" "public"."DesignReviewStatus" NOT NULL DEFAULT 'DRAFT';
+
+-- AlterTable
+ALTER TABLE "public"."rooms" ADD COLUMN     "approvedDesignId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "designs_roomId_reviewStatus_idx" ON "public"."designs"("roomId", "reviewStatus");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rooms_approvedDesignId_key" ON "public"."rooms"("approvedDesignId");
+
+-- AddForeignKey
+ALTER TABLE "public"."rooms" ADD CONSTRAINT "rooms_approvedDesignId_fkey" FOREIGN KEY ("approvedDesignId") REFERENCES "public"."designs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."designs" ADD COLUMN     "parentDesignId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "designs_parentDesignId_idx" ON "public"."designs"("parentDesignId");
+
+-- AddForeignKey
+ALTER TABLE "public"."designs" ADD CONSTRAINT "designs_parentDesignId_fkey" FOREIGN KEY ("parentDesignId") REFERENCES "public"."designs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
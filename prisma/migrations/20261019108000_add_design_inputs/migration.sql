@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "public"."designs" ADD COLUMN     "inputs" JSONB;
+
+-- Backfill from the request stored with each design; room settings at the
+-- time of generation were not recorded, so older designs omit them
+UPDATE "public"."designs"
+SET "inputs" = jsonb_strip_nulls(jsonb_build_object(
+    'mode', COALESCE("metadata"->'request'->>'mode', 'generate'),
+    'customPrompt', "metadata"->'request'->'customPrompt',
+    'aiProvider', "aiProvider",
+    'uploadId', "metadata"->'request'->'uploadId',
+    'strength', "metadata"->'request'->'strength'
+  ))
+WHERE "metadata" ? 'request';
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "public"."MaintenanceTrigger" AS ENUM ('SCHEDULED', 'MANUAL');
+
+-- CreateEnum
+CREATE TYPE "public"."MaintenanceRunStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'FAILED', 'SKIPPED');
+
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "isAdmin" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "public"."maintenance_job_runs" (
+    "id" TEXT NOT NULL,
+    "job" TEXT NOT NULL,
+    "trigger" "public"."MaintenanceTrigger" NOT NULL,
+    "status" "public"."MaintenanceRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "triggeredById" TEXT,
+    "result" JSONB,
+    "error" TEXT,
+    "durationMs" INTEGER,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "maintenance_job_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "maintenance_job_runs_job_startedAt_idx" ON "public"."maintenance_job_runs"("job", "startedAt");
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "public"."DesignStatus" ADD VALUE 'CANCELLED';
+
+-- AlterTable
+ALTER TABLE "public"."designs" ADD COLUMN     "errorCode" TEXT;
@@ -18,9 +18,12 @@ import { sanitizeInput } from "./middleware/validation.middleware";
 // Routes
 import authRoutes from "./routes/auth.routes";
 import projectRoutes from "./routes/project.routes";
+import organizationRoutes from "./routes/organization.routes";
+import shareRoutes from "./routes/share.routes";
 import roomRoutes from "./routes/room.routes";
 import designRoutes from "./routes/design.routes";
 import uploadRoutes from "./routes/upload.routes";
+import adminRoutes from "./routes/admin.routes";
 
 // Create Express application
 const app = express();
@@ -48,7 +51,14 @@ app.use(
       : config.server.corsOrigin,
     credentials: true,
     methods: ["GET", "POST", "PUT", "DELETE", "PATCH", "OPTIONS"],
-    allowedHeaders: ["Content-Type", "Authorization", "X-Requested-With"],
+    allowedHeaders: [
+      "Content-Type",
+      "Authorization",
+      "X-Requested-With",
+      "X-Share-Password",
+      "Idempotency-Key",
+    ],
+    exposedHeaders: ["Idempotent-Replayed"],
   })
 );
 
@@ -178,15 +188,21 @@ app.get(config.healthCheck.path, async (req, res) => {
 // API routes
 const apiRouter = express.Router();
 
-// Apply AI rate limiting to design generation routes
-apiRouter.use("/designs/generate", aiLimiter);
+// Apply AI rate limiting to every route that calls an image provider
+apiRouter.use(
+  ["/designs/generate", "/designs/:id/regenerate", "/designs/:id/edit"],
+  aiLimiter
+);
 
 // Mount route modules
 apiRouter.use("/auth", authRoutes);
 apiRouter.use("/projects", projectRoutes);
+apiRouter.use("/organizations", organizationRoutes);
+apiRouter.use("/share", shareRoutes);
 apiRouter.use("/rooms", roomRoutes);
 apiRouter.use("/designs", designRoutes);
 apiRouter.use("/uploads", uploadRoutes);
+apiRouter.use("/admin", adminRoutes);
 
 // Mount API router
 app.use(`/api/${config.server.apiVersion}`, apiRouter);
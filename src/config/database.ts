@@ -1,7 +1,6 @@
 import { PrismaClient } from "@prisma/client";
 import { config } from "./env";
 import logger from "../utils/logger";
-import { NextFunction } from "express";
 
 // Prisma Client singleton
 class Database {
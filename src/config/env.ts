@@ -1,8 +1,52 @@
+import crypto from "crypto";
 import dotenv from "dotenv";
 import Joi from "joi";
+import { parseExpression } from "cron-parser";
 
 dotenv.config();
 
+// Matches a provider name in the comma-separated AI_PROVIDERS list
+const providerEnabled = (name: string) =>
+  new RegExp(`(^|,)\\s*${name}\\s*(,|$)`);
+
+// Secrets that must be set explicitly in production; elsewhere they are
+// derived from JWT_SECRET so a local .env keeps working
+const derivedSecrets = ["JWT_REFRESH_SECRET", "ENCRYPTION_KEY"];
+const productionSecret = () =>
+  Joi.string().min(32).when("NODE_ENV", {
+    is: "production",
+    then: Joi.required(),
+    otherwise: Joi.optional(),
+  });
+
+// Optional cron expression (empty disables the schedule); rejected at boot
+// rather than when the worker registers the repeatable job
+const cronSchedule = (defaultValue: string) =>
+  Joi.string()
+    .allow("")
+    .default(defaultValue)
+    .custom((value: string, helpers) => {
+      if (value) {
+        try {
+          parseExpression(value);
+        } catch {
+          return helpers.message({
+            custom: "{{#label}} must be a valid cron expression",
+          });
+        }
+      }
+      return value;
+    });
+
+// Cloudinary can be left out when only the mock provider runs (offline
+// development and tests); code that needs it fails when it is used
+const cloudinarySetting = () =>
+  Joi.string().when("AI_PROVIDERS", {
+    is: Joi.string().pattern(/^\s*mock\s*$/),
+    then: Joi.optional().allow(""),
+    otherwise: Joi.required(),
+  });
+
 // Environment validation schema
 const envSchema = Joi.object({
   NODE_ENV: Joi.string()
@@ -15,33 +59,139 @@ const envSchema = Joi.object({
 
   // Authentication
   JWT_SECRET: Joi.string().min(32).required(),
-  JWT_EXPIRES_IN: Joi.string().default("7d"),
+  JWT_EXPIRES_IN: Joi.string().default("15m"),
+  JWT_REFRESH_SECRET: productionSecret().invalid(Joi.ref("JWT_SECRET")),
+  JWT_REFRESH_EXPIRES_IN: Joi.string()
+    .pattern(/^\d+[smhd]?$/)
+    .default("30d"),
   BCRYPT_ROUNDS: Joi.number().default(12),
+  PASSWORD_RESET_TTL_MINUTES: Joi.number().integer().min(5).default(60),
+  ENCRYPTION_KEY: productionSecret(), // secrets stored in the database
+  TWO_FACTOR_ISSUER: Joi.string().default("Interior Design"),
+  TWO_FACTOR_CHALLENGE_TTL_MINUTES: Joi.number().integer().min(1).default(5),
+  REQUIRE_EMAIL_VERIFICATION: Joi.boolean().default(false),
+  EMAIL_VERIFICATION_TTL_HOURS: Joi.number().integer().min(1).default(24),
+  EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS: Joi.number()
+    .integer()
+    .min(0)
+    .default(60),
 
   // AI Services
-  OPENAI_API_KEY: Joi.string().required(),
-  REPLICATE_API_TOKEN: Joi.string().required(),
+  AI_PROVIDERS: Joi.string().when("NODE_ENV", {
+    is: "test",
+    then: Joi.string().default("mock"),
+    otherwise: Joi.string().default("replicate,openai"),
+  }),
+  AI_DEFAULT_PROVIDER: Joi.string().when("NODE_ENV", {
+    is: "test",
+    then: Joi.string().default("mock"),
+    otherwise: Joi.string().default("replicate"),
+  }),
+  // API keys are only required for enabled providers
+  OPENAI_API_KEY: Joi.string().when("AI_PROVIDERS", {
+    is: Joi.string().pattern(providerEnabled("openai")),
+    then: Joi.required(),
+    otherwise: Joi.optional().allow(""),
+  }),
+  REPLICATE_API_TOKEN: Joi.string().when("AI_PROVIDERS", {
+    is: Joi.string().pattern(providerEnabled("replicate")),
+    then: Joi.required(),
+    otherwise: Joi.optional().allow(""),
+  }),
+  AI_FALLBACK_PROVIDERS: Joi.string().allow("").default(""), // e.g. "openai"
+  AI_CIRCUIT_WINDOW_MS: Joi.number().integer().min(1000).default(300000), // 5 minutes
+  AI_CIRCUIT_MIN_REQUESTS: Joi.number().integer().min(1).default(5),
+  AI_CIRCUIT_FAILURE_THRESHOLD: Joi.number().min(0).max(1).default(0.5),
+  AI_CIRCUIT_COOLDOWN_MS: Joi.number().integer().min(0).default(60000), // 1 minute
+  STABLE_DIFFUSION_API_URL: Joi.string().uri().default("http://127.0.0.1:7860"),
+  STABLE_DIFFUSION_CONTROLNET_MODEL: Joi.string().default(
+    "control_v11f1p_sd15_depth"
+  ), // used for redesigns
+  MOCK_AI_LATENCY_MS: Joi.number().integer().min(0).default(1500),
+  MOCK_AI_FAILURE_RATE: Joi.number().min(0).max(1).default(0),
+  // Per-attempt provider timeouts; a timed-out provider counts as a failure
+  AI_TIMEOUT_MS: Joi.number().integer().min(1000).default(120000), // 2 minutes
+  OPENAI_TIMEOUT_MS: Joi.number().integer().min(1000),
+  REPLICATE_TIMEOUT_MS: Joi.number().integer().min(1000),
+  STABLE_DIFFUSION_TIMEOUT_MS: Joi.number().integer().min(1000),
 
   // File Upload
-  CLOUDINARY_CLOUD_NAME: Joi.string().required(),
-  CLOUDINARY_API_KEY: Joi.string().required(),
-  CLOUDINARY_API_SECRET: Joi.string().required(),
+  CLOUDINARY_CLOUD_NAME: cloudinarySetting(),
+  CLOUDINARY_API_KEY: cloudinarySetting(),
+  CLOUDINARY_API_SECRET: cloudinarySetting(),
   MAX_FILE_SIZE: Joi.number().default(10485760), // 10MB
   ALLOWED_FILE_TYPES: Joi.string().default("image/jpeg,image/png,image/webp"),
+  // Re-host generated images on Cloudinary; off by default without it
+  PERSIST_GENERATED_IMAGES: Joi.boolean().when("CLOUDINARY_CLOUD_NAME", {
+    is: Joi.string().min(1).required(),
+    then: Joi.boolean().default(true),
+    otherwise: Joi.boolean().default(false),
+  }),
 
   // Server
   API_VERSION: Joi.string().default("v1"),
   CORS_ORIGIN: Joi.string().default("http://localhost:3000"),
+  APP_URL: Joi.string().uri().default("http://localhost:3000"), // frontend, for links in emails
+
+  // Sharing
+  SHARE_LINK_TTL_DAYS: Joi.number().integer().min(1).max(365).default(14),
+
+  // Mail
+  MAIL_TRANSPORT: Joi.string()
+    .valid("console", "file", "smtp")
+    .when("NODE_ENV", {
+      is: "production",
+      then: Joi.string().default("smtp"),
+      otherwise: Joi.string().default("console"),
+    }),
+  MAIL_FROM: Joi.string().default("Interior Design <no-reply@localhost>"),
+  MAIL_FILE_DIR: Joi.string().default("tmp/mail"),
+  SMTP_HOST: Joi.string().when("MAIL_TRANSPORT", {
+    is: "smtp",
+    then: Joi.required(),
+    otherwise: Joi.optional(),
+  }),
+  SMTP_PORT: Joi.number().default(587),
+  SMTP_SECURE: Joi.boolean().default(false),
+  SMTP_USER: Joi.string().allow("").default(""),
+  SMTP_PASSWORD: Joi.string().allow("").default(""),
 
   // Redis
   REDIS_URL: Joi.string().default("redis://localhost:6379"),
   REDIS_PASSWORD: Joi.string().allow("").default(""),
 
+  // Queues
+  QUEUE_PREFIX: Joi.string().default("interior"),
+  DESIGN_QUEUE_CONCURRENCY: Joi.number().integer().min(1).default(2),
+  DESIGN_JOB_ATTEMPTS: Joi.number().integer().min(1).default(3),
+  DESIGN_JOB_BACKOFF_MS: Joi.number().integer().min(0).default(5000),
+  DESIGN_RECOVERY_MAX_AGE_MS: Joi.number().integer().min(0).default(3600000), // 1 hour
+  DESIGN_STUCK_TIMEOUT_MS: Joi.number().integer().min(60000).default(900000), // 15 minutes
+  ASSET_CLEANUP_JOB_ATTEMPTS: Joi.number().integer().min(1).default(5),
+  ASSET_CLEANUP_BACKOFF_MS: Joi.number().integer().min(0).default(30000),
+  ASSET_RECONCILE_GRACE_HOURS: Joi.number().integer().min(1).default(24),
+
+  // Maintenance jobs (cron expressions; empty disables the schedule)
+  MAINTENANCE_SESSIONS_CRON: cronSchedule("0 * * * *"),
+  MAINTENANCE_UPLOADS_CRON: cronSchedule("30 3 * * *"),
+  MAINTENANCE_ASSETS_CRON: cronSchedule("0 4 * * 0"),
+  MAINTENANCE_DESIGNS_CRON: cronSchedule("*/5 * * * *"),
+  MAINTENANCE_ASSETS_APPLY: Joi.boolean().default(false), // scheduled reconciliation only reports unless set
+  MAINTENANCE_LOCK_TTL_MS: Joi.number().integer().min(1000).default(1800000), // 30 minutes
+
+  // Credits (1 credit = $0.01 of estimated provider cost)
+  CREDITS_MONTHLY_INDIVIDUAL: Joi.number().integer().min(0).default(500),
+  CREDITS_MONTHLY_BUSINESS: Joi.number().integer().min(0).default(5000),
+  CREDITS_MIN_PER_GENERATION: Joi.number().integer().min(0).default(1),
+
   // Rate Limiting
   RATE_LIMIT_WINDOW_MS: Joi.number().default(900000), // 15 minutes
   RATE_LIMIT_MAX_REQUESTS: Joi.number().default(100),
   AI_RATE_LIMIT_MAX_REQUESTS: Joi.number().default(10),
 
+  // Idempotency-Key responses are replayed for this long
+  IDEMPOTENCY_TTL_HOURS: Joi.number().integer().min(1).default(24),
+
   // Logging
   LOG_LEVEL: Joi.string()
     .valid("error", "warn", "info", "debug")
@@ -59,7 +209,23 @@ const envSchema = Joi.object({
 const { error, value: envVars } = envSchema.validate(process.env);
 
 if (error) {
-  throw new Error(`Config validation error: ${error.message}`);
+  const hint = derivedSecrets.includes(String(error.details[0]?.path[0]))
+    ? " (generate one with `openssl rand -hex 32`; see .env.example)"
+    : "";
+  throw new Error(`Config validation error: ${error.message}${hint}`);
+}
+
+for (const name of derivedSecrets) {
+  if (!envVars[name]) {
+    envVars[name] = crypto
+      .createHmac("sha256", envVars.JWT_SECRET)
+      .update(name)
+      .digest("hex");
+    // The logger depends on this config, so warn on the console
+    console.warn(
+      `${name} is not set; deriving it from JWT_SECRET. Set it explicitly before deploying.`
+    );
+  }
 }
 
 export const config = {
@@ -73,7 +239,17 @@ export const config = {
   auth: {
     jwtSecret: envVars.JWT_SECRET,
     jwtExpiresIn: envVars.JWT_EXPIRES_IN,
+    jwtRefreshSecret: envVars.JWT_REFRESH_SECRET,
+    jwtRefreshExpiresIn: envVars.JWT_REFRESH_EXPIRES_IN,
     bcryptRounds: envVars.BCRYPT_ROUNDS,
+    passwordResetTtlMinutes: envVars.PASSWORD_RESET_TTL_MINUTES,
+    encryptionKey: envVars.ENCRYPTION_KEY,
+    twoFactorIssuer: envVars.TWO_FACTOR_ISSUER,
+    twoFactorChallengeTtlMinutes: envVars.TWO_FACTOR_CHALLENGE_TTL_MINUTES,
+    requireEmailVerification: envVars.REQUIRE_EMAIL_VERIFICATION,
+    emailVerificationTtlHours: envVars.EMAIL_VERIFICATION_TTL_HOURS,
+    emailVerificationResendCooldownSeconds:
+      envVars.EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS,
   },
 
   ai: {
@@ -83,6 +259,34 @@ export const config = {
     replicate: {
       apiToken: envVars.REPLICATE_API_TOKEN,
     },
+    stableDiffusion: {
+      apiUrl: envVars.STABLE_DIFFUSION_API_URL,
+      controlNetModel: envVars.STABLE_DIFFUSION_CONTROLNET_MODEL,
+    },
+    mock: {
+      latencyMs: envVars.MOCK_AI_LATENCY_MS,
+      failureRate: envVars.MOCK_AI_FAILURE_RATE,
+    },
+    providers: envVars.AI_PROVIDERS.split(",")
+      .map((name: string) => name.trim())
+      .filter(Boolean) as string[],
+    defaultProvider: envVars.AI_DEFAULT_PROVIDER,
+    fallbackProviders: envVars.AI_FALLBACK_PROVIDERS.split(",")
+      .map((name: string) => name.trim())
+      .filter(Boolean) as string[],
+    timeouts: {
+      default: envVars.AI_TIMEOUT_MS,
+      openai: envVars.OPENAI_TIMEOUT_MS ?? envVars.AI_TIMEOUT_MS,
+      replicate: envVars.REPLICATE_TIMEOUT_MS ?? envVars.AI_TIMEOUT_MS,
+      "stable-diffusion":
+        envVars.STABLE_DIFFUSION_TIMEOUT_MS ?? envVars.AI_TIMEOUT_MS,
+    } as Record<string, number>,
+    circuitBreaker: {
+      windowMs: envVars.AI_CIRCUIT_WINDOW_MS,
+      minRequests: envVars.AI_CIRCUIT_MIN_REQUESTS,
+      failureThreshold: envVars.AI_CIRCUIT_FAILURE_THRESHOLD,
+      cooldownMs: envVars.AI_CIRCUIT_COOLDOWN_MS,
+    },
   },
 
   upload: {
@@ -90,14 +294,38 @@ export const config = {
       cloudName: envVars.CLOUDINARY_CLOUD_NAME,
       apiKey: envVars.CLOUDINARY_API_KEY,
       apiSecret: envVars.CLOUDINARY_API_SECRET,
+      configured: !!(
+        envVars.CLOUDINARY_CLOUD_NAME &&
+        envVars.CLOUDINARY_API_KEY &&
+        envVars.CLOUDINARY_API_SECRET
+      ),
     },
     maxFileSize: envVars.MAX_FILE_SIZE,
     allowedFileTypes: envVars.ALLOWED_FILE_TYPES.split(","),
+    persistGeneratedImages: envVars.PERSIST_GENERATED_IMAGES,
   },
 
   server: {
     apiVersion: envVars.API_VERSION,
     corsOrigin: envVars.CORS_ORIGIN,
+    appUrl: envVars.APP_URL,
+  },
+
+  sharing: {
+    linkTtlDays: envVars.SHARE_LINK_TTL_DAYS,
+  },
+
+  mail: {
+    transport: envVars.MAIL_TRANSPORT,
+    from: envVars.MAIL_FROM,
+    fileDir: envVars.MAIL_FILE_DIR,
+    smtp: {
+      host: envVars.SMTP_HOST,
+      port: envVars.SMTP_PORT,
+      secure: envVars.SMTP_SECURE,
+      user: envVars.SMTP_USER,
+      password: envVars.SMTP_PASSWORD,
+    },
   },
 
   redis: {
@@ -105,12 +333,53 @@ export const config = {
     password: envVars.REDIS_PASSWORD,
   },
 
+  queue: {
+    prefix: envVars.QUEUE_PREFIX,
+    design: {
+      concurrency: envVars.DESIGN_QUEUE_CONCURRENCY,
+      attempts: envVars.DESIGN_JOB_ATTEMPTS,
+      backoffMs: envVars.DESIGN_JOB_BACKOFF_MS,
+      recoveryMaxAgeMs: envVars.DESIGN_RECOVERY_MAX_AGE_MS,
+      // PROCESSING designs older than this are failed by the reaper
+      stuckTimeoutMs: envVars.DESIGN_STUCK_TIMEOUT_MS,
+    },
+    assetCleanup: {
+      attempts: envVars.ASSET_CLEANUP_JOB_ATTEMPTS,
+      backoffMs: envVars.ASSET_CLEANUP_BACKOFF_MS,
+      // Assets younger than this may belong to a write still in flight
+      reconcileGraceHours: envVars.ASSET_RECONCILE_GRACE_HOURS,
+    },
+  },
+
+  maintenance: {
+    schedules: {
+      "expired-sessions": envVars.MAINTENANCE_SESSIONS_CRON as string,
+      "orphaned-uploads": envVars.MAINTENANCE_UPLOADS_CRON as string,
+      "asset-reconcile": envVars.MAINTENANCE_ASSETS_CRON as string,
+      "stuck-designs": envVars.MAINTENANCE_DESIGNS_CRON as string,
+    },
+    applyAssetReconcile: envVars.MAINTENANCE_ASSETS_APPLY,
+    lockTtlMs: envVars.MAINTENANCE_LOCK_TTL_MS,
+  },
+
+  credits: {
+    monthlyAllowance: {
+      INDIVIDUAL: envVars.CREDITS_MONTHLY_INDIVIDUAL as number,
+      BUSINESS: envVars.CREDITS_MONTHLY_BUSINESS as number,
+    },
+    minPerGeneration: envVars.CREDITS_MIN_PER_GENERATION,
+  },
+
   rateLimit: {
     windowMs: envVars.RATE_LIMIT_WINDOW_MS,
     maxRequests: envVars.RATE_LIMIT_MAX_REQUESTS,
     aiMaxRequests: envVars.AI_RATE_LIMIT_MAX_REQUESTS,
   },
 
+  idempotency: {
+    ttlHours: envVars.IDEMPOTENCY_TTL_HOURS,
+  },
+
   logging: {
     level: envVars.LOG_LEVEL,
     file: envVars.LOG_FILE,
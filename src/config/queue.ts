@@ -0,0 +1,19 @@
+import Queue from "bull";
+import { config } from "./env";
+
+/**
+ * Create a Bull queue bound to the configured Redis instance. The
+ * connection always comes from config, so callers can't pass their own.
+ */
+export const createQueue = <T = any>(
+  name: string,
+  options: Omit<Queue.QueueOptions, "redis"> = {}
+): Queue.Queue<T> => {
+  return new Queue<T>(name, config.redis.url, {
+    prefix: config.queue.prefix,
+    ...options,
+    redis: config.redis.password
+      ? { password: config.redis.password }
+      : undefined,
+  });
+};
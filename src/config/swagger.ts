@@ -36,6 +36,16 @@ const options: swaggerJsdoc.Options = {
           description: "Enter JWT token in the format: Bearer <token>",
         },
       },
+      parameters: {
+        IdempotencyKey: {
+          in: "header",
+          name: "Idempotency-Key",
+          required: false,
+          schema: { type: "string", maxLength: 255 },
+          description:
+            "Unique key per logical request. Retries with the same key and body replay the stored response (marked with an Idempotent-Replayed header); reusing it with a different body is a 409.",
+        },
+      },
       schemas: {
         User: {
           type: "object",
@@ -95,10 +105,143 @@ const options: swaggerJsdoc.Options = {
             },
             isActive: { type: "boolean", example: true },
             userId: { type: "string", example: "clpv1234567890" },
+            organizationId: {
+              type: "string",
+              example: "clpv1234567890",
+              nullable: true,
+            },
+            createdAt: { type: "string", format: "date-time" },
+            updatedAt: { type: "string", format: "date-time" },
+          },
+        },
+        Organization: {
+          type: "object",
+          properties: {
+            id: { type: "string", example: "clpv1234567890" },
+            name: { type: "string", example: "Studio North" },
+            role: {
+              type: "string",
+              enum: ["OWNER", "ADMIN", "DESIGNER", "VIEWER"],
+              example: "OWNER",
+              description: "The caller's role in the organization",
+            },
+            memberCount: { type: "integer", example: 4 },
+            projectCount: { type: "integer", example: 12 },
+            createdAt: { type: "string", format: "date-time" },
+            updatedAt: { type: "string", format: "date-time" },
+          },
+        },
+        OrganizationMember: {
+          type: "object",
+          properties: {
+            userId: { type: "string", example: "clpv1234567890" },
+            name: { type: "string", example: "John Doe" },
+            email: { type: "string", format: "email" },
+            role: {
+              type: "string",
+              enum: ["OWNER", "ADMIN", "DESIGNER", "VIEWER"],
+              example: "DESIGNER",
+            },
+            joinedAt: { type: "string", format: "date-time" },
+          },
+        },
+        DesignComment: {
+          type: "object",
+          properties: {
+            id: { type: "string", example: "clpv1234567890" },
+            designId: { type: "string", example: "clpv1234567890" },
+            parentId: { type: "string", nullable: true },
+            body: { type: "string", example: "Could the sofa be warmer?" },
+            author: {
+              type: "object",
+              properties: {
+                id: { type: "string" },
+                name: { type: "string" },
+              },
+            },
+            pin: {
+              type: "object",
+              nullable: true,
+              properties: {
+                x: { type: "number", example: 0.42 },
+                y: { type: "number", example: 0.7 },
+              },
+            },
+            resolved: { type: "boolean", description: "Top-level only" },
+            resolvedAt: { type: "string", format: "date-time", nullable: true },
+            resolvedBy: {
+              type: "object",
+              nullable: true,
+              properties: {
+                id: { type: "string" },
+                name: { type: "string" },
+              },
+            },
+            replies: {
+              type: "array",
+              description: "Top-level only",
+              items: { $ref: "#/components/schemas/DesignComment" },
+            },
             createdAt: { type: "string", format: "date-time" },
             updatedAt: { type: "string", format: "date-time" },
           },
         },
+        ShareLink: {
+          type: "object",
+          properties: {
+            id: { type: "string", example: "clpv1234567890" },
+            projectId: { type: "string", example: "clpv1234567890" },
+            passwordProtected: { type: "boolean", example: false },
+            expiresAt: { type: "string", format: "date-time" },
+            revokedAt: { type: "string", format: "date-time", nullable: true },
+            isActive: { type: "boolean", example: true },
+            viewCount: { type: "integer", example: 3 },
+            lastViewedAt: {
+              type: "string",
+              format: "date-time",
+              nullable: true,
+            },
+            createdAt: { type: "string", format: "date-time" },
+          },
+        },
+        SharedProject: {
+          type: "object",
+          properties: {
+            name: { type: "string", example: "Modern Apartment" },
+            description: { type: "string", nullable: true },
+            type: { type: "string", enum: ["RESIDENTIAL", "OFFICE"] },
+            style: { type: "string", example: "CONTEMPORARY" },
+            rooms: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  id: { type: "string" },
+                  name: { type: "string", nullable: true },
+                  type: { type: "string", example: "BEDROOM" },
+                  length: { type: "number" },
+                  width: { type: "number" },
+                  height: { type: "number" },
+                  materials: { type: "array", items: { type: "string" } },
+                  ambientColor: { type: "string", nullable: true },
+                  originalImageUrl: { type: "string", nullable: true },
+                  designs: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      properties: {
+                        id: { type: "string" },
+                        imageUrl: { type: "string" },
+                        imageUrls: { type: "array", items: { type: "string" } },
+                        createdAt: { type: "string", format: "date-time" },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
         Room: {
           type: "object",
           properties: {
@@ -140,6 +283,16 @@ const options: swaggerJsdoc.Options = {
               nullable: true,
             },
             originalImageUrl: { type: "string", format: "uri", nullable: true },
+            approvedDesign: {
+              type: "object",
+              nullable: true,
+              properties: {
+                id: { type: "string" },
+                imageUrl: { type: "string", format: "uri" },
+                rating: { type: "integer", nullable: true },
+                isFavorite: { type: "boolean" },
+              },
+            },
             createdAt: { type: "string", format: "date-time" },
             updatedAt: { type: "string", format: "date-time" },
           },
@@ -149,32 +302,179 @@ const options: swaggerJsdoc.Options = {
           properties: {
             id: { type: "string", example: "clpv1234567890" },
             roomId: { type: "string", example: "clpv1234567890" },
+            parentDesignId: {
+              type: "string",
+              nullable: true,
+              description: "Design this one was regenerated or edited from",
+            },
             imageUrl: {
               type: "string",
               format: "uri",
               example: "https://res.cloudinary.com/...",
             },
-            prompt: {
+            cloudinaryId: {
               type: "string",
-              example: "Scandinavian bedroom with natural materials",
+              example: "interior-design/user-clpv1234567890/designs/clpv0987654321_0",
+              nullable: true,
             },
-            aiProvider: {
+            thumbnailUrl: { type: "string", format: "uri", nullable: true },
+            responsiveUrls: { type: "object", nullable: true },
+            prompt: {
               type: "string",
-              enum: ["openai", "replicate"],
-              example: "replicate",
+              example: "Scandinavian bedroom with natural materials",
             },
+            inputs: { $ref: "#/components/schemas/DesignInputs" },
+            aiProvider: { type: "string", example: "replicate" },
             status: {
               type: "string",
-              enum: ["PENDING", "PROCESSING", "COMPLETED", "FAILED"],
+              enum: [
+                "PENDING",
+                "PROCESSING",
+                "COMPLETED",
+                "FAILED",
+                "CANCELLED",
+              ],
               example: "COMPLETED",
             },
+            reviewStatus: {
+              type: "string",
+              enum: ["DRAFT", "SHORTLISTED", "APPROVED", "REJECTED"],
+              example: "SHORTLISTED",
+            },
+            rating: { type: "integer", minimum: 1, maximum: 5, nullable: true },
+            isFavorite: { type: "boolean", example: false },
             metadata: { type: "object", nullable: true },
             processingTime: { type: "integer", example: 15000, nullable: true },
             error: { type: "string", nullable: true },
+            errorCode: {
+              type: "string",
+              nullable: true,
+              example: "TIMEOUT",
+              description:
+                "Why the design failed, e.g. TIMEOUT when the reaper gave up on it",
+            },
+            variants: {
+              type: "array",
+              items: { $ref: "#/components/schemas/DesignVariant" },
+            },
             createdAt: { type: "string", format: "date-time" },
             updatedAt: { type: "string", format: "date-time" },
           },
         },
+        DesignInputs: {
+          type: "object",
+          nullable: true,
+          description:
+            "What the design was generated from, before prompt expansion",
+          properties: {
+            mode: {
+              type: "string",
+              enum: ["generate", "redesign", "edit"],
+            },
+            customPrompt: {
+              type: "string",
+              description: "Custom prompt, or the instruction of an edit",
+            },
+            aiProvider: { type: "string", example: "replicate" },
+            uploadId: { type: "string", nullable: true },
+            strength: { type: "number" },
+            parameters: { $ref: "#/components/schemas/GenerationParameters" },
+            roomType: { type: "string", example: "BEDROOM" },
+            style: { type: "string", example: "SCANDINAVIAN" },
+            dimensions: {
+              type: "object",
+              properties: {
+                length: { type: "number" },
+                width: { type: "number" },
+                height: { type: "number" },
+              },
+            },
+            materials: { type: "array", items: { type: "string" } },
+            ambientColor: { type: "string" },
+          },
+        },
+        GenerationParameters: {
+          type: "object",
+          description:
+            "Optional generation controls, checked against the provider's capabilities (GET /designs/providers). The effective values, including the seed used, are stored in the design's metadata.parameters.",
+          properties: {
+            seed: {
+              type: "integer",
+              minimum: 0,
+              maximum: 2147483638,
+              description:
+                "Reuse a seed to reproduce a design; output N uses seed + N",
+            },
+            negativePrompt: {
+              type: "string",
+              maxLength: 500,
+              example: "clutter, people, text",
+            },
+            size: {
+              type: "string",
+              example: "1344x768",
+              description: "One of the provider's sizes; not for redesigns",
+            },
+            aspectRatio: {
+              type: "string",
+              example: "16:9",
+              description:
+                "Picks the provider size within 5% of this ratio; not with size, and not for redesigns",
+            },
+            steps: { type: "integer", example: 40 },
+            guidance: { type: "number", example: 7.5 },
+            numOutputs: {
+              type: "integer",
+              minimum: 1,
+              description:
+                "Up to the provider's maxOutputs; credits scale with it",
+            },
+          },
+        },
+        DesignHistoryNode: {
+          allOf: [
+            { $ref: "#/components/schemas/Design" },
+            {
+              type: "object",
+              properties: {
+                changes: {
+                  type: "array",
+                  description: "Inputs that differ from the parent design",
+                  items: {
+                    type: "object",
+                    properties: {
+                      field: { type: "string", example: "customPrompt" },
+                      from: { nullable: true },
+                      to: { nullable: true },
+                    },
+                  },
+                },
+                children: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/DesignHistoryNode" },
+                },
+              },
+            },
+          ],
+        },
+        DesignVariant: {
+          type: "object",
+          properties: {
+            id: { type: "string", example: "clpv1234567890" },
+            designId: { type: "string", example: "clpv1234567890" },
+            index: { type: "integer", example: 0 },
+            imageUrl: {
+              type: "string",
+              format: "uri",
+              example: "https://res.cloudinary.com/...",
+            },
+            cloudinaryId: { type: "string", nullable: true },
+            thumbnailUrl: { type: "string", format: "uri", nullable: true },
+            seed: { type: "integer", example: 421337, nullable: true },
+            isSelected: { type: "boolean", example: true },
+            createdAt: { type: "string", format: "date-time" },
+          },
+        },
         Upload: {
           type: "object",
           properties: {
@@ -237,6 +537,28 @@ const options: swaggerJsdoc.Options = {
             },
           },
         },
+        MaintenanceRun: {
+          type: "object",
+          properties: {
+            id: { type: "string", example: "clpv1234567890" },
+            job: { type: "string", example: "expired-sessions" },
+            trigger: { type: "string", enum: ["SCHEDULED", "MANUAL"] },
+            status: {
+              type: "string",
+              enum: ["RUNNING", "SUCCEEDED", "FAILED", "SKIPPED"],
+            },
+            triggeredById: { type: "string", nullable: true },
+            result: {
+              type: "object",
+              nullable: true,
+              example: { deletedCount: 12 },
+            },
+            error: { type: "string", nullable: true },
+            durationMs: { type: "integer", nullable: true, example: 84 },
+            startedAt: { type: "string", format: "date-time" },
+            finishedAt: { type: "string", format: "date-time", nullable: true },
+          },
+        },
         Error: {
           type: "object",
           properties: {
@@ -265,6 +587,18 @@ const options: swaggerJsdoc.Options = {
         name: "Projects",
         description: "Project management endpoints",
       },
+      {
+        name: "Organizations",
+        description: "Team workspaces and memberships",
+      },
+      {
+        name: "Comments",
+        description: "Feedback threads on designs",
+      },
+      {
+        name: "Sharing",
+        description: "Read-only project links for clients",
+      },
       {
         name: "Rooms",
         description: "Room management endpoints",
@@ -277,6 +611,10 @@ const options: swaggerJsdoc.Options = {
         name: "Uploads",
         description: "File upload endpoints",
       },
+      {
+        name: "Admin",
+        description: "Platform operations (administrators only)",
+      },
       {
         name: "Health",
         description: "Health check endpoints",
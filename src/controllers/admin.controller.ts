@@ -0,0 +1,212 @@
+import { Response, NextFunction } from "express";
+import {
+  AuthenticatedRequest,
+  ApiResponse,
+  MaintenanceRunQuery,
+} from "../types";
+import { MaintenanceService } from "../services/maintenance.service";
+import { prisma } from "../config/database";
+import { asyncHandler } from "../middleware/error.middleware";
+import { getRequestContext } from "../utils/request-context";
+
+export class AdminController {
+  private maintenanceService: MaintenanceService;
+
+  constructor() {
+    this.maintenanceService = new MaintenanceService(prisma);
+  }
+
+  /**
+   * @swagger
+   * /admin/maintenance/jobs:
+   *   get:
+   *     summary: List maintenance jobs
+   *     description: Each job with its cron schedule (null when disabled) and latest run.
+   *     tags: [Admin]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Maintenance jobs retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Maintenance jobs retrieved successfully
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     type: object
+   *                     properties:
+   *                       name:
+   *                         type: string
+   *                         example: expired-sessions
+   *                       description:
+   *                         type: string
+   *                       schedule:
+   *                         type: string
+   *                         nullable: true
+   *                         example: "0 * * * *"
+   *                       lastRun:
+   *                         allOf:
+   *                           - $ref: '#/components/schemas/MaintenanceRun'
+   *                         nullable: true
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Administrators only
+   */
+  getMaintenanceJobs = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const jobs = await this.maintenanceService.getJobs();
+
+      res.status(200).json({
+        success: true,
+        message: "Maintenance jobs retrieved successfully",
+        data: jobs,
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /admin/maintenance/jobs/{job}/run:
+   *   post:
+   *     summary: Run a maintenance job now
+   *     description: |
+   *       Queues the job for the worker. If the job is already running on
+   *       another instance, the run is recorded as SKIPPED.
+   *     tags: [Admin]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: job
+   *         required: true
+   *         schema:
+   *           type: string
+   *           enum: [expired-sessions, orphaned-uploads, asset-reconcile, stuck-designs]
+   *     responses:
+   *       202:
+   *         description: Maintenance job queued
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Maintenance job queued
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     job:
+   *                       type: string
+   *                     jobId:
+   *                       type: string
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Administrators only
+   *       404:
+   *         description: Maintenance job not found
+   */
+  runMaintenanceJob = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { job } = req.params;
+      const userId = req.user!.id;
+
+      const queued = await this.maintenanceService.triggerJob(
+        job,
+        userId,
+        getRequestContext(req)
+      );
+
+      res.status(202).json({
+        success: true,
+        message: "Maintenance job queued",
+        data: queued,
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /admin/maintenance/runs:
+   *   get:
+   *     summary: Get maintenance run history
+   *     tags: [Admin]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: page
+   *         schema:
+   *           type: integer
+   *           default: 1
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           default: 10
+   *       - in: query
+   *         name: job
+   *         schema:
+   *           type: string
+   *           enum: [expired-sessions, orphaned-uploads, asset-reconcile, stuck-designs]
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [RUNNING, SUCCEEDED, FAILED, SKIPPED]
+   *     responses:
+   *       200:
+   *         description: Maintenance runs retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               allOf:
+   *                 - $ref: '#/components/schemas/PaginatedResponse'
+   *                 - type: object
+   *                   properties:
+   *                     data:
+   *                       type: array
+   *                       items:
+   *                         $ref: '#/components/schemas/MaintenanceRun'
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Administrators only
+   */
+  getMaintenanceRuns = asyncHandler(
+    async (req: AuthenticatedRequest, res: any, next: NextFunction) => {
+      const query: MaintenanceRunQuery = req.query as any;
+
+      const result = await this.maintenanceService.getRuns(query);
+
+      res.status(200).json({
+        success: true,
+        message: "Maintenance runs retrieved successfully",
+        data: result.runs,
+        pagination: result.pagination,
+      });
+    }
+  );
+}
@@ -4,17 +4,28 @@ import {
   ApiResponse,
   RegisterDto,
   LoginDto,
+  TwoFactorLoginDto,
 } from "../types";
 import { AuthService } from "../services/auth.service";
+import { TwoFactorService } from "../services/two-factor.service";
+import { CreditService } from "../services/credit.service";
+import { AuditService } from "../services/audit.service";
 import { prisma } from "../config/database";
 import { asyncHandler } from "../middleware/error.middleware";
+import { getRequestContext } from "../utils/request-context";
 import logger from "../utils/logger";
 
 export class AuthController {
   private authService: AuthService;
+  private twoFactorService: TwoFactorService;
+  private creditService: CreditService;
+  private auditService: AuditService;
 
   constructor() {
     this.authService = new AuthService(prisma);
+    this.twoFactorService = new TwoFactorService(prisma);
+    this.creditService = new CreditService(prisma);
+    this.auditService = new AuditService(prisma);
   }
 
   /**
@@ -132,7 +143,7 @@ export class AuthController {
    *                 example: SecurePass123!
    *     responses:
    *       200:
-   *         description: Login successful
+   *         description: Login successful, or a two-factor challenge (data.twoFactorRequired) when the account has 2FA enabled
    *         content:
    *           application/json:
    *             schema:
@@ -166,7 +177,99 @@ export class AuthController {
     ) => {
       const loginData: LoginDto = req.body;
 
-      const result = await this.authService.login(loginData);
+      const result = await this.authService.login(
+        loginData,
+        getRequestContext(req)
+      );
+
+      if ("twoFactorRequired" in result) {
+        return res.status(200).json({
+          success: true,
+          message: "Two-factor authentication required",
+          data: result,
+        });
+      }
+
+      logger.info("User login successful", {
+        userId: result.user.id,
+        email: result.user.email,
+        ip: req.ip,
+      });
+
+      res.status(200).json({
+        success: true,
+        message: "Login successful",
+        data: result,
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /auth/2fa/verify:
+   *   post:
+   *     summary: Complete a two-factor login
+   *     description: Exchanges the challenge token from /auth/login and a TOTP code (or one recovery code) for tokens. A challenge allows 5 attempts and can't be reused after a successful login.
+   *     tags: [Authentication]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - challengeToken
+   *             properties:
+   *               challengeToken:
+   *                 type: string
+   *               code:
+   *                 type: string
+   *                 example: "123456"
+   *               recoveryCode:
+   *                 type: string
+   *                 example: a1b2c-3d4e5
+   *     responses:
+   *       200:
+   *         description: Login successful
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Login successful
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     user:
+   *                       $ref: '#/components/schemas/User'
+   *                     token:
+   *                       type: string
+   *                     refreshToken:
+   *                       type: string
+   *                     expiresIn:
+   *                       type: string
+   *       401:
+   *         description: Invalid code or expired challenge
+   *       429:
+   *         description: Too many attempts for this challenge or account
+   */
+  verifyTwoFactor = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const data: TwoFactorLoginDto = req.body;
+
+      const result = await this.authService.completeTwoFactorLogin(
+        data,
+        getRequestContext(req)
+      );
 
       logger.info("User login successful", {
         userId: result.user.id,
@@ -187,6 +290,7 @@ export class AuthController {
    * /auth/refresh:
    *   post:
    *     summary: Refresh access token
+   *     description: Rotates the refresh token. Each refresh token can be used once; reusing one revokes its session.
    *     tags: [Authentication]
    *     requestBody:
    *       required: true
@@ -203,8 +307,29 @@ export class AuthController {
    *     responses:
    *       200:
    *         description: Token refreshed successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Token refreshed successfully
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     token:
+   *                       type: string
+   *                     refreshToken:
+   *                       type: string
+   *                     expiresIn:
+   *                       type: string
+   *                       example: 7d
    *       401:
-   *         description: Invalid refresh token
+   *         description: Invalid, expired or reused refresh token
    */
   refreshToken = asyncHandler(
     async (
@@ -222,7 +347,10 @@ export class AuthController {
         });
       }
 
-      const result = await this.authService.refreshToken(refreshToken);
+      const result = await this.authService.refreshToken(
+        refreshToken,
+        getRequestContext(req)
+      );
 
       logger.info("Token refreshed successfully", {
         ip: req.ip,
@@ -236,6 +364,401 @@ export class AuthController {
     }
   );
 
+  /**
+   * @swagger
+   * /auth/forgot-password:
+   *   post:
+   *     summary: Request a password reset email
+   *     description: Always responds with 200 so the endpoint cannot be used to discover accounts.
+   *     tags: [Authentication]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - email
+   *             properties:
+   *               email:
+   *                 type: string
+   *                 format: email
+   *                 example: user@example.com
+   *     responses:
+   *       200:
+   *         description: Reset email sent if the account exists
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: If an account exists for this email, a reset link has been sent
+   *       400:
+   *         description: Validation error
+   */
+  forgotPassword = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { email } = req.body;
+
+      await this.authService.requestPasswordReset(
+        email,
+        getRequestContext(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message:
+          "If an account exists for this email, a reset link has been sent",
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /auth/reset-password:
+   *   post:
+   *     summary: Reset password with an emailed token
+   *     description: Signs the user out of every device on success.
+   *     tags: [Authentication]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - token
+   *               - newPassword
+   *             properties:
+   *               token:
+   *                 type: string
+   *               newPassword:
+   *                 type: string
+   *                 minLength: 8
+   *                 example: NewSecurePass123!
+   *     responses:
+   *       200:
+   *         description: Password reset successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Password reset successfully
+   *       400:
+   *         description: Invalid or expired token, or weak password
+   */
+  resetPassword = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { token, newPassword } = req.body;
+
+      await this.authService.resetPassword(
+        token,
+        newPassword,
+        getRequestContext(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Password reset successfully",
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /auth/verify-email:
+   *   post:
+   *     summary: Verify email address with an emailed token
+   *     tags: [Authentication]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - token
+   *             properties:
+   *               token:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Email verified successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Email verified successfully
+   *       400:
+   *         description: Invalid or expired token
+   */
+  verifyEmail = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { token } = req.body;
+
+      await this.authService.verifyEmail(token, getRequestContext(req));
+
+      res.status(200).json({
+        success: true,
+        message: "Email verified successfully",
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /auth/resend-verification:
+   *   post:
+   *     summary: Resend the email verification link
+   *     description: Always responds with 200 so the endpoint cannot be used to discover accounts. Resends are throttled per account and per IP.
+   *     tags: [Authentication]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - email
+   *             properties:
+   *               email:
+   *                 type: string
+   *                 format: email
+   *                 example: user@example.com
+   *     responses:
+   *       200:
+   *         description: Verification email sent if the account needs one
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: If the account needs verification, a new link has been sent
+   *       429:
+   *         description: Too many requests
+   */
+  resendVerification = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { email } = req.body;
+
+      await this.authService.resendVerification(email);
+
+      res.status(200).json({
+        success: true,
+        message: "If the account needs verification, a new link has been sent",
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /auth/2fa/setup:
+   *   post:
+   *     summary: Start two-factor enrollment
+   *     description: Returns a new TOTP secret and otpauth URI for an authenticator app. 2FA is not active until confirmed.
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Enrollment started
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Scan the code with your authenticator app, then confirm
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     secret:
+   *                       type: string
+   *                       example: JBSWY3DPEHPK3PXP
+   *                     otpauthUri:
+   *                       type: string
+   *                       example: otpauth://totp/Interior%20Design%3Auser%40example.com?secret=JBSWY3DPEHPK3PXP
+   *       409:
+   *         description: Two-factor authentication already enabled
+   */
+  setupTwoFactor = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const userId = req.user!.id;
+
+      const setup = await this.twoFactorService.setup(userId);
+
+      res.status(200).json({
+        success: true,
+        message: "Scan the code with your authenticator app, then confirm",
+        data: setup,
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /auth/2fa/confirm:
+   *   post:
+   *     summary: Confirm two-factor enrollment
+   *     description: Enables 2FA and returns one-time recovery codes. They are only shown once.
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - code
+   *             properties:
+   *               code:
+   *                 type: string
+   *                 example: "123456"
+   *     responses:
+   *       200:
+   *         description: Two-factor authentication enabled
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Two-factor authentication enabled
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     recoveryCodes:
+   *                       type: array
+   *                       items:
+   *                         type: string
+   *                         example: a1b2c-3d4e5
+   *       400:
+   *         description: Invalid code or enrollment not started
+   */
+  confirmTwoFactor = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const userId = req.user!.id;
+      const { code } = req.body;
+
+      const recoveryCodes = await this.twoFactorService.confirm(
+        userId,
+        code,
+        getRequestContext(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Two-factor authentication enabled",
+        data: { recoveryCodes },
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /auth/2fa/disable:
+   *   post:
+   *     summary: Disable two-factor authentication
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - password
+   *             properties:
+   *               password:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Two-factor authentication disabled
+   *       400:
+   *         description: Password is incorrect
+   *       409:
+   *         description: Two-factor authentication not enabled
+   */
+  disableTwoFactor = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const userId = req.user!.id;
+      const { password } = req.body;
+
+      await this.twoFactorService.disable(
+        userId,
+        password,
+        getRequestContext(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Two-factor authentication disabled",
+      });
+    }
+  );
+
   /**
    * @swagger
    * /auth/logout:
@@ -256,10 +779,7 @@ export class AuthController {
       res: Response<ApiResponse>,
       next: NextFunction
     ) => {
-      const authHeader = req.header("Authorization");
-      const token = authHeader?.replace("Bearer ", "") || "";
-
-      await this.authService.logout(token);
+      await this.authService.logout(req.user!.id, req.sessionId);
 
       logger.info("User logout successful", {
         userId: req.user?.id,
@@ -295,7 +815,7 @@ export class AuthController {
     ) => {
       const userId = req.user!.id;
 
-      await this.authService.logoutAllDevices(userId);
+      await this.authService.logoutAllDevices(userId, getRequestContext(req));
 
       logger.info("User logout from all devices successful", {
         userId,
@@ -354,6 +874,156 @@ export class AuthController {
     }
   );
 
+  /**
+   * @swagger
+   * /auth/me/usage:
+   *   get:
+   *     summary: Get current month's AI generation credit usage
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Usage retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Usage retrieved successfully
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     period:
+   *                       type: string
+   *                       example: "2026-10"
+   *                     plan:
+   *                       type: string
+   *                       enum: [INDIVIDUAL, BUSINESS]
+   *                     allowance:
+   *                       type: integer
+   *                       example: 500
+   *                     granted:
+   *                       type: integer
+   *                       example: 500
+   *                     used:
+   *                       type: integer
+   *                       example: 144
+   *                     remaining:
+   *                       type: integer
+   *                       example: 356
+   *                     generations:
+   *                       type: integer
+   *                       example: 36
+   *                     resetsAt:
+   *                       type: string
+   *                       format: date-time
+   *                     recentTransactions:
+   *                       type: array
+   *                       items:
+   *                         type: object
+   *       401:
+   *         description: Authentication required
+   */
+  getUsage = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const userId = req.user!.id;
+
+      const usage = await this.creditService.getUsage(userId);
+
+      res.status(200).json({
+        success: true,
+        message: "Usage retrieved successfully",
+        data: usage,
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /auth/me/audit:
+   *   get:
+   *     summary: Get account activity (audit log)
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: page
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           default: 1
+   *         description: Page number
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *           default: 20
+   *         description: Items per page
+   *       - in: query
+   *         name: action
+   *         schema:
+   *           type: string
+   *           enum: [LOGIN, LOGIN_FAILED, PASSWORD_CHANGED, PASSWORD_RESET_REQUESTED, PASSWORD_RESET, SESSION_REVOKED, LOGOUT_ALL, REFRESH_TOKEN_REUSED, EMAIL_VERIFIED, TWO_FACTOR_ENABLED, TWO_FACTOR_DISABLED, RECOVERY_CODE_USED, PROJECT_DELETED, ROOM_DELETED, DESIGN_DELETED, UPLOAD_CREATED, UPLOAD_DELETED, ORGANIZATION_CREATED, ORGANIZATION_DELETED, MEMBER_ADDED, MEMBER_ROLE_CHANGED, MEMBER_REMOVED, SHARE_LINK_CREATED, SHARE_LINK_REVOKED, MAINTENANCE_JOB_TRIGGERED]
+   *         description: Filter by action
+   *       - in: query
+   *         name: resource
+   *         schema:
+   *           type: string
+   *           enum: [user, session, project, room, design, upload, organization, maintenance]
+   *         description: Filter by resource type
+   *       - in: query
+   *         name: from
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *         description: Only entries at or after this time
+   *       - in: query
+   *         name: to
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *         description: Only entries at or before this time
+   *     responses:
+   *       200:
+   *         description: Audit log retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/PaginatedResponse'
+   *       401:
+   *         description: Authentication required
+   */
+  getAuditLogs = asyncHandler(
+    async (req: AuthenticatedRequest, res: any, next: NextFunction) => {
+      const userId = req.user!.id;
+
+      const result = await this.auditService.getUserAuditLogs(
+        userId,
+        req.query
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Audit log retrieved successfully",
+        data: result.logs,
+        pagination: result.pagination,
+      });
+    }
+  );
+
   /**
    * @swagger
    * /auth/profile:
@@ -449,7 +1119,8 @@ export class AuthController {
       await this.authService.changePassword(
         userId,
         currentPassword,
-        newPassword
+        newPassword,
+        getRequestContext(req)
       );
 
       logger.info("User password changed", {
@@ -529,7 +1200,11 @@ export class AuthController {
       const userId = req.user!.id;
       const { sessionId } = req.params;
 
-      await this.authService.revokeSession(userId, sessionId);
+      await this.authService.revokeSession(
+        userId,
+        sessionId,
+        getRequestContext(req)
+      );
 
       logger.info("Session revoked", {
         userId,
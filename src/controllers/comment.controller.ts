@@ -0,0 +1,351 @@
+import { Response, NextFunction } from "express";
+import {
+  AuthenticatedRequest,
+  ApiResponse,
+  CommentQuery,
+  CreateCommentDto,
+  UpdateCommentDto,
+} from "../types";
+import { CommentService } from "../services/comment.service";
+import { prisma } from "../config/database";
+import { asyncHandler } from "../middleware/error.middleware";
+
+export class CommentController {
+  private commentService: CommentService;
+
+  constructor() {
+    this.commentService = new CommentService(prisma);
+  }
+
+  /**
+   * @swagger
+   * /designs/{id}/comments:
+   *   get:
+   *     summary: Get comment threads on a design
+   *     tags: [Comments]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Design ID
+   *       - in: query
+   *         name: resolved
+   *         schema:
+   *           type: boolean
+   *         description: Only resolved (true) or open (false) threads
+   *     responses:
+   *       200:
+   *         description: Comments retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Comments retrieved successfully
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/DesignComment'
+   *       403:
+   *         description: Access denied
+   *       404:
+   *         description: Design not found
+   */
+  getComments = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const query: CommentQuery = req.query as any;
+
+      const comments = await this.commentService.getComments(
+        id,
+        userId,
+        query
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Comments retrieved successfully",
+        data: comments,
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /designs/{id}/comments:
+   *   post:
+   *     summary: Comment on a design, or reply to a thread
+   *     tags: [Comments]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Design ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - body
+   *             properties:
+   *               body:
+   *                 type: string
+   *                 example: Could the sofa be a warmer colour?
+   *               parentId:
+   *                 type: string
+   *                 description: Top-level comment to reply to
+   *               pin:
+   *                 type: object
+   *                 description: Position on the image as fractions of its width and height (not allowed on replies)
+   *                 properties:
+   *                   x:
+   *                     type: number
+   *                     minimum: 0
+   *                     maximum: 1
+   *                   y:
+   *                     type: number
+   *                     minimum: 0
+   *                     maximum: 1
+   *     responses:
+   *       201:
+   *         description: Comment created successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Comment created successfully
+   *                 data:
+   *                   $ref: '#/components/schemas/DesignComment'
+   *       400:
+   *         description: Validation error, or replying to a reply
+   *       404:
+   *         description: Design or parent comment not found
+   */
+  createComment = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const data: CreateCommentDto = req.body;
+
+      const comment = await this.commentService.createComment(id, userId, data);
+
+      res.status(201).json({
+        success: true,
+        message: "Comment created successfully",
+        data: comment,
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /designs/{id}/comments/{commentId}:
+   *   put:
+   *     summary: Edit a comment
+   *     description: Only the author can edit a comment.
+   *     tags: [Comments]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Design ID
+   *       - in: path
+   *         name: commentId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Comment ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - body
+   *             properties:
+   *               body:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Comment updated successfully
+   *       403:
+   *         description: Not the author
+   *       404:
+   *         description: Design or comment not found
+   */
+  updateComment = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { id, commentId } = req.params;
+      const userId = req.user!.id;
+      const data: UpdateCommentDto = req.body;
+
+      const comment = await this.commentService.updateComment(
+        id,
+        commentId,
+        userId,
+        data
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Comment updated successfully",
+        data: comment,
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /designs/{id}/comments/{commentId}/resolve:
+   *   patch:
+   *     summary: Resolve or reopen a comment thread
+   *     description: Allowed for the thread's author and anyone who can edit the project.
+   *     tags: [Comments]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Design ID
+   *       - in: path
+   *         name: commentId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Top-level comment ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - resolved
+   *             properties:
+   *               resolved:
+   *                 type: boolean
+   *     responses:
+   *       200:
+   *         description: Comment updated successfully
+   *       400:
+   *         description: Replies cannot be resolved
+   *       403:
+   *         description: Access denied
+   *       404:
+   *         description: Design or comment not found
+   */
+  resolveComment = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { id, commentId } = req.params;
+      const userId = req.user!.id;
+      const { resolved } = req.body;
+
+      const comment = await this.commentService.setResolved(
+        id,
+        commentId,
+        userId,
+        resolved
+      );
+
+      res.status(200).json({
+        success: true,
+        message: resolved ? "Comment resolved" : "Comment reopened",
+        data: comment,
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /designs/{id}/comments/{commentId}:
+   *   delete:
+   *     summary: Delete a comment and its replies
+   *     description: Allowed for the author and anyone who can edit the project.
+   *     tags: [Comments]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Design ID
+   *       - in: path
+   *         name: commentId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Comment ID
+   *     responses:
+   *       200:
+   *         description: Comment deleted successfully
+   *       403:
+   *         description: Access denied
+   *       404:
+   *         description: Design or comment not found
+   */
+  deleteComment = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { id, commentId } = req.params;
+      const userId = req.user!.id;
+
+      await this.commentService.deleteComment(id, commentId, userId);
+
+      res.status(200).json({
+        success: true,
+        message: "Comment deleted successfully",
+      });
+    }
+  );
+}
@@ -1,10 +1,21 @@
 import { Response, NextFunction } from "express";
-import { AuthenticatedRequest, ApiResponse, GenerateDesignDto } from "../types";
+import {
+  AuthenticatedRequest,
+  ApiResponse,
+  GenerateDesignDto,
+  ReviewDesignDto,
+  EditDesignDto,
+} from "../types";
 import { DesignService } from "../services/design.service";
 import { prisma } from "../config/database";
 import { asyncHandler } from "../middleware/error.middleware";
+import { DesignEvents } from "../utils/design-events";
+import { SseStream } from "../utils/sse";
+import { getRequestContext } from "../utils/request-context";
 import logger from "../utils/logger";
 
+const TERMINAL_STATUSES = ["COMPLETED", "FAILED", "CANCELLED"];
+
 export class DesignController {
   private designService: DesignService;
 
@@ -20,6 +31,8 @@ export class DesignController {
    *     tags: [Designs]
    *     security:
    *       - bearerAuth: []
+   *     parameters:
+   *       - $ref: '#/components/parameters/IdempotencyKey'
    *     requestBody:
    *       required: true
    *       content:
@@ -37,9 +50,27 @@ export class DesignController {
    *                 example: Add plants and natural lighting with modern furniture
    *               aiProvider:
    *                 type: string
-   *                 enum: [openai, replicate]
-   *                 default: replicate
+   *                 description: Name of an enabled AI provider (see GET /designs/providers). Defaults to AI_DEFAULT_PROVIDER.
    *                 example: replicate
+   *               mode:
+   *                 type: string
+   *                 enum: [generate, redesign]
+   *                 default: generate
+   *                 description: |
+   *                   "generate" renders a new room from text. "redesign" restyles a photo of the
+   *                   room while keeping its walls, windows and perspective; it needs a provider
+   *                   with imageToImage capability.
+   *               uploadId:
+   *                 type: string
+   *                 description: Redesign only. Upload of this room to use as the source; defaults to the room's photo.
+   *               strength:
+   *                 type: number
+   *                 minimum: 0.1
+   *                 maximum: 1
+   *                 default: 0.8
+   *                 description: Redesign only. How far the result may move from the source photo.
+   *               parameters:
+   *                 $ref: '#/components/schemas/GenerationParameters'
    *     responses:
    *       201:
    *         description: Design generation initiated successfully
@@ -57,13 +88,17 @@ export class DesignController {
    *                 data:
    *                   $ref: '#/components/schemas/Design'
    *       400:
-   *         description: Validation error
+   *         description: Validation error, missing source photo, or provider cannot redesign or honour the generation parameters
+   *       402:
+   *         description: Monthly generation quota exceeded
    *       404:
    *         description: Room not found
    *       403:
    *         description: Access denied
    *       401:
    *         description: Authentication required
+   *       409:
+   *         description: Idempotency-Key reused for a different request, or still in progress
    *       429:
    *         description: Rate limit exceeded
    */
@@ -85,7 +120,7 @@ export class DesignController {
         designId: design.id,
         roomId: designData.roomId,
         userId,
-        aiProvider: designData.aiProvider || "replicate",
+        aiProvider: design.aiProvider,
       });
 
       res.status(201).json({
@@ -129,14 +164,32 @@ export class DesignController {
    *         name: status
    *         schema:
    *           type: string
-   *           enum: [PENDING, PROCESSING, COMPLETED, FAILED]
+   *           enum: [PENDING, PROCESSING, COMPLETED, FAILED, CANCELLED]
    *         description: Filter by design status
    *       - in: query
    *         name: aiProvider
    *         schema:
    *           type: string
-   *           enum: [openai, replicate]
+   *           example: replicate
    *         description: Filter by AI provider
+   *       - in: query
+   *         name: reviewStatus
+   *         schema:
+   *           type: string
+   *           enum: [DRAFT, SHORTLISTED, APPROVED, REJECTED]
+   *         description: Filter by review status
+   *       - in: query
+   *         name: isFavorite
+   *         schema:
+   *           type: boolean
+   *         description: Filter by favourite flag
+   *       - in: query
+   *         name: minRating
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 5
+   *         description: Only designs rated at least this
    *     responses:
    *       200:
    *         description: Designs retrieved successfully
@@ -265,7 +318,11 @@ export class DesignController {
       const { id } = req.params;
       const userId = req.user!.id;
 
-      await this.designService.deleteDesign(id, userId);
+      await this.designService.deleteDesign(
+        id,
+        userId,
+        getRequestContext(req)
+      );
 
       logger.info("Design deleted successfully", {
         designId: id,
@@ -294,6 +351,12 @@ export class DesignController {
    *         schema:
    *           type: string
    *         description: Room ID
+   *       - in: query
+   *         name: tree
+   *         schema:
+   *           type: boolean
+   *           default: false
+   *         description: Nest designs under the design they were regenerated or edited from, in a children array
    *     responses:
    *       200:
    *         description: Room designs retrieved successfully
@@ -328,7 +391,11 @@ export class DesignController {
       const { roomId } = req.params;
       const userId = req.user!.id;
 
-      const designs = await this.designService.getRoomDesigns(roomId, userId);
+      const { tree } = req.query as { tree?: boolean };
+
+      const designs = await this.designService.getRoomDesigns(roomId, userId, {
+        tree,
+      });
 
       res.status(200).json({
         success: true,
@@ -338,6 +405,69 @@ export class DesignController {
     }
   );
 
+  /**
+   * @swagger
+   * /rooms/{id}/design-history:
+   *   get:
+   *     summary: Get the design lineage of a room
+   *     description: |
+   *       Designs nested under the design they were regenerated or edited
+   *       from. Each version lists the inputs that changed compared to its
+   *       parent.
+   *     tags: [Rooms]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Room ID
+   *     responses:
+   *       200:
+   *         description: Design history retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Design history retrieved successfully
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/DesignHistoryNode'
+   *       404:
+   *         description: Room not found
+   *       403:
+   *         description: Access denied
+   *       401:
+   *         description: Authentication required
+   */
+  getDesignHistory = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      const history = await this.designService.getDesignHistory(id, userId);
+
+      res.status(200).json({
+        success: true,
+        message: "Design history retrieved successfully",
+        data: history,
+      });
+    }
+  );
+
   /**
    * @swagger
    * /designs/stats:
@@ -406,11 +536,110 @@ export class DesignController {
     }
   );
 
+  /**
+   * @swagger
+   * /designs/providers:
+   *   get:
+   *     summary: List enabled AI providers
+   *     tags: [Designs]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: AI providers retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: AI providers retrieved successfully
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     type: object
+   *                     properties:
+   *                       name:
+   *                         type: string
+   *                         example: replicate
+   *                       isDefault:
+   *                         type: boolean
+   *                         example: true
+   *                       capabilities:
+   *                         type: object
+   *                         properties:
+   *                           imageToImage:
+   *                             type: boolean
+   *                             description: Supports redesign mode
+   *                           inpainting:
+   *                             type: boolean
+   *                           maxOutputs:
+   *                             type: integer
+   *                             example: 4
+   *                           sizes:
+   *                             type: array
+   *                             items:
+   *                               type: string
+   *                             example: ["1024x1024", "1152x896"]
+   *                           seed:
+   *                             type: boolean
+   *                           negativePrompt:
+   *                             type: boolean
+   *                           steps:
+   *                             type: object
+   *                             nullable: true
+   *                             description: Accepted range, or null when fixed
+   *                             properties:
+   *                               min:
+   *                                 type: integer
+   *                               max:
+   *                                 type: integer
+   *                           guidance:
+   *                             type: object
+   *                             nullable: true
+   *                             properties:
+   *                               min:
+   *                                 type: number
+   *                               max:
+   *                                 type: number
+   *                       defaultOutputs:
+   *                         type: integer
+   *                         example: 3
+   *                       costPerImage:
+   *                         type: number
+   *                         example: 0.012
+   *       401:
+   *         description: Authentication required
+   */
+  getProviders = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const providers = this.designService.getProviders();
+
+      res.status(200).json({
+        success: true,
+        message: "AI providers retrieved successfully",
+        data: providers,
+      });
+    }
+  );
+
   /**
    * @swagger
    * /designs/{id}/regenerate:
    *   post:
    *     summary: Regenerate design
+   *     description: |
+   *       Creates a child design with the same inputs and generation parameters,
+   *       except for the seed, so the result is a new variation. To reproduce a
+   *       design exactly, generate with the seed from its metadata.parameters.
    *     tags: [Designs]
    *     security:
    *       - bearerAuth: []
@@ -421,6 +650,7 @@ export class DesignController {
    *         schema:
    *           type: string
    *         description: Design ID to regenerate
+   *       - $ref: '#/components/parameters/IdempotencyKey'
    *     requestBody:
    *       required: false
    *       content:
@@ -430,7 +660,7 @@ export class DesignController {
    *             properties:
    *               aiProvider:
    *                 type: string
-   *                 enum: [openai, replicate]
+   *                 description: Name of an enabled AI provider
    *                 example: replicate
    *               customPrompt:
    *                 type: string
@@ -451,12 +681,16 @@ export class DesignController {
    *                   example: Design regenerated successfully
    *                 data:
    *                   $ref: '#/components/schemas/Design'
+   *       402:
+   *         description: Monthly generation quota exceeded
    *       404:
    *         description: Design not found
    *       403:
    *         description: Access denied
    *       401:
    *         description: Authentication required
+   *       409:
+   *         description: Idempotency-Key reused for a different request, or still in progress
    *       429:
    *         description: Rate limit exceeded
    */
@@ -489,4 +723,560 @@ export class DesignController {
       });
     }
   );
+
+  /**
+   * @swagger
+   * /designs/{id}/cancel:
+   *   post:
+   *     summary: Cancel a pending or processing design
+   *     description: |
+   *       Stops the generation, aborting the provider call if one is in
+   *       flight, and refunds the design's credits. The design is kept with
+   *       status CANCELLED.
+   *     tags: [Designs]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Design ID
+   *     responses:
+   *       200:
+   *         description: Design cancelled successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Design cancelled successfully
+   *                 data:
+   *                   $ref: '#/components/schemas/Design'
+   *       403:
+   *         description: Access denied
+   *       404:
+   *         description: Design not found
+   *       409:
+   *         description: Design already completed, failed or cancelled
+   */
+  cancelDesign = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      const design = await this.designService.cancelDesign(id, userId);
+
+      res.status(200).json({
+        success: true,
+        message: "Design cancelled successfully",
+        data: design,
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /designs/{id}/edit:
+   *   post:
+   *     summary: Edit part of a design
+   *     description: |
+   *       Repaints the area marked by the mask following the instruction. The
+   *       result is a new design whose parentDesignId is the edited design;
+   *       it is charged and queued like any other generation.
+   *     tags: [Designs]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Completed design to edit
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         multipart/form-data:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - mask
+   *               - instruction
+   *             properties:
+   *               mask:
+   *                 type: string
+   *                 format: binary
+   *                 description: Image the size of the design; white marks the area to change, black is kept
+   *               instruction:
+   *                 type: string
+   *                 example: Replace the sofa with a green velvet chesterfield
+   *               aiProvider:
+   *                 type: string
+   *                 description: Name of an enabled AI provider that supports inpainting; defaults to the design's provider
+   *     responses:
+   *       201:
+   *         description: Design edit started successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Design edit started successfully
+   *                 data:
+   *                   $ref: '#/components/schemas/Design'
+   *       400:
+   *         description: Invalid mask, or the provider cannot edit designs
+   *       402:
+   *         description: Monthly generation quota exceeded
+   *       403:
+   *         description: Access denied
+   *       404:
+   *         description: Design not found
+   *       409:
+   *         description: Design is not completed
+   *       401:
+   *         description: Authentication required
+   */
+  editDesign = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const data: EditDesignDto = req.body;
+
+      const design = await this.designService.editDesign(
+        id,
+        userId,
+        data,
+        req.file!
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "Design edit started successfully",
+        data: design,
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /designs/{id}/variants:
+   *   get:
+   *     summary: Get design variants
+   *     tags: [Designs]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Design ID
+   *     responses:
+   *       200:
+   *         description: Design variants retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Design variants retrieved successfully
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/DesignVariant'
+   *       404:
+   *         description: Design not found
+   *       403:
+   *         description: Access denied
+   *       401:
+   *         description: Authentication required
+   */
+  getDesignVariants = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      const variants = await this.designService.getDesignVariants(id, userId);
+
+      res.status(200).json({
+        success: true,
+        message: "Design variants retrieved successfully",
+        data: variants,
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /designs/{id}/variants/{variantId}/select:
+   *   post:
+   *     summary: Select a variant as the design's primary image
+   *     tags: [Designs]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Design ID
+   *       - in: path
+   *         name: variantId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Variant ID
+   *     responses:
+   *       200:
+   *         description: Design variant selected successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Design variant selected successfully
+   *                 data:
+   *                   $ref: '#/components/schemas/Design'
+   *       404:
+   *         description: Design or variant not found
+   *       403:
+   *         description: Access denied
+   *       401:
+   *         description: Authentication required
+   */
+  selectDesignVariant = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { id, variantId } = req.params;
+      const userId = req.user!.id;
+
+      const design = await this.designService.selectDesignVariant(
+        id,
+        variantId,
+        userId
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Design variant selected successfully",
+        data: design,
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /designs/{id}/variants/{variantId}:
+   *   delete:
+   *     summary: Delete a design variant
+   *     tags: [Designs]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Design ID
+   *       - in: path
+   *         name: variantId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Variant ID
+   *     responses:
+   *       200:
+   *         description: Design variant deleted successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Design variant deleted successfully
+   *       404:
+   *         description: Design or variant not found
+   *       409:
+   *         description: The selected variant cannot be deleted
+   *       403:
+   *         description: Access denied
+   *       401:
+   *         description: Authentication required
+   */
+  deleteDesignVariant = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { id, variantId } = req.params;
+      const userId = req.user!.id;
+
+      await this.designService.deleteDesignVariant(id, variantId, userId);
+
+      res.status(200).json({
+        success: true,
+        message: "Design variant deleted successfully",
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /designs/{id}/review:
+   *   patch:
+   *     summary: Review a design
+   *     description: |
+   *       Set the review status, rating or favourite flag of a completed design.
+   *       Approving a design makes it the room's approved design; a previously
+   *       approved design in the same room moves back to SHORTLISTED.
+   *     tags: [Designs]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Design ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             minProperties: 1
+   *             properties:
+   *               reviewStatus:
+   *                 type: string
+   *                 enum: [DRAFT, SHORTLISTED, APPROVED, REJECTED]
+   *               rating:
+   *                 type: integer
+   *                 minimum: 1
+   *                 maximum: 5
+   *                 nullable: true
+   *                 description: null clears the rating
+   *               isFavorite:
+   *                 type: boolean
+   *     responses:
+   *       200:
+   *         description: Design reviewed successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Design reviewed successfully
+   *                 data:
+   *                   $ref: '#/components/schemas/Design'
+   *       404:
+   *         description: Design not found
+   *       409:
+   *         description: Design is not completed
+   *       403:
+   *         description: Access denied
+   *       401:
+   *         description: Authentication required
+   */
+  reviewDesign = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const review: ReviewDesignDto = req.body;
+
+      const design = await this.designService.reviewDesign(id, userId, review);
+
+      res.status(200).json({
+        success: true,
+        message: "Design reviewed successfully",
+        data: design,
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /designs/{id}/events:
+   *   get:
+   *     summary: Stream design status events
+   *     description: |
+   *       Server-Sent Events stream. Sends a `snapshot` event with the current
+   *       design, then `status`, `progress`, `completed` and `failed` events as
+   *       generation advances. The stream closes once the design completes or fails.
+   *     tags: [Designs]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Design ID
+   *     responses:
+   *       200:
+   *         description: Event stream opened
+   *         content:
+   *           text/event-stream:
+   *             schema:
+   *               type: string
+   *       404:
+   *         description: Design not found
+   *       403:
+   *         description: Access denied
+   *       401:
+   *         description: Authentication required
+   */
+  streamDesignEvents = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      // Access check before the stream is opened
+      await this.designService.getDesignById(id, userId);
+
+      const stream = new SseStream(req, res);
+
+      try {
+        const unsubscribe = await DesignEvents.subscribeToDesign(
+          id,
+          (event) => {
+            stream.send(event.type, event);
+
+            if (TERMINAL_STATUSES.includes(event.status)) {
+              stream.close();
+            }
+          }
+        );
+        stream.onClose(unsubscribe);
+
+        // Snapshot is read after subscribing so no transition is missed
+        const design = await this.designService.getDesignById(id, userId);
+        stream.send("snapshot", design);
+
+        if (TERMINAL_STATUSES.includes(design.status)) {
+          stream.close();
+        }
+      } catch (error) {
+        logger.error("Design event stream failed:", error);
+        stream.send("error", { message: "Live updates are unavailable" });
+        stream.close();
+      }
+    }
+  );
+
+  /**
+   * @swagger
+   * /designs/room/{roomId}/events:
+   *   get:
+   *     summary: Stream design status events for a room
+   *     description: |
+   *       Server-Sent Events stream of `status`, `progress`, `completed` and
+   *       `failed` events for every design in the room. Sends a `ready` event
+   *       once subscribed and stays open until the client disconnects.
+   *     tags: [Designs]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: roomId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Room ID
+   *     responses:
+   *       200:
+   *         description: Event stream opened
+   *         content:
+   *           text/event-stream:
+   *             schema:
+   *               type: string
+   *       404:
+   *         description: Room not found
+   *       403:
+   *         description: Access denied
+   *       401:
+   *         description: Authentication required
+   */
+  streamRoomDesignEvents = asyncHandler(
+    async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      const { roomId } = req.params;
+      const userId = req.user!.id;
+
+      await this.designService.verifyRoomAccess(roomId, userId);
+
+      const stream = new SseStream(req, res);
+
+      try {
+        const unsubscribe = await DesignEvents.subscribeToRoom(
+          roomId,
+          (event) => {
+            stream.send(event.type, event);
+          }
+        );
+        stream.onClose(unsubscribe);
+
+        stream.send("ready", { roomId });
+      } catch (error) {
+        logger.error("Room design event stream failed:", error);
+        stream.send("error", { message: "Live updates are unavailable" });
+        stream.close();
+      }
+    }
+  );
 }
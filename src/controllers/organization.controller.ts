@@ -0,0 +1,499 @@
+import { Response, NextFunction } from "express";
+import {
+  AuthenticatedRequest,
+  ApiResponse,
+  AddMemberDto,
+  CreateOrganizationDto,
+} from "../types";
+import { OrganizationService } from "../services/organization.service";
+import { prisma } from "../config/database";
+import { asyncHandler } from "../middleware/error.middleware";
+import { getRequestContext } from "../utils/request-context";
+import logger from "../utils/logger";
+
+export class OrganizationController {
+  private organizationService: OrganizationService;
+
+  constructor() {
+    this.organizationService = new OrganizationService(prisma);
+  }
+
+  /**
+   * @swagger
+   * /organizations:
+   *   post:
+   *     summary: Create an organization
+   *     description: Available to BUSINESS accounts. The creator becomes its owner.
+   *     tags: [Organizations]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - name
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 example: Studio North
+   *     responses:
+   *       201:
+   *         description: Organization created successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Organization created successfully
+   *                 data:
+   *                   $ref: '#/components/schemas/Organization'
+   *       400:
+   *         description: Validation error
+   *       403:
+   *         description: Only BUSINESS accounts can create organizations
+   */
+  createOrganization = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const data: CreateOrganizationDto = req.body;
+      const userId = req.user!.id;
+
+      const organization = await this.organizationService.createOrganization(
+        userId,
+        data,
+        getRequestContext(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "Organization created successfully",
+        data: organization,
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /organizations:
+   *   get:
+   *     summary: Get organizations the user belongs to
+   *     tags: [Organizations]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Organizations retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Organizations retrieved successfully
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/Organization'
+   */
+  getOrganizations = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const userId = req.user!.id;
+
+      const organizations =
+        await this.organizationService.getUserOrganizations(userId);
+
+      res.status(200).json({
+        success: true,
+        message: "Organizations retrieved successfully",
+        data: organizations,
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /organizations/{id}:
+   *   get:
+   *     summary: Get organization with its members
+   *     tags: [Organizations]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Organization ID
+   *     responses:
+   *       200:
+   *         description: Organization retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Organization retrieved successfully
+   *                 data:
+   *                   allOf:
+   *                     - $ref: '#/components/schemas/Organization'
+   *                     - type: object
+   *                       properties:
+   *                         members:
+   *                           type: array
+   *                           items:
+   *                             $ref: '#/components/schemas/OrganizationMember'
+   *       404:
+   *         description: Organization not found
+   */
+  getOrganization = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      const organization = await this.organizationService.getOrganizationById(
+        id,
+        userId
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Organization retrieved successfully",
+        data: organization,
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /organizations/{id}:
+   *   put:
+   *     summary: Rename an organization
+   *     tags: [Organizations]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Organization ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - name
+   *             properties:
+   *               name:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Organization updated successfully
+   *       403:
+   *         description: Requires ADMIN role or above
+   *       404:
+   *         description: Organization not found
+   */
+  updateOrganization = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const data: CreateOrganizationDto = req.body;
+
+      const organization = await this.organizationService.updateOrganization(
+        id,
+        userId,
+        data
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Organization updated successfully",
+        data: organization,
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /organizations/{id}:
+   *   delete:
+   *     summary: Delete an organization
+   *     description: Owners only. The organization's projects become personal projects of their creators.
+   *     tags: [Organizations]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Organization ID
+   *     responses:
+   *       200:
+   *         description: Organization deleted successfully
+   *       403:
+   *         description: Requires OWNER role
+   *       404:
+   *         description: Organization not found
+   */
+  deleteOrganization = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      await this.organizationService.deleteOrganization(
+        id,
+        userId,
+        getRequestContext(req)
+      );
+
+      logger.info("Organization deleted successfully", {
+        organizationId: id,
+        userId,
+      });
+
+      res.status(200).json({
+        success: true,
+        message: "Organization deleted successfully",
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /organizations/{id}/members:
+   *   post:
+   *     summary: Add a member by email
+   *     description: Requires ADMIN role or above. Only owners can add owners.
+   *     tags: [Organizations]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Organization ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - email
+   *             properties:
+   *               email:
+   *                 type: string
+   *                 format: email
+   *               role:
+   *                 type: string
+   *                 enum: [OWNER, ADMIN, DESIGNER, VIEWER]
+   *                 default: DESIGNER
+   *     responses:
+   *       201:
+   *         description: Member added successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Member added successfully
+   *                 data:
+   *                   $ref: '#/components/schemas/OrganizationMember'
+   *       404:
+   *         description: Organization or user not found
+   *       409:
+   *         description: User is already a member
+   */
+  addMember = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const data: AddMemberDto = req.body;
+
+      const member = await this.organizationService.addMember(
+        id,
+        userId,
+        data,
+        getRequestContext(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "Member added successfully",
+        data: member,
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /organizations/{id}/members/{userId}:
+   *   put:
+   *     summary: Change a member's role
+   *     tags: [Organizations]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Organization ID
+   *       - in: path
+   *         name: userId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Member user ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - role
+   *             properties:
+   *               role:
+   *                 type: string
+   *                 enum: [OWNER, ADMIN, DESIGNER, VIEWER]
+   *     responses:
+   *       200:
+   *         description: Member role updated successfully
+   *       403:
+   *         description: Insufficient role
+   *       409:
+   *         description: Would leave the organization without an owner
+   */
+  updateMember = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { id, userId: memberId } = req.params;
+      const userId = req.user!.id;
+
+      const member = await this.organizationService.updateMemberRole(
+        id,
+        userId,
+        memberId,
+        req.body.role,
+        getRequestContext(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Member role updated successfully",
+        data: member,
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /organizations/{id}/members/{userId}:
+   *   delete:
+   *     summary: Remove a member, or leave the organization
+   *     tags: [Organizations]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Organization ID
+   *       - in: path
+   *         name: userId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Member user ID (your own ID to leave)
+   *     responses:
+   *       200:
+   *         description: Member removed successfully
+   *       403:
+   *         description: Insufficient role
+   *       409:
+   *         description: Would leave the organization without an owner
+   */
+  removeMember = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { id, userId: memberId } = req.params;
+      const userId = req.user!.id;
+
+      await this.organizationService.removeMember(
+        id,
+        userId,
+        memberId,
+        getRequestContext(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Member removed successfully",
+      });
+    }
+  );
+}
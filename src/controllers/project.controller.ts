@@ -8,6 +8,7 @@ import {
 import { ProjectService } from "../services/project.service";
 import { prisma } from "../config/database";
 import { asyncHandler } from "../middleware/error.middleware";
+import { getRequestContext } from "../utils/request-context";
 import logger from "../utils/logger";
 
 export class ProjectController {
@@ -50,6 +51,9 @@ export class ProjectController {
    *                 type: string
    *                 enum: [ART_DECO, BOHEMIAN, COASTAL, RUSTIC, CONTEMPORARY, ETHNIC, INDUSTRIAL, SCANDINAVIAN, VINTAGE, MINIMALIST]
    *                 example: CONTEMPORARY
+   *               organizationId:
+   *                 type: string
+   *                 description: Create the project in an organization (requires DESIGNER role or above)
    *     responses:
    *       201:
    *         description: Project created successfully
@@ -104,11 +108,17 @@ export class ProjectController {
    * /projects:
    *   get:
    *     summary: Get user projects
+   *     description: Includes personal projects and projects of every organization the user belongs to.
    *     tags: [Projects]
    *     security:
    *       - bearerAuth: []
    *     parameters:
    *       - in: query
+   *         name: organizationId
+   *         schema:
+   *           type: string
+   *         description: Only projects of this organization
+   *       - in: query
    *         name: page
    *         schema:
    *           type: integer
@@ -363,7 +373,11 @@ export class ProjectController {
       const { id } = req.params;
       const userId = req.user!.id;
 
-      await this.projectService.deleteProject(id, userId);
+      await this.projectService.deleteProject(
+        id,
+        userId,
+        getRequestContext(req)
+      );
 
       logger.info("Project deleted successfully", {
         projectId: id,
@@ -460,6 +474,7 @@ export class ProjectController {
    *         schema:
    *           type: string
    *         description: Project ID to duplicate
+   *       - $ref: '#/components/parameters/IdempotencyKey'
    *     requestBody:
    *       required: false
    *       content:
@@ -492,6 +507,8 @@ export class ProjectController {
    *         description: Access denied
    *       401:
    *         description: Authentication required
+   *       409:
+   *         description: Idempotency-Key reused for a different request, or still in progress
    */
   duplicateProject = asyncHandler(
     async (
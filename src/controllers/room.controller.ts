@@ -8,6 +8,7 @@ import {
 import { RoomService } from "../services/room.service";
 import { prisma } from "../config/database";
 import { asyncHandler } from "../middleware/error.middleware";
+import { getRequestContext } from "../utils/request-context";
 import logger from "../utils/logger";
 
 export class RoomController {
@@ -380,7 +381,7 @@ export class RoomController {
       const { id } = req.params;
       const userId = req.user!.id;
 
-      await this.roomService.deleteRoom(id, userId);
+      await this.roomService.deleteRoom(id, userId, getRequestContext(req));
 
       logger.info("Room deleted successfully", {
         roomId: id,
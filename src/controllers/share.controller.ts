@@ -0,0 +1,280 @@
+import { Request, Response, NextFunction } from "express";
+import {
+  AuthenticatedRequest,
+  ApiResponse,
+  CreateShareLinkDto,
+} from "../types";
+import { ShareService } from "../services/share.service";
+import { prisma } from "../config/database";
+import { asyncHandler } from "../middleware/error.middleware";
+import { getRequestContext } from "../utils/request-context";
+
+export class ShareController {
+  private shareService: ShareService;
+
+  constructor() {
+    this.shareService = new ShareService(prisma);
+  }
+
+  /**
+   * @swagger
+   * /projects/{id}/share-links:
+   *   post:
+   *     summary: Create a read-only share link
+   *     description: |
+   *       Requires edit access to the project. The token and URL are only
+   *       returned in this response.
+   *     tags: [Sharing]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Project ID
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               password:
+   *                 type: string
+   *                 minLength: 4
+   *                 description: Require this password to open the link
+   *               expiresAt:
+   *                 type: string
+   *                 format: date-time
+   *                 description: At most one year ahead; defaults to SHARE_LINK_TTL_DAYS from now
+   *     responses:
+   *       201:
+   *         description: Share link created successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Share link created successfully
+   *                 data:
+   *                   allOf:
+   *                     - $ref: '#/components/schemas/ShareLink'
+   *                     - type: object
+   *                       properties:
+   *                         token:
+   *                           type: string
+   *                         url:
+   *                           type: string
+   *       400:
+   *         description: Invalid expiry
+   *       403:
+   *         description: Access denied
+   *       404:
+   *         description: Project not found
+   */
+  createShareLink = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const data: CreateShareLinkDto = req.body;
+
+      const link = await this.shareService.createShareLink(
+        id,
+        userId,
+        data,
+        getRequestContext(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "Share link created successfully",
+        data: link,
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /projects/{id}/share-links:
+   *   get:
+   *     summary: Get a project's share links
+   *     tags: [Sharing]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Project ID
+   *     responses:
+   *       200:
+   *         description: Share links retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Share links retrieved successfully
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/ShareLink'
+   *       403:
+   *         description: Access denied
+   *       404:
+   *         description: Project not found
+   */
+  getShareLinks = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      const links = await this.shareService.getShareLinks(id, userId);
+
+      res.status(200).json({
+        success: true,
+        message: "Share links retrieved successfully",
+        data: links,
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /projects/{id}/share-links/{linkId}:
+   *   delete:
+   *     summary: Revoke a share link
+   *     tags: [Sharing]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Project ID
+   *       - in: path
+   *         name: linkId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Share link ID
+   *     responses:
+   *       200:
+   *         description: Share link revoked successfully
+   *       403:
+   *         description: Access denied
+   *       404:
+   *         description: Project or share link not found
+   */
+  revokeShareLink = asyncHandler(
+    async (
+      req: AuthenticatedRequest,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      const { id, linkId } = req.params;
+      const userId = req.user!.id;
+
+      const link = await this.shareService.revokeShareLink(
+        id,
+        linkId,
+        userId,
+        getRequestContext(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Share link revoked successfully",
+        data: link,
+      });
+    }
+  );
+
+  /**
+   * @swagger
+   * /share/{token}:
+   *   get:
+   *     summary: View a shared project
+   *     description: |
+   *       Public, read-only view of a project's rooms and completed designs.
+   *       Password protected links need the password in the X-Share-Password header.
+   *     tags: [Sharing]
+   *     parameters:
+   *       - in: path
+   *         name: token
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Token from the share URL
+   *       - in: header
+   *         name: X-Share-Password
+   *         schema:
+   *           type: string
+   *         description: Password of a protected link
+   *     responses:
+   *       200:
+   *         description: Shared project retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: Shared project retrieved successfully
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     project:
+   *                       $ref: '#/components/schemas/SharedProject'
+   *                     expiresAt:
+   *                       type: string
+   *                       format: date-time
+   *       401:
+   *         description: Password required or invalid
+   *       404:
+   *         description: Share link not found
+   *       410:
+   *         description: Share link expired or revoked
+   */
+  getSharedProject = asyncHandler(
+    async (req: Request, res: Response<ApiResponse>, next: NextFunction) => {
+      const { token } = req.params;
+      const password = req.get("X-Share-Password") || undefined;
+
+      const shared = await this.shareService.getSharedProject(token, password);
+
+      res.status(200).json({
+        success: true,
+        message: "Shared project retrieved successfully",
+        data: shared,
+      });
+    }
+  );
+}
@@ -3,6 +3,7 @@ import { AuthenticatedRequest, ApiResponse } from "../types";
 import { UploadService } from "../services/upload.service";
 import { prisma } from "../config/database";
 import { asyncHandler } from "../middleware/error.middleware";
+import { getRequestContext } from "../utils/request-context";
 import logger from "../utils/logger";
 
 export class UploadController {
@@ -36,6 +37,7 @@ export class UploadController {
       const result = await this.uploadService.uploadRoomImage(file, {
         roomId,
         userId,
+        context: getRequestContext(req),
       });
 
       logger.info("Room image uploaded successfully", {
@@ -86,7 +88,11 @@ export class UploadController {
       const { id } = req.params;
       const userId = req.user!.id;
 
-      await this.uploadService.deleteUpload(id, userId);
+      await this.uploadService.deleteUpload(
+        id,
+        userId,
+        getRequestContext(req)
+      );
 
       logger.info("Upload deleted successfully", {
         uploadId: id,
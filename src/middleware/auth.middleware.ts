@@ -1,6 +1,8 @@
 import { Response, NextFunction } from "express";
 import { JwtUtil } from "../utils/jwt";
+import { JwtPayload } from "../types";
 import { prisma } from "../config/database";
+import { config } from "../config/env";
 import logger from "../utils/logger";
 
 /**
@@ -27,6 +29,17 @@ export const authenticate = async (
     // Verify token
     const decoded = JwtUtil.verifyToken(token);
 
+    // Logout, password resets and refresh token reuse delete the session,
+    // which must end its access tokens too
+    if (!(await isSessionActive(decoded))) {
+      res.status(401).json({
+        success: false,
+        message: "Session has ended. Please login again.",
+        error: "SESSION_REVOKED",
+      });
+      return;
+    }
+
     // Check if user exists and is active
     const user = await prisma.user.findUnique({
       where: { id: decoded?.userId },
@@ -38,6 +51,7 @@ export const authenticate = async (
         userType: true,
         organization: true,
         isVerified: true,
+        isAdmin: true,
         lastLogin: true,
         createdAt: true,
         updatedAt: true,
@@ -54,7 +68,7 @@ export const authenticate = async (
     }
 
     // Check if user is verified (optional, based on your requirements)
-    if (!user.isVerified && process.env.REQUIRE_EMAIL_VERIFICATION === "true") {
+    if (!user.isVerified && config.auth.requireEmailVerification) {
       res.status(401).json({
         success: false,
         message: "Account not verified. Please verify your email.",
@@ -63,8 +77,9 @@ export const authenticate = async (
       return;
     }
 
-    // Attach user to request
+    // Attach user and session to request
     req.user = user;
+    req.sessionId = decoded.sid;
 
     // Log successful authentication
     logger.security("User authenticated successfully", {
@@ -173,6 +188,37 @@ export const requireUserType = (allowedTypes: string[]) => {
   };
 };
 
+/**
+ * Middleware to restrict a route to platform administrators
+ */
+export const requireAdmin = (req: any, res: any, next: NextFunction): void => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      message: "Authentication required.",
+      error: "No user found in request",
+    });
+    return;
+  }
+
+  if (!req.user.isAdmin) {
+    logger.security("Access denied - admin required", {
+      userId: req.user.id,
+      path: req.originalUrl,
+      ip: req.ip,
+    });
+
+    res.status(403).json({
+      success: false,
+      message: "Access denied. Insufficient permissions.",
+      error: "Insufficient permissions",
+    });
+    return;
+  }
+
+  next();
+};
+
 /**
  * Middleware to check resource ownership
  */
@@ -223,21 +269,23 @@ export const optionalAuth = async (
 
     if (token) {
       const decoded = JwtUtil.verifyToken(token);
-      const user = await prisma.user.findUnique({
-        where: { id: decoded.userId },
-        select: {
-          id: true,
-          email: true,
-          name: true,
-          password: true,
-          userType: true,
-          organization: true,
-          isVerified: true,
-          lastLogin: true,
-          createdAt: true,
-          updatedAt: true,
-        },
-      });
+      const user = !(await isSessionActive(decoded))
+        ? null
+        : await prisma.user.findUnique({
+            where: { id: decoded.userId },
+            select: {
+              id: true,
+              email: true,
+              name: true,
+              password: true,
+              userType: true,
+              organization: true,
+              isVerified: true,
+              lastLogin: true,
+              createdAt: true,
+              updatedAt: true,
+            },
+          });
 
       if (user) {
         req.user = user;
@@ -252,72 +300,21 @@ export const optionalAuth = async (
 };
 
 /**
- * Middleware to validate session token against database
+ * Whether the token's session still exists and has not expired
  */
-export const validateSession = async (
-  req: any,
-  res: any,
-  next: NextFunction
-): Promise<void> => {
-  try {
-    if (!req.user) {
-      res.status(401).json({
-        success: false,
-        message: "Authentication required.",
-        error: "No user found in request",
-      });
-      return;
-    }
-
-    const authHeader = req.header("Authorization");
-    const token = JwtUtil.extractTokenFromHeader(authHeader);
-
-    if (!token) {
-      res.status(401).json({
-        success: false,
-        message: "No token provided.",
-        error: "Missing token",
-      });
-      return;
-    }
-
-    // Check if session exists in database
-    const session = await prisma.session.findUnique({
-      where: { token },
-      include: { user: true },
-    });
-
-    if (!session) {
-      res.status(401).json({
-        success: false,
-        message: "Invalid session.",
-        error: "Session not found",
-      });
-      return;
-    }
-
-    // Check if session is expired
-    if (session.expiresAt < new Date()) {
-      // Clean up expired session
-      await prisma.session.delete({
-        where: { token },
-      });
+const isSessionActive = async (decoded: JwtPayload): Promise<boolean> => {
+  if (!decoded.sid) {
+    return false;
+  }
 
-      res.status(401).json({
-        success: false,
-        message: "Session expired.",
-        error: "SESSION_EXPIRED",
-      });
-      return;
-    }
+  const session = await prisma.session.findUnique({
+    where: { id: decoded.sid },
+    select: { userId: true, expiresAt: true },
+  });
 
-    next();
-  } catch (error) {
-    logger.error("Session validation error:", error);
-    res.status(500).json({
-      success: false,
-      message: "Internal server error during session validation.",
-      error: "Session validation failed",
-    });
-  }
+  return (
+    !!session &&
+    session.userId === decoded.userId &&
+    session.expiresAt > new Date()
+  );
 };
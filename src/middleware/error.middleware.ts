@@ -36,7 +36,9 @@ export const createError = (
 /**
  * Async error handler wrapper
  */
-export const asyncHandler = (fn: Function) => {
+export const asyncHandler = (
+  fn: (req: any, res: any, next: NextFunction) => unknown
+) => {
   return (req: Request, res: Response, next: NextFunction) => {
     Promise.resolve(fn(req, res, next)).catch(next);
   };
@@ -0,0 +1,44 @@
+import { Request } from "express";
+import { fingerprintRequest } from "./idempotency.middleware";
+
+const request = (overrides: Partial<Request> = {}): Request =>
+  ({
+    method: "POST",
+    baseUrl: "/api/v1/designs",
+    path: "/generate",
+    body: { roomId: "room-1", customPrompt: "cosy" },
+    ...overrides,
+  }) as Request;
+
+const file = (contents: string) =>
+  ({ buffer: Buffer.from(contents) }) as Express.Multer.File;
+
+describe("fingerprintRequest", () => {
+  it("is stable for the same request", () => {
+    expect(fingerprintRequest(request())).toBe(fingerprintRequest(request()));
+  });
+
+  it.each([
+    ["method", { method: "PUT" }],
+    ["path", { path: "/abc/regenerate" }],
+    ["mount point", { baseUrl: "/api/v1/rooms" }],
+    ["body", { body: { roomId: "room-2", customPrompt: "cosy" } }],
+    ["missing body", { body: undefined }],
+  ])("changes with the %s", (_, overrides) => {
+    expect(fingerprintRequest(request(overrides))).not.toBe(
+      fingerprintRequest(request())
+    );
+  });
+
+  it("covers the uploaded file's contents, not just its presence", () => {
+    const withFile = fingerprintRequest(request({ file: file("photo-a") }));
+
+    expect(withFile).not.toBe(fingerprintRequest(request()));
+    expect(withFile).toBe(
+      fingerprintRequest(request({ file: file("photo-a") }))
+    );
+    expect(withFile).not.toBe(
+      fingerprintRequest(request({ file: file("photo-b") }))
+    );
+  });
+});
@@ -0,0 +1,205 @@
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { ApiResponse, AuthenticatedRequest } from "../types";
+import { RedisClient, RedisConnection } from "../utils/redis";
+import { config } from "../config/env";
+import logger from "../utils/logger";
+
+const HEADER = "Idempotency-Key";
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/; // printable ASCII, no spaces
+
+// How long a key stays claimed by a request that never answered (e.g. the
+// process died); the claim is extended while the handler runs, and the
+// completed response is then kept for the full window
+const IN_FLIGHT_TTL_MS = 60 * 1000;
+
+// Give up on the store quickly so a Redis outage doesn't stall requests
+const STORE_TIMEOUT_MS = 2000;
+
+interface IdempotencyRecord {
+  fingerprint: string;
+  state: "in_flight" | "completed";
+  statusCode?: number;
+  body?: unknown;
+}
+
+/**
+ * Honour the Idempotency-Key header: the first request with a key runs and
+ * its response is stored; retries with the same key and request get the
+ * stored response, and reusing the key for a different request is a 409.
+ * Requests without the header are untouched. Mount after authentication,
+ * validation and any multer middleware so the fingerprint sees the final
+ * body and file.
+ */
+export const idempotent = () => {
+  return async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> => {
+    const idempotencyKey = req.get(HEADER);
+    const user = (req as AuthenticatedRequest).user;
+
+    if (idempotencyKey === undefined || !user) {
+      next();
+      return;
+    }
+
+    if (!KEY_PATTERN.test(idempotencyKey)) {
+      res.status(400).json({
+        success: false,
+        message: `${HEADER} must be 1-255 printable ASCII characters.`,
+        error: "Invalid idempotency key",
+      });
+      return;
+    }
+
+    // Keys are scoped to the user, so clients can't collide with each other
+    const redisKey = RedisClient.key(
+      "idempotency",
+      user.id,
+      crypto.createHash("sha256").update(idempotencyKey).digest("hex")
+    );
+    const fingerprint = fingerprintRequest(req);
+    const ttlMs = config.idempotency.ttlHours * 60 * 60 * 1000;
+
+    let client: RedisConnection;
+    let claimed: string | null;
+
+    try {
+      [client, claimed] = await withTimeout(
+        (async () => {
+          const connection = await RedisClient.getClient();
+          const inFlight: IdempotencyRecord = {
+            fingerprint,
+            state: "in_flight",
+          };
+          const result = await connection.set(
+            redisKey,
+            JSON.stringify(inFlight),
+            { NX: true, PX: IN_FLIGHT_TTL_MS }
+          );
+          return [connection, result] as const;
+        })(),
+        STORE_TIMEOUT_MS
+      );
+    } catch (error) {
+      // Without Redis the request still runs, just without the guarantee
+      logger.warn("Idempotency store unavailable, processing request", {
+        path: req.originalUrl,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      next();
+      return;
+    }
+
+    if (claimed !== "OK") {
+      const stored = await client.get(redisKey).catch(() => null);
+      const record: IdempotencyRecord | null = stored
+        ? JSON.parse(stored)
+        : null;
+
+      if (record && record.fingerprint !== fingerprint) {
+        logger.warn("Idempotency key reused with a different request", {
+          userId: user.id,
+          path: req.originalUrl,
+        });
+
+        res.status(409).json({
+          success: false,
+          message: `This ${HEADER} was already used for a different request.`,
+          error: "Idempotency key reused",
+        });
+        return;
+      }
+
+      if (record?.state === "completed") {
+        res.set("Idempotent-Replayed", "true");
+        res.status(record.statusCode!).json(record.body as ApiResponse);
+        return;
+      }
+
+      // The original is still running, or its record expired in between
+      res.status(409).json({
+        success: false,
+        message: `A request with this ${HEADER} is still being processed. Retry shortly.`,
+        error: "Idempotent request in progress",
+      });
+      return;
+    }
+
+    // Keep the claim alive for slow handlers (e.g. large uploads)
+    const keepAlive = setInterval(() => {
+      client.pExpire(redisKey, IN_FLIGHT_TTL_MS).catch(() => undefined);
+    }, IN_FLIGHT_TTL_MS / 2);
+    keepAlive.unref();
+    res.on("finish", () => clearInterval(keepAlive));
+
+    // Store the response once the handler (or the error handler) sends it
+    const sendJson = res.json.bind(res);
+    res.json = (body?: ApiResponse) => {
+      clearInterval(keepAlive);
+
+      const store =
+        res.statusCode >= 500
+          ? // Server errors are worth retrying, so release the key
+            client.del(redisKey)
+          : client.set(
+              redisKey,
+              JSON.stringify({
+                fingerprint,
+                state: "completed",
+                statusCode: res.statusCode,
+                body,
+              } satisfies IdempotencyRecord),
+              { PX: ttlMs }
+            );
+
+      store.catch((error) => {
+        logger.warn("Failed to store idempotent response", {
+          path: req.originalUrl,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      });
+
+      return sendJson(body);
+    };
+
+    next();
+  };
+};
+
+/**
+ * Hash of what makes two requests "the same": method, path, body and the
+ * uploaded file's contents
+ */
+export const fingerprintRequest = (req: Request): string => {
+  const file = req.file
+    ? crypto.createHash("sha256").update(req.file.buffer).digest("hex")
+    : null;
+
+  return crypto
+    .createHash("sha256")
+    .update(
+      JSON.stringify({
+        method: req.method,
+        path: req.baseUrl + req.path,
+        body: req.body ?? null,
+        file,
+      })
+    )
+    .digest("hex");
+};
+
+/**
+ * Reject if the promise hasn't settled within ms
+ */
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => {
+  let timer: NodeJS.Timeout;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
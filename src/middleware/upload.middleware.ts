@@ -138,7 +138,7 @@ export const handleUploadError = (
     });
 
     let message = "File upload error";
-    let statusCode = 400;
+    const statusCode = 400;
 
     switch (err.code) {
       case "LIMIT_FILE_SIZE":
@@ -32,7 +32,12 @@ export const validate = (schema: Joi.Schema, target: 'body' | 'query' | 'params'
       }
 
       // Replace the original data with validated and sanitized data
-      req[target] = value;
+      if (target === 'query') {
+        // Express 5 exposes req.query as a getter, so shadow it instead
+        Object.defineProperty(req, 'query', { value, writable: true, configurable: true });
+      } else {
+        req[target] = value;
+      }
       next();
     } catch (error) {
       logger.error('Validation middleware error:', error);
@@ -0,0 +1,88 @@
+import Queue from "bull";
+import { createQueue } from "../config/queue";
+import { config } from "../config/env";
+import logger from "../utils/logger";
+
+export const ASSET_CLEANUP_QUEUE_NAME = "asset-cleanup";
+
+export type AssetCleanupJobData =
+  | { type: "delete"; publicIds: string[]; reason: string }
+  | { type: "reconcile"; dryRun: boolean };
+
+// Cloudinary asset cleanup queue singleton
+export class AssetCleanupQueue {
+  private static instance: Queue.Queue<AssetCleanupJobData>;
+
+  public static getInstance(): Queue.Queue<AssetCleanupJobData> {
+    if (!AssetCleanupQueue.instance) {
+      AssetCleanupQueue.instance = createQueue<AssetCleanupJobData>(
+        ASSET_CLEANUP_QUEUE_NAME,
+        {
+          defaultJobOptions: {
+            attempts: config.queue.assetCleanup.attempts,
+            backoff: {
+              type: "exponential",
+              delay: config.queue.assetCleanup.backoffMs,
+            },
+            removeOnComplete: true,
+            removeOnFail: 100, // Keep the last 100 failed jobs for inspection
+          },
+        }
+      );
+
+      AssetCleanupQueue.instance.on("error", (error) => {
+        logger.error("Asset cleanup queue error:", error);
+      });
+    }
+
+    return AssetCleanupQueue.instance;
+  }
+
+  /**
+   * Enqueue deletion of one batch of Cloudinary assets
+   */
+  public static async enqueueDeletion(
+    publicIds: string[],
+    reason: string
+  ): Promise<Queue.Job<AssetCleanupJobData>> {
+    const job = await AssetCleanupQueue.getInstance().add({
+      type: "delete",
+      publicIds,
+      reason,
+    });
+
+    logger.info("Asset deletion job enqueued", {
+      jobId: job.id,
+      assets: publicIds.length,
+      reason,
+    });
+
+    return job;
+  }
+
+  /**
+   * Enqueue a reconciliation of Cloudinary against the database
+   */
+  public static async enqueueReconcile(
+    dryRun: boolean
+  ): Promise<Queue.Job<AssetCleanupJobData>> {
+    const job = await AssetCleanupQueue.getInstance().add(
+      { type: "reconcile", dryRun },
+      { attempts: 1 }
+    );
+
+    logger.info("Asset reconciliation job enqueued", {
+      jobId: job.id,
+      dryRun,
+    });
+
+    return job;
+  }
+
+  public static async close(): Promise<void> {
+    if (AssetCleanupQueue.instance) {
+      await AssetCleanupQueue.instance.close();
+      logger.info("Asset cleanup queue closed");
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import Queue from "bull";
+import { createQueue } from "../config/queue";
+import { config } from "../config/env";
+import logger from "../utils/logger";
+
+export const DESIGN_QUEUE_NAME = "design-generation";
+
+export interface DesignJobData {
+  designId: string;
+}
+
+// Design generation queue singleton
+export class DesignQueue {
+  private static instance: Queue.Queue<DesignJobData>;
+
+  public static getInstance(): Queue.Queue<DesignJobData> {
+    if (!DesignQueue.instance) {
+      DesignQueue.instance = createQueue<DesignJobData>(DESIGN_QUEUE_NAME, {
+        defaultJobOptions: {
+          attempts: config.queue.design.attempts,
+          backoff: {
+            type: "exponential",
+            delay: config.queue.design.backoffMs,
+          },
+          removeOnComplete: true,
+          removeOnFail: 100, // Keep the last 100 failed jobs for inspection
+        },
+      });
+
+      DesignQueue.instance.on("error", (error) => {
+        logger.error("Design queue error:", error);
+      });
+    }
+
+    return DesignQueue.instance;
+  }
+
+  /**
+   * Enqueue a design generation job
+   */
+  public static async enqueue(
+    designId: string
+  ): Promise<Queue.Job<DesignJobData>> {
+    const job = await DesignQueue.getInstance().add({ designId });
+
+    logger.info("Design generation job enqueued", {
+      designId,
+      jobId: job.id,
+    });
+
+    return job;
+  }
+
+  /**
+   * Get a job by ID
+   */
+  public static async getJob(
+    jobId: string
+  ): Promise<Queue.Job<DesignJobData> | null> {
+    return DesignQueue.getInstance().getJob(jobId);
+  }
+
+  public static async close(): Promise<void> {
+    if (DesignQueue.instance) {
+      await DesignQueue.instance.close();
+      logger.info("Design queue closed");
+    }
+  }
+}
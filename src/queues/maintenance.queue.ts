@@ -0,0 +1,101 @@
+import Queue from "bull";
+import { MaintenanceTrigger } from "@prisma/client";
+import { createQueue } from "../config/queue";
+import { MaintenanceJobName } from "../types";
+import logger from "../utils/logger";
+
+export const MAINTENANCE_QUEUE_NAME = "maintenance";
+
+export interface MaintenanceJobData {
+  job: MaintenanceJobName;
+  trigger: MaintenanceTrigger;
+  triggeredById?: string;
+}
+
+// Maintenance queue singleton; schedules are Bull repeatable jobs, so each
+// tick is picked up by exactly one worker
+export class MaintenanceQueue {
+  private static instance: Queue.Queue<MaintenanceJobData>;
+
+  public static getInstance(): Queue.Queue<MaintenanceJobData> {
+    if (!MaintenanceQueue.instance) {
+      MaintenanceQueue.instance = createQueue<MaintenanceJobData>(
+        MAINTENANCE_QUEUE_NAME,
+        {
+          defaultJobOptions: {
+            attempts: 1, // the next scheduled run is the retry
+            removeOnComplete: true,
+            removeOnFail: 100, // Keep the last 100 failed jobs for inspection
+          },
+        }
+      );
+
+      MaintenanceQueue.instance.on("error", (error) => {
+        logger.error("Maintenance queue error:", error);
+      });
+    }
+
+    return MaintenanceQueue.instance;
+  }
+
+  /**
+   * Make the repeatable jobs match the configured cron expressions,
+   * removing schedules that were changed or disabled
+   */
+  public static async syncSchedules(
+    schedules: Record<MaintenanceJobName, string>
+  ): Promise<void> {
+    const queue = MaintenanceQueue.getInstance();
+    const existing = await queue.getRepeatableJobs();
+
+    for (const repeatable of existing) {
+      const cron = schedules[repeatable.name as MaintenanceJobName];
+      if (repeatable.cron !== cron) {
+        await queue.removeRepeatableByKey(repeatable.key);
+      }
+    }
+
+    for (const [job, cron] of Object.entries(schedules)) {
+      if (!cron) {
+        continue;
+      }
+
+      await queue.add(
+        job,
+        { job: job as MaintenanceJobName, trigger: "SCHEDULED" },
+        { repeat: { cron } }
+      );
+    }
+
+    logger.info("Maintenance schedules synced", { schedules });
+  }
+
+  /**
+   * Enqueue a manual run of a maintenance job
+   */
+  public static async enqueue(
+    job: MaintenanceJobName,
+    triggeredById: string
+  ): Promise<Queue.Job<MaintenanceJobData>> {
+    const queued = await MaintenanceQueue.getInstance().add(job, {
+      job,
+      trigger: "MANUAL",
+      triggeredById,
+    });
+
+    logger.info("Maintenance job enqueued", {
+      job,
+      jobId: queued.id,
+      triggeredById,
+    });
+
+    return queued;
+  }
+
+  public static async close(): Promise<void> {
+    if (MaintenanceQueue.instance) {
+      await MaintenanceQueue.instance.close();
+      logger.info("Maintenance queue closed");
+    }
+  }
+}
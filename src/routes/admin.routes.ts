@@ -0,0 +1,70 @@
+import { Router } from "express";
+import { AdminController } from "../controllers/admin.controller";
+import { authenticate, requireAdmin } from "../middleware/auth.middleware";
+import {
+  validateParams,
+  validateQuery,
+} from "../middleware/validation.middleware";
+import { maintenanceSchemas } from "../utils/validation";
+import Joi from "joi";
+
+const router = Router();
+const adminController = new AdminController();
+
+// Validation schemas
+const jobParamsSchema = Joi.object({
+  job: Joi.string().required(),
+});
+
+/**
+ * @swagger
+ * tags:
+ *   name: Admin
+ *   description: Platform operations (administrators only)
+ */
+
+// All admin routes require an administrator
+router.use(authenticate, requireAdmin);
+
+/**
+ * @swagger
+ * /admin/maintenance/jobs:
+ *   get:
+ *     summary: List maintenance jobs
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get("/maintenance/jobs", adminController.getMaintenanceJobs);
+
+/**
+ * @swagger
+ * /admin/maintenance/jobs/{job}/run:
+ *   post:
+ *     summary: Run a maintenance job now
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.post(
+  "/maintenance/jobs/:job/run",
+  validateParams(jobParamsSchema),
+  adminController.runMaintenanceJob
+);
+
+/**
+ * @swagger
+ * /admin/maintenance/runs:
+ *   get:
+ *     summary: Get maintenance run history
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get(
+  "/maintenance/runs",
+  validateQuery(maintenanceSchemas.runsQuery),
+  adminController.getMaintenanceRuns
+);
+
+export default router;
@@ -4,8 +4,11 @@ import { authenticate } from "../middleware/auth.middleware";
 import {
   validateBody,
   validateParams,
+  validateQuery,
+  validateRateLimit,
 } from "../middleware/validation.middleware";
-import { authSchemas } from "../utils/validation";
+import { authSchemas, schemas } from "../utils/validation";
+import { AuditAction } from "../types";
 import Joi from "joi";
 
 const router = Router();
@@ -24,6 +27,28 @@ const refreshTokenSchema = Joi.object({
   refreshToken: Joi.string().required(),
 });
 
+const auditQuerySchema = Joi.object({
+  page: schemas.page,
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  action: Joi.string()
+    .valid(...Object.values(AuditAction))
+    .optional(),
+  resource: Joi.string()
+    .valid(
+      "user",
+      "session",
+      "project",
+      "room",
+      "design",
+      "upload",
+      "organization",
+      "maintenance"
+    )
+    .optional(),
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().optional(),
+});
+
 /**
  * @swagger
  * tags:
@@ -40,12 +65,52 @@ router.post(
 
 router.post("/login", validateBody(authSchemas.login), authController.login);
 
+router.post(
+  "/2fa/verify",
+  validateRateLimit({
+    maxRequests: 10,
+    windowMs: 15 * 60 * 1000,
+    message: "Too many two-factor attempts. Please try again later.",
+  }),
+  validateBody(authSchemas.twoFactorLogin),
+  authController.verifyTwoFactor
+);
+
 router.post(
   "/refresh",
   validateBody(refreshTokenSchema),
   authController.refreshToken
 );
 
+router.post(
+  "/forgot-password",
+  validateBody(authSchemas.forgotPassword),
+  authController.forgotPassword
+);
+
+router.post(
+  "/reset-password",
+  validateBody(authSchemas.resetPassword),
+  authController.resetPassword
+);
+
+router.post(
+  "/verify-email",
+  validateBody(authSchemas.verifyEmail),
+  authController.verifyEmail
+);
+
+router.post(
+  "/resend-verification",
+  validateRateLimit({
+    maxRequests: 5,
+    windowMs: 15 * 60 * 1000,
+    message: "Too many verification emails requested. Please try again later.",
+  }),
+  validateBody(authSchemas.resendVerification),
+  authController.resendVerification
+);
+
 router.post(
   "/check-email",
   validateBody(emailCheckSchema),
@@ -57,6 +122,14 @@ router.use(authenticate);
 
 router.get("/me", authController.getProfile);
 
+router.get("/me/usage", authController.getUsage);
+
+router.get(
+  "/me/audit",
+  validateQuery(auditQuerySchema),
+  authController.getAuditLogs
+);
+
 router.put(
   "/profile",
   validateBody(authSchemas.updateProfile),
@@ -69,6 +142,20 @@ router.put(
   authController.changePassword
 );
 
+router.post("/2fa/setup", authController.setupTwoFactor);
+
+router.post(
+  "/2fa/confirm",
+  validateBody(authSchemas.twoFactorCode),
+  authController.confirmTwoFactor
+);
+
+router.post(
+  "/2fa/disable",
+  validateBody(authSchemas.disableTwoFactor),
+  authController.disableTwoFactor
+);
+
 router.post("/logout", authController.logout);
 
 router.post("/logout-all", authController.logoutAll);
@@ -1,28 +1,46 @@
 import { Router } from "express";
 import { DesignController } from "../controllers/design.controller";
+import { CommentController } from "../controllers/comment.controller";
 import { authenticate } from "../middleware/auth.middleware";
+import { idempotent } from "../middleware/idempotency.middleware";
 import {
   validateBody,
+  validateFile,
   validateParams,
   validateQuery,
 } from "../middleware/validation.middleware";
-import { designSchemas } from "../utils/validation";
+import {
+  uploadSingle,
+  validateUploadedFile,
+} from "../middleware/upload.middleware";
+import { commentSchemas, designSchemas, schemas } from "../utils/validation";
 import Joi from "joi";
 
 const router = Router();
 const designController = new DesignController();
+const commentController = new CommentController();
 
 // Validation schemas
 const designIdSchema = Joi.object({
   id: Joi.string().required(),
 });
 
+const variantParamsSchema = Joi.object({
+  id: Joi.string().required(),
+  variantId: Joi.string().required(),
+});
+
+const commentParamsSchema = Joi.object({
+  id: Joi.string().required(),
+  commentId: Joi.string().required(),
+});
+
 const roomIdSchema = Joi.object({
   roomId: Joi.string().required(),
 });
 
 const regenerateDesignSchema = Joi.object({
-  aiProvider: Joi.string().valid("openai", "replicate").optional(),
+  aiProvider: schemas.aiProvider,
   customPrompt: Joi.string().trim().max(1000).optional(),
 });
 
@@ -63,6 +81,7 @@ router.get(
 router.post(
   "/generate",
   validateBody(designSchemas.generate),
+  idempotent(),
   designController.generateDesign
 );
 
@@ -77,6 +96,17 @@ router.post(
  */
 router.get("/stats", designController.getDesignStats);
 
+/**
+ * @swagger
+ * /designs/providers:
+ *   get:
+ *     summary: List enabled AI providers
+ *     tags: [Designs]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get("/providers", designController.getProviders);
+
 /**
  * @swagger
  * /designs/room/{roomId}:
@@ -89,9 +119,25 @@ router.get("/stats", designController.getDesignStats);
 router.get(
   "/room/:roomId",
   validateParams(roomIdSchema),
+  validateQuery(designSchemas.roomDesigns),
   designController.getRoomDesigns
 );
 
+/**
+ * @swagger
+ * /designs/room/{roomId}/events:
+ *   get:
+ *     summary: Stream design status events for a room
+ *     tags: [Designs]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get(
+  "/room/:roomId/events",
+  validateParams(roomIdSchema),
+  designController.streamRoomDesignEvents
+);
+
 /**
  * @swagger
  * /designs/{id}:
@@ -103,6 +149,21 @@ router.get(
  */
 router.get("/:id", validateParams(designIdSchema), designController.getDesign);
 
+/**
+ * @swagger
+ * /designs/{id}/events:
+ *   get:
+ *     summary: Stream design status events
+ *     tags: [Designs]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get(
+  "/:id/events",
+  validateParams(designIdSchema),
+  designController.streamDesignEvents
+);
+
 /**
  * @swagger
  * /designs/{id}:
@@ -131,7 +192,182 @@ router.post(
   "/:id/regenerate",
   validateParams(designIdSchema),
   validateBody(regenerateDesignSchema),
+  idempotent(),
   designController.regenerateDesign
 );
 
+/**
+ * @swagger
+ * /designs/{id}/edit:
+ *   post:
+ *     summary: Edit part of a design
+ *     tags: [Designs]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.post(
+  "/:id/edit",
+  validateParams(designIdSchema),
+  uploadSingle("mask"),
+  validateFile({ required: true, maxSize: 5 * 1024 * 1024, fieldName: "mask" }),
+  validateUploadedFile,
+  validateBody(designSchemas.edit),
+  designController.editDesign
+);
+
+/**
+ * @swagger
+ * /designs/{id}/cancel:
+ *   post:
+ *     summary: Cancel a pending or processing design
+ *     tags: [Designs]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.post(
+  "/:id/cancel",
+  validateParams(designIdSchema),
+  designController.cancelDesign
+);
+
+/**
+ * @swagger
+ * /designs/{id}/variants:
+ *   get:
+ *     summary: Get design variants
+ *     tags: [Designs]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get(
+  "/:id/variants",
+  validateParams(designIdSchema),
+  designController.getDesignVariants
+);
+
+/**
+ * @swagger
+ * /designs/{id}/variants/{variantId}/select:
+ *   post:
+ *     summary: Select a variant as the design's primary image
+ *     tags: [Designs]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.post(
+  "/:id/variants/:variantId/select",
+  validateParams(variantParamsSchema),
+  designController.selectDesignVariant
+);
+
+/**
+ * @swagger
+ * /designs/{id}/variants/{variantId}:
+ *   delete:
+ *     summary: Delete a design variant
+ *     tags: [Designs]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.delete(
+  "/:id/variants/:variantId",
+  validateParams(variantParamsSchema),
+  designController.deleteDesignVariant
+);
+
+/**
+ * @swagger
+ * /designs/{id}/review:
+ *   patch:
+ *     summary: Review a design
+ *     tags: [Designs]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.patch(
+  "/:id/review",
+  validateParams(designIdSchema),
+  validateBody(designSchemas.review),
+  designController.reviewDesign
+);
+
+/**
+ * @swagger
+ * /designs/{id}/comments:
+ *   get:
+ *     summary: Get comment threads on a design
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get(
+  "/:id/comments",
+  validateParams(designIdSchema),
+  validateQuery(commentSchemas.query),
+  commentController.getComments
+);
+
+/**
+ * @swagger
+ * /designs/{id}/comments:
+ *   post:
+ *     summary: Comment on a design, or reply to a thread
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.post(
+  "/:id/comments",
+  validateParams(designIdSchema),
+  validateBody(commentSchemas.create),
+  commentController.createComment
+);
+
+/**
+ * @swagger
+ * /designs/{id}/comments/{commentId}:
+ *   put:
+ *     summary: Edit a comment
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.put(
+  "/:id/comments/:commentId",
+  validateParams(commentParamsSchema),
+  validateBody(commentSchemas.update),
+  commentController.updateComment
+);
+
+/**
+ * @swagger
+ * /designs/{id}/comments/{commentId}/resolve:
+ *   patch:
+ *     summary: Resolve or reopen a comment thread
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.patch(
+  "/:id/comments/:commentId/resolve",
+  validateParams(commentParamsSchema),
+  validateBody(commentSchemas.resolve),
+  commentController.resolveComment
+);
+
+/**
+ * @swagger
+ * /designs/{id}/comments/{commentId}:
+ *   delete:
+ *     summary: Delete a comment and its replies
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.delete(
+  "/:id/comments/:commentId",
+  validateParams(commentParamsSchema),
+  commentController.deleteComment
+);
+
 export default router;
@@ -0,0 +1,157 @@
+import { Router } from "express";
+import { OrganizationController } from "../controllers/organization.controller";
+import {
+  authenticate,
+  requireUserType,
+} from "../middleware/auth.middleware";
+import {
+  validateBody,
+  validateParams,
+} from "../middleware/validation.middleware";
+import { organizationSchemas } from "../utils/validation";
+import Joi from "joi";
+
+const router = Router();
+const organizationController = new OrganizationController();
+
+// Validation schemas
+const organizationIdSchema = Joi.object({
+  id: Joi.string().required(),
+});
+
+const memberParamsSchema = Joi.object({
+  id: Joi.string().required(),
+  userId: Joi.string().required(),
+});
+
+/**
+ * @swagger
+ * tags:
+ *   name: Organizations
+ *   description: Team workspaces and memberships
+ */
+
+// All organization routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /organizations:
+ *   get:
+ *     summary: Get organizations the user belongs to
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get("/", organizationController.getOrganizations);
+
+/**
+ * @swagger
+ * /organizations:
+ *   post:
+ *     summary: Create an organization
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.post(
+  "/",
+  requireUserType(["BUSINESS"]),
+  validateBody(organizationSchemas.create),
+  organizationController.createOrganization
+);
+
+/**
+ * @swagger
+ * /organizations/{id}:
+ *   get:
+ *     summary: Get organization with its members
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get(
+  "/:id",
+  validateParams(organizationIdSchema),
+  organizationController.getOrganization
+);
+
+/**
+ * @swagger
+ * /organizations/{id}:
+ *   put:
+ *     summary: Rename an organization
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.put(
+  "/:id",
+  validateParams(organizationIdSchema),
+  validateBody(organizationSchemas.update),
+  organizationController.updateOrganization
+);
+
+/**
+ * @swagger
+ * /organizations/{id}:
+ *   delete:
+ *     summary: Delete an organization
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.delete(
+  "/:id",
+  validateParams(organizationIdSchema),
+  organizationController.deleteOrganization
+);
+
+/**
+ * @swagger
+ * /organizations/{id}/members:
+ *   post:
+ *     summary: Add a member by email
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.post(
+  "/:id/members",
+  validateParams(organizationIdSchema),
+  validateBody(organizationSchemas.addMember),
+  organizationController.addMember
+);
+
+/**
+ * @swagger
+ * /organizations/{id}/members/{userId}:
+ *   put:
+ *     summary: Change a member's role
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.put(
+  "/:id/members/:userId",
+  validateParams(memberParamsSchema),
+  validateBody(organizationSchemas.updateMember),
+  organizationController.updateMember
+);
+
+/**
+ * @swagger
+ * /organizations/{id}/members/{userId}:
+ *   delete:
+ *     summary: Remove a member, or leave the organization
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.delete(
+  "/:id/members/:userId",
+  validateParams(memberParamsSchema),
+  organizationController.removeMember
+);
+
+export default router;
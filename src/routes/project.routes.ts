@@ -1,22 +1,30 @@
 import { Router } from "express";
 import { ProjectController } from "../controllers/project.controller";
+import { ShareController } from "../controllers/share.controller";
 import { authenticate } from "../middleware/auth.middleware";
+import { idempotent } from "../middleware/idempotency.middleware";
 import {
   validateBody,
   validateParams,
   validateQuery,
 } from "../middleware/validation.middleware";
-import { projectSchemas } from "../utils/validation";
+import { projectSchemas, shareSchemas } from "../utils/validation";
 import Joi from "joi";
 
 const router = Router();
 const projectController = new ProjectController();
+const shareController = new ShareController();
 
 // Validation schemas
 const projectIdSchema = Joi.object({
   id: Joi.string().required(),
 });
 
+const shareLinkParamsSchema = Joi.object({
+  id: Joi.string().required(),
+  linkId: Joi.string().required(),
+});
+
 const duplicateProjectSchema = Joi.object({
   name: Joi.string().trim().min(2).max(100).optional(),
 });
@@ -131,7 +139,54 @@ router.post(
   "/:id/duplicate",
   validateParams(projectIdSchema),
   validateBody(duplicateProjectSchema),
+  idempotent(),
   projectController.duplicateProject
 );
 
+/**
+ * @swagger
+ * /projects/{id}/share-links:
+ *   get:
+ *     summary: Get a project's share links
+ *     tags: [Sharing]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get(
+  "/:id/share-links",
+  validateParams(projectIdSchema),
+  shareController.getShareLinks
+);
+
+/**
+ * @swagger
+ * /projects/{id}/share-links:
+ *   post:
+ *     summary: Create a read-only share link
+ *     tags: [Sharing]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.post(
+  "/:id/share-links",
+  validateParams(projectIdSchema),
+  validateBody(shareSchemas.create),
+  shareController.createShareLink
+);
+
+/**
+ * @swagger
+ * /projects/{id}/share-links/{linkId}:
+ *   delete:
+ *     summary: Revoke a share link
+ *     tags: [Sharing]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.delete(
+  "/:id/share-links/:linkId",
+  validateParams(shareLinkParamsSchema),
+  shareController.revokeShareLink
+);
+
 export default router;
@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { RoomController } from "../controllers/room.controller";
+import { DesignController } from "../controllers/design.controller";
 import { authenticate } from "../middleware/auth.middleware";
 import {
   validateBody,
@@ -11,6 +12,7 @@ import Joi from "joi";
 
 const router = Router();
 const roomController = new RoomController();
+const designController = new DesignController();
 
 // Validation schemas
 const roomIdSchema = Joi.object({
@@ -137,4 +139,19 @@ router.put(
   roomController.updateRoomImage
 );
 
+/**
+ * @swagger
+ * /rooms/{id}/design-history:
+ *   get:
+ *     summary: Get the design lineage of a room
+ *     tags: [Rooms]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get(
+  "/:id/design-history",
+  validateParams(roomIdSchema),
+  designController.getDesignHistory
+);
+
 export default router;
@@ -0,0 +1,42 @@
+import { Router } from "express";
+import { ShareController } from "../controllers/share.controller";
+import {
+  validateParams,
+  validateRateLimit,
+} from "../middleware/validation.middleware";
+import Joi from "joi";
+
+const router = Router();
+const shareController = new ShareController();
+
+// Validation schemas
+const shareTokenSchema = Joi.object({
+  token: Joi.string().trim().max(128).required(),
+});
+
+/**
+ * @swagger
+ * tags:
+ *   name: Sharing
+ *   description: Read-only project links for clients
+ */
+
+/**
+ * @swagger
+ * /share/{token}:
+ *   get:
+ *     summary: View a shared project
+ *     tags: [Sharing]
+ */
+router.get(
+  "/:token",
+  validateRateLimit({
+    maxRequests: 60,
+    windowMs: 15 * 60 * 1000,
+    message: "Too many share link requests. Please try again later.",
+  }),
+  validateParams(shareTokenSchema),
+  shareController.getSharedProject
+);
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { UploadController } from "../controllers/upload.controller";
 import { authenticate } from "../middleware/auth.middleware";
+import { idempotent } from "../middleware/idempotency.middleware";
 import {
   uploadSingle,
   validateUploadedFile,
@@ -22,10 +23,6 @@ const uploadIdSchema = Joi.object({
   id: Joi.string().required(),
 });
 
-const roomIdSchema = Joi.object({
-  roomId: Joi.string().optional(),
-});
-
 const uploadQuerySchema = Joi.object({
   page: Joi.number().integer().min(1).default(1),
   limit: Joi.number().integer().min(1).max(50).default(20),
@@ -50,6 +47,8 @@ router.use(authenticate);
  *     tags: [Uploads]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -95,12 +94,15 @@ router.use(authenticate);
  *         description: Invalid file or validation error
  *       401:
  *         description: Authentication required
+ *       409:
+ *         description: Idempotency-Key reused for a different request, or still in progress
  */
 router.post(
   "/room-image",
   uploadSingle("file"),
   validateFile({ required: true, maxSize: 10 * 1024 * 1024 }), // 10MB
   validateUploadedFile,
+  idempotent(),
   generateSafeFilename,
   uploadController.uploadRoomImage,
   cleanupTempFiles
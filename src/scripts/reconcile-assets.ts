@@ -0,0 +1,32 @@
+import Database, { prisma } from "../config/database";
+import { AssetCleanupService } from "../services/asset-cleanup.service";
+import logger from "../utils/logger";
+
+/**
+ * Report Cloudinary assets the database no longer references.
+ * Runs as a dry run unless --apply is passed.
+ *
+ *   npm run assets:reconcile [-- --apply]
+ */
+async function reconcileAssets() {
+  const dryRun = !process.argv.includes("--apply");
+
+  try {
+    await Database.connect();
+
+    const report = await new AssetCleanupService(prisma).reconcile({ dryRun });
+    console.log(JSON.stringify(report, null, 2));
+
+    await Database.disconnect();
+    process.exit(0);
+  } catch (error) {
+    logger.error("Asset reconciliation script failed:", error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  reconcileAssets();
+}
+
+export default reconcileAssets;
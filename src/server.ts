@@ -1,6 +1,8 @@
 import app from "./app";
 import { config } from "./config/env";
 import Database from "./config/database";
+import { DesignQueue } from "./queues/design.queue";
+import { RedisClient } from "./utils/redis";
 import logger from "./utils/logger";
 
 // Connect to database
@@ -72,6 +74,8 @@ async function startServer() {
         logger.info("HTTP server closed");
 
         try {
+          await DesignQueue.close();
+          await RedisClient.disconnect();
           await Database.disconnect();
           logger.info("Database disconnected");
           logger.info("Graceful shutdown completed");
@@ -0,0 +1,128 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import {
+  OrganizationRole,
+  ProjectOwnership,
+  ProjectPermission,
+} from "../types";
+import { AppError } from "../middleware/error.middleware";
+
+// Higher ranks include everything lower ranks can do
+const ROLE_RANK: Record<OrganizationRole, number> = {
+  [OrganizationRole.VIEWER]: 1,
+  [OrganizationRole.DESIGNER]: 2,
+  [OrganizationRole.ADMIN]: 3,
+  [OrganizationRole.OWNER]: 4,
+};
+
+// Least role a member needs for each project permission
+const PERMISSION_ROLE: Record<ProjectPermission, OrganizationRole> = {
+  view: OrganizationRole.VIEWER,
+  edit: OrganizationRole.DESIGNER,
+  delete: OrganizationRole.ADMIN,
+};
+
+/**
+ * Decides who may act on a project. Personal projects belong to their
+ * creator; organization projects follow the member's role.
+ */
+export class AccessService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Whether a role is at least as strong as another
+   */
+  static hasRole(role: OrganizationRole, minimum: OrganizationRole): boolean {
+    return ROLE_RANK[role] >= ROLE_RANK[minimum];
+  }
+
+  /**
+   * Check access to a project the caller already loaded
+   */
+  async canAccessProject(
+    project: ProjectOwnership,
+    userId: string,
+    permission: ProjectPermission
+  ): Promise<boolean> {
+    if (!project.organizationId) {
+      return project.userId === userId;
+    }
+
+    const role = await this.getOrganizationRole(project.organizationId, userId);
+
+    return !!role && AccessService.hasRole(role, PERMISSION_ROLE[permission]);
+  }
+
+  /**
+   * Throw 403 unless the user may act on the project
+   */
+  async authorizeProject(
+    project: ProjectOwnership,
+    userId: string,
+    permission: ProjectPermission
+  ): Promise<void> {
+    if (!(await this.canAccessProject(project, userId, permission))) {
+      throw new AppError(
+        `Access denied. You don't have permission to ${permission} this project.`,
+        403,
+        "ACCESS_DENIED"
+      );
+    }
+  }
+
+  /**
+   * Filter for every project the user can see
+   */
+  accessibleProjectsWhere(userId: string): Prisma.ProjectWhereInput {
+    return {
+      OR: [
+        { userId, organizationId: null },
+        { organization: { memberships: { some: { userId } } } },
+      ],
+    };
+  }
+
+  /**
+   * The user's role in an organization, or null if not a member
+   */
+  async getOrganizationRole(
+    organizationId: string,
+    userId: string
+  ): Promise<OrganizationRole | null> {
+    const membership = await this.prisma.organizationMembership.findUnique({
+      where: { organizationId_userId: { organizationId, userId } },
+      select: { role: true },
+    });
+
+    return (membership?.role as OrganizationRole) ?? null;
+  }
+
+  /**
+   * Throw unless the user holds at least the given role. Non-members get
+   * a 404 so organization ids can't be probed.
+   */
+  async requireOrganizationRole(
+    organizationId: string,
+    userId: string,
+    minimum: OrganizationRole
+  ): Promise<OrganizationRole> {
+    const role = await this.getOrganizationRole(organizationId, userId);
+
+    if (!role) {
+      throw new AppError(
+        "Organization not found",
+        404,
+        "ORGANIZATION_NOT_FOUND"
+      );
+    }
+
+    if (!AccessService.hasRole(role, minimum)) {
+      throw new AppError(
+        "Access denied. Insufficient organization role.",
+        403,
+        "INSUFFICIENT_ROLE"
+      );
+    }
+
+    return role;
+  }
+}
@@ -0,0 +1,123 @@
+import { AIService } from "./ai.service";
+import { ImageProvider, ImageProviderCapabilities } from "../types";
+import { AppError } from "../middleware/error.middleware";
+
+const provider = (
+  capabilities: Partial<ImageProviderCapabilities> = {}
+): ImageProvider => ({
+  name: "test",
+  capabilities: {
+    imageToImage: true,
+    inpainting: true,
+    maxOutputs: 4,
+    sizes: ["1024x1024", "1344x768", "768x1344"],
+    seed: true,
+    negativePrompt: true,
+    steps: { min: 10, max: 100 },
+    guidance: { min: 1, max: 20 },
+    ...capabilities,
+  },
+  defaultOutputs: 2,
+  costPerImage: 0.01,
+  generate: jest.fn(),
+  healthCheck: jest.fn(),
+});
+
+describe("AIService.resolveParameters", () => {
+  const service = new AIService();
+
+  const rejection = (fn: () => unknown): AppError => {
+    try {
+      fn();
+    } catch (error) {
+      return error as AppError;
+    }
+    throw new Error("Expected the parameters to be rejected");
+  };
+
+  it("passes supported parameters through", () => {
+    expect(
+      service.resolveParameters(provider(), {
+        seed: 42,
+        negativePrompt: "clutter",
+        size: "1344x768",
+        steps: 30,
+        guidance: 7.5,
+        numOutputs: 3,
+      })
+    ).toEqual({
+      seed: 42,
+      negativePrompt: "clutter",
+      width: 1344,
+      height: 768,
+      steps: 30,
+      guidance: 7.5,
+      numOutputs: 3,
+    });
+  });
+
+  it("leaves everything unset without parameters", () => {
+    expect(service.resolveParameters(provider())).toEqual({
+      seed: undefined,
+      negativePrompt: undefined,
+      width: undefined,
+      height: undefined,
+      steps: undefined,
+      guidance: undefined,
+      numOutputs: undefined,
+    });
+  });
+
+  it("maps an aspect ratio to the provider size within 5%", () => {
+    const resolved = service.resolveParameters(provider(), {
+      aspectRatio: "16:9",
+    });
+
+    expect([resolved.width, resolved.height]).toEqual([1344, 768]);
+  });
+
+  it("rejects an aspect ratio no size comes close to", () => {
+    const error = rejection(() =>
+      service.resolveParameters(provider(), { aspectRatio: "3:1" })
+    );
+
+    expect(error.code).toBe("UNSUPPORTED_GENERATION_PARAMETER");
+    expect(error.statusCode).toBe(400);
+  });
+
+  it.each([
+    ["a seed", { seed: false }, { seed: 1 }],
+    ["a negative prompt", { negativePrompt: false }, { negativePrompt: "x" }],
+    ["steps", { steps: null }, { steps: 20 }],
+    ["guidance", { guidance: null }, { guidance: 5 }],
+  ])("rejects %s the provider can't take", (_, capabilities, parameters) => {
+    const error = rejection(() =>
+      service.resolveParameters(provider(capabilities), parameters)
+    );
+
+    expect(error.code).toBe("UNSUPPORTED_GENERATION_PARAMETER");
+  });
+
+  it("rejects values outside the provider's ranges", () => {
+    expect(
+      rejection(() => service.resolveParameters(provider(), { steps: 5 }))
+        .message
+    ).toContain("steps between 10 and 100");
+    expect(
+      rejection(() => service.resolveParameters(provider(), { guidance: 25 }))
+        .message
+    ).toContain("guidance between 1 and 20");
+  });
+
+  it("rejects unknown sizes and too many outputs", () => {
+    expect(
+      rejection(() =>
+        service.resolveParameters(provider(), { size: "512x512" })
+      ).message
+    ).toContain("does not support size 512x512");
+    expect(
+      rejection(() => service.resolveParameters(provider(), { numOutputs: 5 }))
+        .message
+    ).toContain("at most 4 image(s)");
+  });
+});
@@ -1,25 +1,25 @@
 import OpenAI from "openai";
-import Replicate from "replicate";
 import { config } from "../config/env";
 import {
   AIPromptData,
   AIGenerationResult,
+  DesignMode,
+  DesignProgressStage,
+  GenerationParameters,
+  ImageGenerationRequest,
+  ImageProvider,
   InteriorStyle,
+  ProviderAttempt,
   RoomType,
 } from "../types";
+import { ProviderRegistry } from "./providers/provider.registry";
 import { AppError } from "../middleware/error.middleware";
+import { CircuitBreaker, CircuitState } from "../utils/circuit-breaker";
 import logger from "../utils/logger";
 
-// Initialize AI clients
-const openai = new OpenAI({
-  apiKey: config.ai.openai.apiKey,
-});
-
-const replicate = new Replicate({
-  auth: config.ai.replicate.apiToken,
-});
-
 export class AIService {
+  private static circuitBreakers = new Map<string, CircuitBreaker>();
+
   /**
    * Generate design prompt based on room data
    */
@@ -73,7 +73,16 @@ export class AIService {
       styleDescriptions[data.style] || "modern and stylish";
     const roomDescription = roomDescriptions[data.roomType] || "interior space";
 
-    let prompt = `Create a beautiful interior design for a ${roomDescription} in ${styleDescription}. `;
+    if (data.editInstruction) {
+      return (
+        `Edit the marked area of this ${roomDescription} in ${styleDescription}: ${data.editInstruction}. ` +
+        "Match the surrounding style, lighting and perspective so the change blends in seamlessly, photorealistic."
+      );
+    }
+
+    let prompt = data.preserveLayout
+      ? `Redesign this ${roomDescription} in ${styleDescription}, keeping the existing walls, windows, doors and camera perspective. `
+      : `Create a beautiful interior design for a ${roomDescription} in ${styleDescription}. `;
 
     // Add dimensions context
     prompt += `The room dimensions are ${data.dimensions.length}m x ${data.dimensions.width}m x ${data.dimensions.height}m. `;
@@ -101,231 +110,421 @@ export class AIService {
   }
 
   /**
-   * Generate design using OpenAI DALL-E
+   * Generate interior design, failing over along the provider chain.
+   * Redesigns only use providers that can restyle a source photo, and
+   * edits only those that can inpaint a masked region. Each attempt is
+   * bounded by the provider's timeout; aborting `signal` stops the chain.
+   * Fallbacks that cannot honour the generation parameters are skipped.
    */
-  async generateWithOpenAI(prompt: string): Promise<AIGenerationResult> {
+  async generateDesign(
+    promptData: AIPromptData,
+    options: {
+      provider?: string;
+      mode?: DesignMode;
+      inputImageUrl?: string;
+      maskImageUrl?: string;
+      strength?: number;
+      parameters?: GenerationParameters;
+      signal?: AbortSignal;
+      onProgress?: (stage: DesignProgressStage) => void;
+    } = {}
+  ): Promise<AIGenerationResult> {
     try {
-      const startTime = Date.now();
-
-      logger.ai("Starting OpenAI image generation", {
-        prompt: prompt.substring(0, 100),
-      });
-
-      const response = await openai.images.generate({
-        model: "dall-e-3",
-        prompt,
-        n: 1,
-        size: "1024x1024",
-        quality: "hd",
-        style: "natural",
-      });
+      const {
+        mode = "generate",
+        inputImageUrl,
+        maskImageUrl,
+        strength,
+        parameters = {},
+        signal,
+        onProgress,
+      } = options;
+      const requested = options.provider
+        ? ProviderRegistry.get(options.provider)
+        : ProviderRegistry.getDefault();
+      const chain = this.getProviderChain(requested.name).filter(
+        (provider) =>
+          this.supportsMode(provider, mode) &&
+          this.supportsParameters(provider, parameters)
+      );
+      const attempts: ProviderAttempt[] = [];
+      let lastError: unknown;
 
-      const processingTime = Date.now() - startTime;
+      if (mode === "redesign" && !requested.capabilities.imageToImage) {
+        throw new AppError(
+          `AI provider "${requested.name}" does not support redesigns`,
+          400,
+          "REDESIGN_NOT_SUPPORTED"
+        );
+      }
 
-      if (!response.data || response.data.length === 0) {
+      if (mode === "edit" && !requested.capabilities.inpainting) {
         throw new AppError(
-          "No images generated by OpenAI",
-          500,
-          "AI_GENERATION_FAILED"
+          `AI provider "${requested.name}" does not support editing designs`,
+          400,
+          "INPAINTING_NOT_SUPPORTED"
         );
       }
 
-      const imageUrls = response.data
-        .map((img) => img.url)
-        .filter(Boolean) as string[];
+      // Throws with the reason when the requested provider can't honour them
+      this.resolveParameters(requested, parameters);
 
-      logger.ai("OpenAI image generation completed", {
-        imageCount: imageUrls.length,
-        processingTime,
+      // Generate the prompt
+      const prompt = this.generatePrompt({
+        ...promptData,
+        preserveLayout: mode === "redesign",
       });
+      onProgress?.("prompt_built");
 
-      return {
-        imageUrls,
-        prompt,
-        metadata: {
-          provider: "openai",
-          model: "dall-e-3",
-          processingTime,
-          parameters: {
-            size: "1024x1024",
-            quality: "hd",
-            style: "natural",
-          },
-        },
-      };
-    } catch (error) {
-      logger.error("OpenAI generation failed:", error);
-
-      if (error instanceof Error) {
-        if (error.message.includes("content_policy")) {
-          throw new AppError(
-            "Content policy violation. Please modify your request.",
-            400,
-            "CONTENT_POLICY_VIOLATION"
-          );
+      for (const provider of chain) {
+        this.throwIfCancelled(signal);
+
+        const breaker = AIService.getCircuitBreaker(provider.name);
+
+        if (!breaker.canRequest()) {
+          attempts.push({ provider: provider.name, outcome: "circuit_open" });
+          continue;
         }
-        if (error.message.includes("rate_limit")) {
-          throw new AppError(
-            "Rate limit exceeded. Please try again later.",
-            429,
-            "RATE_LIMIT_EXCEEDED"
+
+        const isTrial = breaker.getState() === "half_open";
+
+        logger.ai("Generating interior design", {
+          provider: provider.name,
+          requestedProvider: requested.name,
+          roomType: promptData.roomType,
+          style: promptData.style,
+          mode,
+        });
+
+        onProgress?.("provider_called");
+
+        const attempt = this.createAttemptSignal(provider.name, signal);
+
+        try {
+          // Race the call as well, in case the provider ignores the signal
+          const result = await this.withSignal(
+            provider.generate({
+              prompt,
+              promptData,
+              mode,
+              signal: attempt.signal,
+              ...this.resolveParameters(provider, parameters),
+              ...(mode === "redesign" && { inputImageUrl, strength }),
+              ...(mode === "edit" && { inputImageUrl, maskImageUrl }),
+            }),
+            attempt.signal
           );
+
+          breaker.recordSuccess();
+          attempts.push({ provider: provider.name, outcome: "success" });
+
+          logger.ai("Interior design generation completed", {
+            provider: provider.name,
+            requestedProvider: requested.name,
+            imageCount: result.imageUrls.length,
+            processingTime: result.metadata.processingTime,
+          });
+
+          return {
+            ...result,
+            metadata: {
+              ...result.metadata,
+              provider: provider.name,
+              requestedProvider: requested.name,
+              attempts,
+            },
+          };
+        } catch (caught) {
+          this.throwIfCancelled(signal);
+
+          // Providers wrap the abort in their own errors; report the timeout
+          const error = attempt.signal.aborted ? attempt.signal.reason : caught;
+
+          if (!this.isProviderFailure(error)) {
+            // The provider answered; the request itself was rejected
+            breaker.recordSuccess();
+            throw error;
+          }
+
+          breaker.recordFailure();
+          attempts.push({
+            provider: provider.name,
+            outcome: "failed",
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+          lastError = error;
+
+          logger.warn("AI provider failed, trying next in chain", {
+            provider: provider.name,
+            circuit: breaker.getState(),
+          });
+        } finally {
+          attempt.dispose();
+          // A cancelled trial leaves no outcome; don't hold the slot forever
+          if (isTrial) {
+            breaker.releaseTrial();
+          }
         }
       }
 
-      throw new AppError("OpenAI image generation failed", 500, "OPENAI_ERROR");
+      if (lastError) {
+        throw lastError;
+      }
+
+      throw new AppError(
+        "All AI providers are temporarily unavailable. Please try again later.",
+        503,
+        "AI_PROVIDERS_UNAVAILABLE"
+      );
+    } catch (error) {
+      logger.error("Design generation failed:", error);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError(
+        "Design generation failed",
+        500,
+        "DESIGN_GENERATION_ERROR"
+      );
     }
   }
 
   /**
-   * Generate design using Replicate Stable Diffusion
+   * Requested provider followed by the enabled fallbacks
    */
-  async generateWithReplicate(
-    prompt: string,
-    imageUrl?: string
-  ): Promise<AIGenerationResult> {
-    try {
-      const startTime = Date.now();
+  private getProviderChain(requested: string): ImageProvider[] {
+    const names = [
+      requested,
+      ...config.ai.fallbackProviders.filter(
+        (name: string) => name !== requested
+      ),
+    ];
 
-      logger.ai("Starting Replicate image generation", {
-        prompt: prompt.substring(0, 100),
-        hasInputImage: !!imageUrl,
-      });
+    return names
+      .filter((name) => ProviderRegistry.isEnabled(name))
+      .map((name) => ProviderRegistry.get(name));
+  }
 
-      const input: any = {
-        prompt,
-        num_outputs: 3,
-        num_inference_steps: 50,
-        guidance_scale: 7.5,
-        width: 1024,
-        height: 1024,
-        scheduler: "DPMSolverMultistep",
-      };
-
-      if (imageUrl) {
-        input.image = imageUrl;
-        input.strength = 0.8; // How much to transform the input image
-      }
+  /**
+   * Whether a provider can serve requests in the given mode
+   */
+  private supportsMode(provider: ImageProvider, mode: DesignMode): boolean {
+    if (mode === "redesign") {
+      return provider.capabilities.imageToImage;
+    }
+    if (mode === "edit") {
+      return provider.capabilities.inpainting;
+    }
+    return true;
+  }
 
-      const output = await replicate.run(
-        "stability-ai/stable-diffusion-xl-base-1.0:39ed52f2a78e934b3ba6e2a89f5b1c712de7dfea535525255b1aa35c5565e08b",
-        { input }
+  /**
+   * Check generation parameters against a provider's capabilities and
+   * resolve them to what the provider takes (aspect ratio to a size)
+   */
+  resolveParameters(
+    provider: ImageProvider,
+    parameters: GenerationParameters = {}
+  ): Pick<
+    ImageGenerationRequest,
+    | "seed"
+    | "negativePrompt"
+    | "width"
+    | "height"
+    | "steps"
+    | "guidance"
+    | "numOutputs"
+  > {
+    const { capabilities } = provider;
+    const unsupported = (message: string) =>
+      new AppError(
+        `AI provider "${provider.name}" ${message}`,
+        400,
+        "UNSUPPORTED_GENERATION_PARAMETER"
       );
 
-      const processingTime = Date.now() - startTime;
+    if (parameters.seed !== undefined && !capabilities.seed) {
+      throw unsupported("does not support a fixed seed");
+    }
 
-      // Handle different output formats from Replicate
-      let imageUrls: string[] = [];
-      if (Array.isArray(output)) {
-        imageUrls = output.filter((url) => typeof url === "string") as string[];
-      } else if (typeof output === "string") {
-        imageUrls = [output];
-      }
+    if (parameters.negativePrompt && !capabilities.negativePrompt) {
+      throw unsupported("does not support negative prompts");
+    }
 
-      if (imageUrls.length === 0) {
-        throw new AppError(
-          "No images generated by Replicate",
-          500,
-          "AI_GENERATION_FAILED"
+    for (const name of ["steps", "guidance"] as const) {
+      const value = parameters[name];
+      const range = capabilities[name];
+
+      if (value === undefined) {
+        continue;
+      }
+      if (!range) {
+        throw unsupported(`does not support setting ${name}`);
+      }
+      if (value < range.min || value > range.max) {
+        throw unsupported(
+          `takes ${name} between ${range.min} and ${range.max}`
         );
       }
+    }
 
-      logger.ai("Replicate image generation completed", {
-        imageCount: imageUrls.length,
-        processingTime,
-      });
+    if (
+      parameters.numOutputs !== undefined &&
+      parameters.numOutputs > capabilities.maxOutputs
+    ) {
+      throw unsupported(
+        `generates at most ${capabilities.maxOutputs} image(s) at a time`
+      );
+    }
 
-      return {
-        imageUrls,
-        prompt,
-        metadata: {
-          provider: "replicate",
-          model: "stable-diffusion-xl-base-1.0",
-          processingTime,
-          parameters: input,
-        },
-      };
-    } catch (error) {
-      logger.error("Replicate generation failed:", error);
-
-      if (error instanceof Error) {
-        if (error.message.includes("NSFW")) {
-          throw new AppError(
-            "Content not suitable for generation. Please modify your request.",
-            400,
-            "CONTENT_FILTERED"
-          );
-        }
-        if (error.message.includes("rate limit")) {
-          throw new AppError(
-            "Rate limit exceeded. Please try again later.",
-            429,
-            "RATE_LIMIT_EXCEEDED"
-          );
-        }
+    let size = parameters.size;
+    if (size && !capabilities.sizes.includes(size)) {
+      throw unsupported(
+        `does not support size ${size}; use one of ${capabilities.sizes.join(", ")}`
+      );
+    }
+    if (parameters.aspectRatio) {
+      size = this.closestSize(capabilities.sizes, parameters.aspectRatio);
+      if (!size) {
+        throw unsupported(
+          `has no size with aspect ratio ${parameters.aspectRatio}; use one of ${capabilities.sizes.join(", ")}`
+        );
       }
+    }
 
-      throw new AppError(
-        "Replicate image generation failed",
-        500,
-        "REPLICATE_ERROR"
-      );
+    const [width, height] = size ? size.split("x").map(Number) : [];
+
+    return {
+      seed: parameters.seed,
+      negativePrompt: parameters.negativePrompt,
+      width,
+      height,
+      steps: parameters.steps,
+      guidance: parameters.guidance,
+      numOutputs: parameters.numOutputs,
+    };
+  }
+
+  private supportsParameters(
+    provider: ImageProvider,
+    parameters: GenerationParameters
+  ): boolean {
+    try {
+      this.resolveParameters(provider, parameters);
+      return true;
+    } catch {
+      return false;
     }
   }
 
   /**
-   * Generate interior design
+   * The size whose aspect ratio is within 5% of "W:H", if any
    */
-  async generateDesign(
-    promptData: AIPromptData,
-    options: {
-      provider?: "openai" | "replicate";
-      inputImageUrl?: string;
-    } = {}
-  ): Promise<AIGenerationResult> {
-    try {
-      const { provider = "replicate", inputImageUrl } = options;
+  private closestSize(
+    sizes: string[],
+    aspectRatio: string
+  ): string | undefined {
+    const [ratioWidth, ratioHeight] = aspectRatio.split(":").map(Number);
+    const target = ratioWidth / ratioHeight;
+
+    const ranked = sizes
+      .map((size) => {
+        const [width, height] = size.split("x").map(Number);
+        return { size, distance: Math.abs(Math.log(width / height / target)) };
+      })
+      .sort((a, b) => a.distance - b.distance);
+
+    return ranked[0] && ranked[0].distance <= Math.log(1.05)
+      ? ranked[0].size
+      : undefined;
+  }
 
-      // Generate the prompt
-      const prompt = this.generatePrompt(promptData);
+  /**
+   * Abort signal for one provider attempt: fires on the provider's timeout
+   * or when the caller's signal is aborted
+   */
+  private createAttemptSignal(
+    provider: string,
+    parent?: AbortSignal
+  ): { signal: AbortSignal; dispose: () => void } {
+    const controller = new AbortController();
+    const timeoutMs =
+      config.ai.timeouts[provider] ?? config.ai.timeouts.default;
+
+    const timer = setTimeout(() => {
+      controller.abort(
+        new AppError(
+          `AI provider "${provider}" timed out after ${timeoutMs}ms`,
+          504,
+          "AI_PROVIDER_TIMEOUT"
+        )
+      );
+    }, timeoutMs);
 
-      logger.ai("Generating interior design", {
-        provider,
-        roomType: promptData.roomType,
-        style: promptData.style,
-        hasInputImage: !!inputImageUrl,
-      });
+    const onParentAbort = () => controller.abort(parent?.reason);
+    parent?.addEventListener("abort", onParentAbort, { once: true });
 
-      // Generate based on provider
-      let result: AIGenerationResult;
+    return {
+      signal: controller.signal,
+      dispose: () => {
+        clearTimeout(timer);
+        parent?.removeEventListener("abort", onParentAbort);
+      },
+    };
+  }
 
-      if (provider === "openai") {
-        // OpenAI doesn't support image-to-image, so we ignore inputImageUrl
-        result = await this.generateWithOpenAI(prompt);
-      } else {
-        result = await this.generateWithReplicate(prompt, inputImageUrl);
+  /**
+   * Settle with the promise, or reject as soon as the signal aborts
+   */
+  private withSignal<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(signal.reason);
+
+      if (signal.aborted) {
+        onAbort();
+        return;
       }
 
-      logger.ai("Interior design generation completed", {
-        provider,
-        imageCount: result.imageUrls.length,
-        processingTime: result.metadata.processingTime,
-      });
+      signal.addEventListener("abort", onAbort, { once: true });
+      promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener("abort", onAbort));
+    });
+  }
 
-      return result;
-    } catch (error) {
-      logger.error("Design generation failed:", error);
-      if (error instanceof AppError) {
-        throw error;
-      }
+  private throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
       throw new AppError(
-        "Design generation failed",
-        500,
-        "DESIGN_GENERATION_ERROR"
+        "Design generation was cancelled",
+        409,
+        "DESIGN_GENERATION_CANCELLED"
       );
     }
   }
 
+  /**
+   * Whether an error means the provider itself is unhealthy
+   */
+  private isProviderFailure(error: unknown): boolean {
+    if (error instanceof AppError) {
+      // Content policy and other client errors would fail anywhere
+      return error.statusCode >= 500 || error.statusCode === 429;
+    }
+
+    return true;
+  }
+
+  private static getCircuitBreaker(provider: string): CircuitBreaker {
+    let breaker = AIService.circuitBreakers.get(provider);
+
+    if (!breaker) {
+      breaker = new CircuitBreaker(config.ai.circuitBreaker);
+      AIService.circuitBreakers.set(provider, breaker);
+    }
+
+    return breaker;
+  }
+
   /**
    * Enhance prompt with AI assistance
    */
@@ -347,6 +546,12 @@ export class AIService {
         Keep it under 300 words and focus on visual elements.
       `;
 
+      if (!config.ai.openai.apiKey) {
+        return userPrompt;
+      }
+
+      const openai = new OpenAI({ apiKey: config.ai.openai.apiKey });
+
       const response = await openai.chat.completions.create({
         model: "gpt-4",
         messages: [
@@ -393,50 +598,40 @@ export class AIService {
    * Get AI service health status
    */
   async getHealthStatus(): Promise<{
-    openai: boolean;
-    replicate: boolean;
+    providers: Record<string, boolean>;
+    circuits: Record<string, CircuitState>;
     timestamp: string;
   }> {
-    const results = {
-      openai: false,
-      replicate: false,
+    const providers: Record<string, boolean> = {};
+    const circuits: Record<string, CircuitState> = {};
+
+    await Promise.all(
+      ProviderRegistry.list().map(async (provider) => {
+        providers[provider.name] = await provider.healthCheck();
+        circuits[provider.name] = AIService.getCircuitBreaker(
+          provider.name
+        ).getState();
+      })
+    );
+
+    return {
+      providers,
+      circuits,
       timestamp: new Date().toISOString(),
     };
-
-    // Test OpenAI
-    try {
-      await openai.models.list();
-      results.openai = true;
-    } catch (error) {
-      logger.error("OpenAI health check failed:", error);
-    }
-
-    // Test Replicate (simple check)
-    try {
-      // Replicate doesn't have a simple health check endpoint
-      // so we'll assume it's healthy if we can create the client
-      results.replicate = !!replicate;
-    } catch (error) {
-      logger.error("Replicate health check failed:", error);
-    }
-
-    return results;
   }
 
   /**
    * Estimate generation cost (placeholder for future implementation)
    */
   estimateGenerationCost(
-    provider: "openai" | "replicate",
+    provider: string,
     imageCount: number = 1
   ): { estimatedCost: number; currency: string } {
-    // These are approximate costs as of 2024 - should be updated regularly
-    const costs = {
-      openai: 0.04, // DALL-E 3 cost per image (1024x1024, HD)
-      replicate: 0.012, // Stable Diffusion XL approximate cost per image
-    };
-
-    const costPerImage = costs[provider] || 0;
+    // Approximate per-image costs declared by each provider
+    const costPerImage = ProviderRegistry.isEnabled(provider)
+      ? ProviderRegistry.get(provider).costPerImage
+      : 0;
     const estimatedCost = costPerImage * imageCount;
 
     return {
@@ -0,0 +1,321 @@
+import { PrismaClient } from "@prisma/client";
+import { AssetReconcileReport } from "../types";
+import { AssetCleanupQueue } from "../queues/asset-cleanup.queue";
+import { CloudinaryUtil } from "../utils/cloudinary";
+import { AppError } from "../middleware/error.middleware";
+import { config } from "../config/env";
+import logger from "../utils/logger";
+
+// Cloudinary's delete_resources accepts at most 100 public IDs per call
+const DELETE_BATCH_SIZE = 100;
+
+const ASSET_ROOT = "interior-design/";
+
+// Folders whose assets are always recorded in the database. Direct client
+// uploads land elsewhere under the root and are left alone.
+const MANAGED_ASSET =
+  /^interior-design\/(room-images|user-[^/]+\/(designs|masks))\//;
+
+export class AssetCleanupService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Public IDs of the design images, edit masks and uploads of the rooms
+   */
+  async collectRoomAssets(roomIds: string[]): Promise<string[]> {
+    const [designs, uploads] = await Promise.all([
+      this.prisma.design.findMany({
+        where: { roomId: { in: roomIds } },
+        select: {
+          cloudinaryId: true,
+          metadata: true,
+          variants: { select: { cloudinaryId: true } },
+        },
+      }),
+      this.prisma.upload.findMany({
+        where: { roomId: { in: roomIds } },
+        select: { cloudinaryId: true },
+      }),
+    ]);
+
+    return this.unique([
+      ...designs.flatMap((design) => [
+        design.cloudinaryId,
+        // Masks are shared between an edit and its regenerations, all of
+        // which live in the same room
+        (design.metadata as any)?.request?.maskCloudinaryId,
+        ...design.variants.map((variant) => variant.cloudinaryId),
+      ]),
+      ...uploads.map((upload) => upload.cloudinaryId),
+    ]);
+  }
+
+  /**
+   * Public IDs of a design's images. Its edit mask may be shared with
+   * regenerations, so it is left to reconciliation.
+   */
+  async collectDesignAssets(designId: string): Promise<string[]> {
+    const design = await this.prisma.design.findUnique({
+      where: { id: designId },
+      select: {
+        cloudinaryId: true,
+        variants: { select: { cloudinaryId: true } },
+      },
+    });
+
+    if (!design) {
+      return [];
+    }
+
+    return this.unique([
+      design.cloudinaryId,
+      ...design.variants.map((variant) => variant.cloudinaryId),
+    ]);
+  }
+
+  /**
+   * Queue deletion of the assets in batches, keeping any that other rows
+   * still point at (a duplicated project's room photo, or the source image
+   * of an edit). Call after deleting the rows. Never throws: reconciliation
+   * picks up anything that is missed.
+   */
+  async enqueueDeletion(publicIds: string[], reason: string): Promise<void> {
+    let unused: string[];
+
+    try {
+      const stillReferenced = await this.findUrlReferences(publicIds);
+      unused = this.unique(publicIds).filter((id) => !stillReferenced.has(id));
+    } catch (error) {
+      logger.warn("Failed to check asset references, skipping deletion", {
+        reason,
+        assets: publicIds.length,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      return;
+    }
+
+    const batches = this.chunk(unused, DELETE_BATCH_SIZE);
+
+    for (const batch of batches) {
+      try {
+        await AssetCleanupQueue.enqueueDeletion(batch, reason);
+      } catch (error) {
+        logger.warn("Failed to enqueue asset deletion", {
+          reason,
+          assets: batch.length,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+  }
+
+  /**
+   * Delete one batch of assets from Cloudinary (run by the worker)
+   */
+  async deleteAssets(publicIds: string[]): Promise<void> {
+    await CloudinaryUtil.deleteImages(publicIds);
+  }
+
+  /**
+   * Compare the managed Cloudinary folders with the assets the database
+   * references. Orphaned assets are deleted, and so are Upload rows whose
+   * asset is gone, unless this is a dry run.
+   */
+  async reconcile(
+    options: { dryRun?: boolean } = {}
+  ): Promise<AssetReconcileReport> {
+    const { dryRun = true } = options;
+
+    try {
+      const referenced = await this.getReferencedAssetIds();
+      const graceCutoff = new Date(
+        Date.now() -
+          config.queue.assetCleanup.reconcileGraceHours * 60 * 60 * 1000
+      );
+
+      const present = new Set<string>();
+      const orphanedAssets: string[] = [];
+      let skippedRecent = 0;
+      let cursor: string | undefined;
+
+      do {
+        const page = await CloudinaryUtil.listImages(ASSET_ROOT, cursor);
+        cursor = page.nextCursor;
+
+        for (const image of page.images) {
+          if (!MANAGED_ASSET.test(image.publicId)) {
+            continue;
+          }
+
+          present.add(image.publicId);
+
+          if (referenced.has(image.publicId)) {
+            continue;
+          }
+
+          if (image.createdAt > graceCutoff) {
+            skippedRecent++;
+          } else {
+            orphanedAssets.push(image.publicId);
+          }
+        }
+      } while (cursor);
+
+      const uploads = await this.prisma.upload.findMany({
+        where: { cloudinaryId: { not: null }, createdAt: { lt: graceCutoff } },
+        select: { id: true, cloudinaryId: true },
+      });
+      const missingUploads = uploads
+        .filter(
+          (upload) =>
+            MANAGED_ASSET.test(upload.cloudinaryId!) &&
+            !present.has(upload.cloudinaryId!)
+        )
+        .map((upload) => upload.id);
+
+      const report: AssetReconcileReport = {
+        dryRun,
+        scannedAssets: present.size,
+        referencedAssets: referenced.size,
+        skippedRecent,
+        orphanedAssets,
+        missingUploads,
+        deletedAssets: 0,
+        deletedUploads: 0,
+      };
+
+      if (!dryRun) {
+        for (const batch of this.chunk(orphanedAssets, DELETE_BATCH_SIZE)) {
+          await CloudinaryUtil.deleteImages(batch);
+          report.deletedAssets += batch.length;
+        }
+
+        if (missingUploads.length > 0) {
+          const { count } = await this.prisma.upload.deleteMany({
+            where: { id: { in: missingUploads } },
+          });
+          report.deletedUploads = count;
+        }
+      }
+
+      logger.info("Asset reconciliation completed", {
+        dryRun,
+        scannedAssets: report.scannedAssets,
+        orphanedAssets: orphanedAssets.length,
+        missingUploads: missingUploads.length,
+        deletedAssets: report.deletedAssets,
+        deletedUploads: report.deletedUploads,
+      });
+
+      return report;
+    } catch (error) {
+      logger.error("Asset reconciliation failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        "Failed to reconcile assets",
+        500,
+        "ASSET_RECONCILE_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Every public ID the database points at
+   */
+  private async getReferencedAssetIds(): Promise<Set<string>> {
+    const [uploads, designs, variants, masks, urlReferences] =
+      await Promise.all([
+        this.prisma.upload.findMany({
+          where: { cloudinaryId: { not: null } },
+          select: { cloudinaryId: true },
+        }),
+        this.prisma.design.findMany({
+          where: { cloudinaryId: { not: null } },
+          select: { cloudinaryId: true },
+        }),
+        this.prisma.designVariant.findMany({
+          where: { cloudinaryId: { not: null } },
+          select: { cloudinaryId: true },
+        }),
+        this.prisma.$queryRaw<Array<{ id: string }>>`
+        SELECT "metadata"->'request'->>'maskCloudinaryId' AS id
+        FROM "designs"
+        WHERE "metadata"->'request'->>'maskCloudinaryId' IS NOT NULL
+      `,
+        this.findUrlReferences(),
+      ]);
+
+    return new Set(
+      this.unique([
+        ...uploads.map((upload) => upload.cloudinaryId),
+        ...designs.map((design) => design.cloudinaryId),
+        ...variants.map((variant) => variant.cloudinaryId),
+        ...masks.map((mask) => mask.id),
+        ...urlReferences,
+      ])
+    );
+  }
+
+  /**
+   * Public IDs used by URL: room photos and the source images of redesigns
+   * and edits. Limited to the given IDs when passed.
+   */
+  private async findUrlReferences(publicIds?: string[]): Promise<Set<string>> {
+    if (publicIds && publicIds.length === 0) {
+      return new Set();
+    }
+
+    // Narrow down with LIKE, then match the extracted public IDs exactly
+    const patterns = publicIds?.map((id) => `%${id}%`);
+
+    const [rooms, sources] = await Promise.all([
+      this.prisma.room.findMany({
+        where: {
+          originalImageUrl: { not: null },
+          ...(publicIds && {
+            OR: publicIds.map((id) => ({ originalImageUrl: { contains: id } })),
+          }),
+        },
+        select: { originalImageUrl: true },
+      }),
+      patterns
+        ? this.prisma.$queryRaw<Array<{ url: string }>>`
+            SELECT "metadata"->'request'->>'sourceImageUrl' AS url
+            FROM "designs"
+            WHERE "metadata"->'request'->>'sourceImageUrl' LIKE ANY(${patterns})
+          `
+        : this.prisma.$queryRaw<Array<{ url: string }>>`
+            SELECT "metadata"->'request'->>'sourceImageUrl' AS url
+            FROM "designs"
+            WHERE "metadata"->'request'->>'sourceImageUrl' IS NOT NULL
+          `,
+    ]);
+
+    const referenced = this.unique(
+      [
+        ...rooms.map((room) => room.originalImageUrl!),
+        ...sources.map((source) => source.url),
+      ].map((url) => CloudinaryUtil.publicIdFromUrl(url))
+    );
+
+    return new Set(
+      publicIds ? referenced.filter((id) => publicIds.includes(id)) : referenced
+    );
+  }
+
+  private unique(publicIds: Array<string | null | undefined>): string[] {
+    return [...new Set(publicIds.filter((id): id is string => !!id))];
+  }
+
+  private chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+      chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+  }
+}
@@ -0,0 +1,105 @@
+import { PrismaClient } from "@prisma/client";
+import { AuditEntry, AuditLogQuery } from "../types";
+import { AppError } from "../middleware/error.middleware";
+import logger from "../utils/logger";
+
+export class AuditService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Record an audit entry (never throws)
+   */
+  async log(entry: AuditEntry): Promise<void> {
+    try {
+      await this.prisma.auditLog.create({
+        data: {
+          userId: entry.userId || null,
+          action: entry.action,
+          resource: entry.resource,
+          resourceId: entry.resourceId || null,
+          metadata: entry.metadata,
+          ipAddress: entry.context?.ipAddress || null,
+          userAgent: entry.context?.userAgent || null,
+        },
+      });
+    } catch (error) {
+      logger.error("Failed to write audit log:", {
+        action: entry.action,
+        resource: entry.resource,
+        resourceId: entry.resourceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  /**
+   * Get a user's audit trail with pagination and filters
+   */
+  async getUserAuditLogs(
+    userId: string,
+    query: AuditLogQuery
+  ): Promise<{
+    logs: any[];
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    };
+  }> {
+    try {
+      const { page = 1, limit = 20, action, resource, from, to } = query;
+      const skip = (page - 1) * limit;
+
+      // Build where clause
+      const whereClause: any = { userId };
+
+      if (action) {
+        whereClause.action = action;
+      }
+
+      if (resource) {
+        whereClause.resource = resource;
+      }
+
+      if (from || to) {
+        whereClause.createdAt = {
+          ...(from && { gte: from }),
+          ...(to && { lte: to }),
+        };
+      }
+
+      const [total, logs] = await Promise.all([
+        this.prisma.auditLog.count({ where: whereClause }),
+        this.prisma.auditLog.findMany({
+          where: whereClause,
+          orderBy: { createdAt: "desc" },
+          skip,
+          take: limit,
+        }),
+      ]);
+
+      return {
+        logs: logs.map((log) => ({
+          id: log.id,
+          action: log.action,
+          resource: log.resource,
+          resourceId: log.resourceId,
+          metadata: log.metadata,
+          ipAddress: log.ipAddress,
+          userAgent: log.userAgent,
+          createdAt: log.createdAt.toISOString(),
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      };
+    } catch (error) {
+      logger.error("Get audit logs failed:", error);
+      throw new AppError("Failed to get audit logs", 500, "GET_AUDIT_LOGS_ERROR");
+    }
+  }
+}
@@ -1,19 +1,34 @@
-import { PrismaClient, User } from "@prisma/client";
+import { PrismaClient, Session, User } from "@prisma/client";
 import {
   RegisterDto,
   LoginDto,
   UserProfile,
   LoginResponse,
   JwtPayload,
+  TokenPair,
+  TwoFactorChallenge,
+  TwoFactorLoginDto,
+  AuditAction,
+  RequestContext,
 } from "../types";
 import { BcryptUtil } from "../utils/bcrypt";
 import { JwtUtil } from "../utils/jwt";
+import { TokenUtil } from "../utils/token";
+import { Mailer } from "../utils/mailer";
+import { AuditService } from "./audit.service";
+import { TwoFactorService } from "./two-factor.service";
 import { AppError } from "../middleware/error.middleware";
 import { config } from "../config/env";
 import logger from "../utils/logger";
 
 export class AuthService {
-  constructor(private prisma: PrismaClient) {}
+  private auditService: AuditService;
+  private twoFactorService: TwoFactorService;
+
+  constructor(private prisma: PrismaClient) {
+    this.auditService = new AuditService(prisma);
+    this.twoFactorService = new TwoFactorService(prisma);
+  }
 
   /**
    * Register a new user
@@ -56,7 +71,6 @@ export class AuthService {
           password: hashedPassword,
           userType: userData.userType,
           organization: userData.organization,
-          isVerified: config.isDevelopment, // Auto-verify in development
         },
         select: {
           id: true,
@@ -70,18 +84,12 @@ export class AuthService {
         },
       });
 
-      // Generate tokens
-      const jwtPayload: JwtPayload = {
+      // Start a session and issue its first tokens
+      const tokens = await this.createSession({
         userId: user.id,
         email: user.email,
         userType: user.userType,
-      };
-
-      const token = JwtUtil.generateToken(jwtPayload);
-      const refreshToken = JwtUtil.generateRefreshToken(jwtPayload);
-
-      // Create session
-      await this.createSession(user.id, token);
+      });
 
       // Update last login
       await this.prisma.user.update({
@@ -89,6 +97,13 @@ export class AuthService {
         data: { lastLogin: new Date() },
       });
 
+      // A mail outage shouldn't fail sign-up; the user can ask for a resend
+      try {
+        await this.sendVerificationEmail(user);
+      } catch (mailError) {
+        logger.error("Failed to send verification email:", mailError);
+      }
+
       logger.info("User registered successfully", {
         userId: user.id,
         email: user.email,
@@ -97,9 +112,7 @@ export class AuthService {
 
       return {
         user: this.formatUserProfile(user),
-        token,
-        refreshToken,
-        expiresIn: config.auth.jwtExpiresIn,
+        ...tokens,
       };
     } catch (error) {
       logger.error("Registration failed:", error);
@@ -111,9 +124,13 @@ export class AuthService {
   }
 
   /**
-   * Login user
+   * Login user. Accounts with 2FA get a challenge instead of tokens and
+   * finish with completeTwoFactorLogin.
    */
-  async login(loginData: LoginDto): Promise<LoginResponse> {
+  async login(
+    loginData: LoginDto,
+    context?: RequestContext
+  ): Promise<LoginResponse | TwoFactorChallenge> {
     try {
       // Find user by email
       const user = await this.prisma.user.findUnique({
@@ -133,6 +150,18 @@ export class AuthService {
           reason: !user ? "user_not_found" : "invalid_password",
         });
 
+        await this.auditService.log({
+          userId: user?.id,
+          action: AuditAction.LOGIN_FAILED,
+          resource: "user",
+          resourceId: user?.id,
+          metadata: {
+            email: loginData.email,
+            reason: !user ? "user_not_found" : "invalid_password",
+          },
+          context,
+        });
+
         throw new AppError(
           "Invalid email or password",
           401,
@@ -153,38 +182,116 @@ export class AuthService {
         logger.info("Password rehashed for user", { userId: user.id });
       }
 
-      // Generate tokens
-      const jwtPayload: JwtPayload = {
-        userId: user.id,
-        email: user.email,
-        userType: user.userType,
-      };
+      if (user.twoFactorEnabled) {
+        logger.info("Two-factor challenge issued", { userId: user.id });
 
-      const token = JwtUtil.generateToken(jwtPayload);
-      const refreshToken = JwtUtil.generateRefreshToken(jwtPayload);
+        return {
+          twoFactorRequired: true,
+          challengeToken: JwtUtil.generateTwoFactorChallengeToken(user.id),
+          expiresIn: `${config.auth.twoFactorChallengeTtlMinutes}m`,
+        };
+      }
 
-      // Create session
-      await this.createSession(user.id, token);
+      return await this.completeLogin(user, context);
+    } catch (error) {
+      logger.error("Login failed:", error);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError("Login failed", 500, "LOGIN_ERROR");
+    }
+  }
 
-      // Update last login
-      await this.prisma.user.update({
-        where: { id: user.id },
-        data: { lastLogin: new Date() },
-      });
+  /**
+   * Second step of a 2FA login: trade the challenge token and a TOTP or
+   * recovery code for a session
+   */
+  async completeTwoFactorLogin(
+    data: TwoFactorLoginDto,
+    context?: RequestContext
+  ): Promise<LoginResponse> {
+    try {
+      let challenge: { userId: string; jti?: string } | null = null;
+      try {
+        challenge = JwtUtil.verifyTwoFactorChallengeToken(data.challengeToken);
+      } catch {
+        // Rejected below, along with challenges issued without an id
+      }
 
-      logger.info("User logged in successfully", {
-        userId: user.id,
-        email: user.email,
+      if (!challenge?.jti) {
+        throw new AppError(
+          "Two-factor challenge is invalid or has expired. Please login again.",
+          401,
+          "INVALID_TWO_FACTOR_CHALLENGE"
+        );
+      }
+
+      const user = await this.prisma.user.findUnique({
+        where: { id: challenge.userId },
       });
 
-      return {
-        user: this.formatUserProfile(user),
-        token,
-        refreshToken,
-        expiresIn: config.auth.jwtExpiresIn,
-      };
+      if (!user) {
+        throw new AppError("User not found", 404, "USER_NOT_FOUND");
+      }
+
+      if (
+        !(await this.twoFactorService.claimChallengeAttempt(
+          challenge.jti,
+          user.id
+        ))
+      ) {
+        logger.security("Two-factor challenge attempts exhausted", {
+          userId: user.id,
+        });
+
+        throw new AppError(
+          "Too many two-factor attempts. Please login again later.",
+          429,
+          "TWO_FACTOR_ATTEMPTS_EXCEEDED"
+        );
+      }
+
+      const isValid = await this.twoFactorService.verifyLogin(
+        user.id,
+        { code: data.code, recoveryCode: data.recoveryCode },
+        context
+      );
+
+      await this.twoFactorService.recordChallengeResult(
+        challenge.jti,
+        user.id,
+        isValid
+      );
+
+      if (!isValid) {
+        logger.security("Failed two-factor login attempt", {
+          userId: user.id,
+        });
+
+        await this.auditService.log({
+          userId: user.id,
+          action: AuditAction.LOGIN_FAILED,
+          resource: "user",
+          resourceId: user.id,
+          metadata: {
+            email: user.email,
+            reason: data.code
+              ? "invalid_two_factor_code"
+              : "invalid_recovery_code",
+          },
+          context,
+        });
+
+        throw new AppError(
+          "Invalid two-factor code",
+          401,
+          "INVALID_TWO_FACTOR_CODE"
+        );
+      }
+
+      return await this.completeLogin(user, context);
     } catch (error) {
-      logger.error("Login failed:", error);
+      logger.error("Two-factor login failed:", error);
       if (error instanceof AppError) {
         throw error;
       }
@@ -193,43 +300,118 @@ export class AuthService {
   }
 
   /**
-   * Refresh access token
+   * Open a session for a fully authenticated user
+   */
+  private async completeLogin(
+    user: User,
+    context?: RequestContext
+  ): Promise<LoginResponse> {
+    // Start a session and issue its first tokens
+    const tokens = await this.createSession({
+      userId: user.id,
+      email: user.email,
+      userType: user.userType,
+    });
+
+    // Update last login
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { lastLogin: new Date() },
+    });
+
+    logger.info("User logged in successfully", {
+      userId: user.id,
+      email: user.email,
+    });
+
+    await this.auditService.log({
+      userId: user.id,
+      action: AuditAction.LOGIN,
+      resource: "user",
+      resourceId: user.id,
+      context,
+    });
+
+    return {
+      user: this.formatUserProfile(user),
+      ...tokens,
+    };
+  }
+
+  /**
+   * Rotate a refresh token. Each refresh token is single-use; presenting
+   * one that was already rotated revokes its whole session.
    */
   async refreshToken(
-    refreshToken: string
-  ): Promise<{ token: string; expiresIn: string }> {
+    refreshToken: string,
+    context?: RequestContext
+  ): Promise<TokenPair> {
     try {
-      // Verify refresh token
-      const decoded = JwtUtil.verifyToken(refreshToken);
+      const decoded = JwtUtil.verifyRefreshToken(refreshToken);
+
+      const stored = await this.prisma.refreshToken.findUnique({
+        where: { tokenHash: TokenUtil.hash(refreshToken) },
+        include: { session: true },
+      });
+
+      if (
+        !stored ||
+        stored.session.id !== decoded.sid ||
+        stored.session.userId !== decoded.userId ||
+        stored.session.expiresAt < new Date()
+      ) {
+        throw new AppError(
+          "Invalid refresh token",
+          401,
+          "INVALID_REFRESH_TOKEN"
+        );
+      }
+
+      if (stored.usedAt) {
+        return await this.handleRefreshTokenReuse(stored.session, context);
+      }
+
+      // Claim the token; a concurrent refresh with the same token loses
+      const claimed = await this.prisma.refreshToken.updateMany({
+        where: { id: stored.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+
+      if (claimed.count === 0) {
+        return await this.handleRefreshTokenReuse(stored.session, context);
+      }
 
       // Check if user exists
       const user = await this.prisma.user.findUnique({
         where: { id: decoded.userId },
-        select: { id: true, email: true, userType: true, isVerified: true },
+        select: { id: true, email: true, userType: true },
       });
 
       if (!user) {
         throw new AppError("User not found", 404, "USER_NOT_FOUND");
       }
 
-      // Generate new access token
-      const jwtPayload: JwtPayload = {
-        userId: user.id,
-        email: user.email,
-        userType: user.userType,
-      };
-
-      const newToken = JwtUtil.generateToken(jwtPayload);
+      const tokens = await this.issueTokens(
+        {
+          userId: user.id,
+          email: user.email,
+          userType: user.userType,
+        },
+        stored.session.id,
+        stored.session.expiresAt
+      );
 
-      // Create new session
-      await this.createSession(user.id, newToken);
+      await this.prisma.session.update({
+        where: { id: stored.session.id },
+        data: { lastUsedAt: new Date() },
+      });
 
-      logger.info("Token refreshed successfully", { userId: user.id });
+      logger.info("Token refreshed successfully", {
+        userId: user.id,
+        sessionId: stored.session.id,
+      });
 
-      return {
-        token: newToken,
-        expiresIn: config.auth.jwtExpiresIn,
-      };
+      return tokens;
     } catch (error) {
       logger.error("Token refresh failed:", error);
       if (error instanceof AppError) {
@@ -240,16 +422,50 @@ export class AuthService {
   }
 
   /**
-   * Logout user
+   * A rotated refresh token came back, so it has leaked; revoke the family
    */
-  async logout(token: string): Promise<void> {
+  private async handleRefreshTokenReuse(
+    session: Session,
+    context?: RequestContext
+  ): Promise<never> {
+    await this.prisma.session.deleteMany({
+      where: { id: session.id },
+    });
+
+    logger.security("Refresh token reuse detected, session revoked", {
+      userId: session.userId,
+      sessionId: session.id,
+      ip: context?.ipAddress,
+    });
+
+    await this.auditService.log({
+      userId: session.userId,
+      action: AuditAction.REFRESH_TOKEN_REUSED,
+      resource: "session",
+      resourceId: session.id,
+      context,
+    });
+
+    throw new AppError(
+      "Refresh token has already been used. Please login again.",
+      401,
+      "REFRESH_TOKEN_REUSED"
+    );
+  }
+
+  /**
+   * Logout user from the current session
+   */
+  async logout(userId: string, sessionId?: string): Promise<void> {
     try {
-      // Delete session
-      await this.prisma.session.deleteMany({
-        where: { token },
-      });
+      if (sessionId) {
+        // Deleting the session revokes its refresh tokens too
+        await this.prisma.session.deleteMany({
+          where: { id: sessionId, userId },
+        });
+      }
 
-      logger.info("User logged out successfully");
+      logger.info("User logged out successfully", { userId, sessionId });
     } catch (error) {
       logger.error("Logout failed:", error);
       throw new AppError("Logout failed", 500, "LOGOUT_ERROR");
@@ -259,13 +475,24 @@ export class AuthService {
   /**
    * Logout from all devices
    */
-  async logoutAllDevices(userId: string): Promise<void> {
+  async logoutAllDevices(
+    userId: string,
+    context?: RequestContext
+  ): Promise<void> {
     try {
       // Delete all sessions for user
-      await this.prisma.session.deleteMany({
+      const result = await this.prisma.session.deleteMany({
         where: { userId },
       });
 
+      await this.auditService.log({
+        userId,
+        action: AuditAction.LOGOUT_ALL,
+        resource: "session",
+        metadata: { sessionsRevoked: result.count },
+        context,
+      });
+
       logger.info("User logged out from all devices", { userId });
     } catch (error) {
       logger.error("Logout all devices failed:", error);
@@ -283,7 +510,8 @@ export class AuthService {
   async changePassword(
     userId: string,
     currentPassword: string,
-    newPassword: string
+    newPassword: string,
+    context?: RequestContext
   ): Promise<void> {
     try {
       // Get user with password
@@ -343,8 +571,16 @@ export class AuthService {
         data: { password: hashedNewPassword },
       });
 
+      await this.auditService.log({
+        userId,
+        action: AuditAction.PASSWORD_CHANGED,
+        resource: "user",
+        resourceId: userId,
+        context,
+      });
+
       // Logout from all devices for security
-      await this.logoutAllDevices(userId);
+      await this.logoutAllDevices(userId, context);
 
       logger.info("Password changed successfully", { userId });
     } catch (error) {
@@ -433,18 +669,58 @@ export class AuthService {
   }
 
   /**
-   * Verify user email
+   * Verify user email with an emailed token
    */
-  async verifyEmail(userId: string): Promise<void> {
+  async verifyEmail(token: string, context?: RequestContext): Promise<void> {
     try {
+      let decoded: { userId: string; email: string };
+      try {
+        decoded = JwtUtil.verifyEmailVerificationToken(token);
+      } catch {
+        throw new AppError(
+          "Verification link is invalid or has expired",
+          400,
+          "INVALID_VERIFICATION_TOKEN"
+        );
+      }
+
+      const user = await this.prisma.user.findUnique({
+        where: { id: decoded.userId },
+        select: { id: true, email: true, isVerified: true },
+      });
+
+      // A link sent to a previous address proves nothing about the current one
+      if (!user || user.email !== decoded.email) {
+        throw new AppError(
+          "Verification link is invalid or has expired",
+          400,
+          "INVALID_VERIFICATION_TOKEN"
+        );
+      }
+
+      if (user.isVerified) {
+        return;
+      }
+
       await this.prisma.user.update({
-        where: { id: userId },
+        where: { id: user.id },
         data: { isVerified: true },
       });
 
-      logger.info("Email verified successfully", { userId });
+      await this.auditService.log({
+        userId: user.id,
+        action: AuditAction.EMAIL_VERIFIED,
+        resource: "user",
+        resourceId: user.id,
+        context,
+      });
+
+      logger.info("Email verified successfully", { userId: user.id });
     } catch (error) {
       logger.error("Email verification failed:", error);
+      if (error instanceof AppError) {
+        throw error;
+      }
       throw new AppError(
         "Email verification failed",
         500,
@@ -454,58 +730,159 @@ export class AuthService {
   }
 
   /**
-   * Create session
+   * Resend the verification email. Unknown, already verified and throttled
+   * addresses succeed silently so the endpoint can't be used to probe accounts.
    */
-  private async createSession(userId: string, token: string): Promise<void> {
+  async resendVerification(email: string): Promise<void> {
     try {
-      // Calculate expiration time
-      const expiresAt = new Date();
-      const expirationDays =
-        parseInt(config.auth.jwtExpiresIn.replace("d", "")) || 7;
-      expiresAt.setDate(expiresAt.getDate() + expirationDays);
-
-      // Clean up expired sessions
-      await this.prisma.session.deleteMany({
-        where: {
-          userId,
-          expiresAt: { lt: new Date() },
-        },
-      });
-
-      // Create new session
-      await this.prisma.session.create({
-        data: {
-          userId,
-          token,
-          expiresAt,
+      const user = await this.prisma.user.findUnique({
+        where: { email },
+        select: {
+          id: true,
+          email: true,
+          isVerified: true,
+          verificationSentAt: true,
         },
       });
 
-      // Limit number of active sessions per user (optional)
-      const sessionCount = await this.prisma.session.count({
-        where: { userId },
-      });
+      if (!user || user.isVerified) {
+        return;
+      }
 
-      if (sessionCount > 5) {
-        // Delete oldest sessions, keep only 5 most recent
-        const oldestSessions = await this.prisma.session.findMany({
-          where: { userId },
-          orderBy: { createdAt: "asc" },
-          take: sessionCount - 5,
-        });
-
-        await this.prisma.session.deleteMany({
-          where: {
-            id: { in: oldestSessions.map((s) => s.id) },
-          },
+      const cooldownMs =
+        config.auth.emailVerificationResendCooldownSeconds * 1000;
+      if (
+        user.verificationSentAt &&
+        Date.now() - user.verificationSentAt.getTime() < cooldownMs
+      ) {
+        logger.security("Verification email resend throttled", {
+          userId: user.id,
         });
+        return;
       }
+
+      await this.sendVerificationEmail(user);
     } catch (error) {
-      logger.error("Session creation failed:", error);
-      // Don't throw error here to prevent breaking the auth flow
+      logger.error("Resend verification failed:", error);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError(
+        "Failed to resend verification email",
+        500,
+        "RESEND_VERIFICATION_ERROR"
+      );
     }
   }
 
+  /**
+   * Email a verification link and record when it was sent
+   */
+  private async sendVerificationEmail(user: {
+    id: string;
+    email: string;
+  }): Promise<void> {
+    const token = JwtUtil.generateEmailVerificationToken(user.id, user.email);
+    const verifyUrl = `${config.server.appUrl}/verify-email?token=${encodeURIComponent(token)}`;
+    const ttl = config.auth.emailVerificationTtlHours;
+
+    await Mailer.send({
+      to: user.email,
+      subject: "Verify your email address",
+      text:
+        `Welcome! Please confirm your email address.\n\n` +
+        `Open this link to verify it (valid for ${ttl} hours):\n${verifyUrl}\n\n` +
+        `If you didn't create an account, you can ignore this email.`,
+      html:
+        `<p>Welcome! Please confirm your email address.</p>` +
+        `<p><a href="${verifyUrl}">Verify my email</a> (valid for ${ttl} hours).</p>` +
+        `<p>If you didn't create an account, you can ignore this email.</p>`,
+    });
+
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { verificationSentAt: new Date() },
+    });
+
+    logger.info("Verification email sent", { userId: user.id });
+  }
+
+  /**
+   * Start a new session (refresh token family) and issue its first tokens
+   */
+  private async createSession(payload: JwtPayload): Promise<TokenPair> {
+    const expiresAt = new Date(
+      Date.now() + JwtUtil.durationToMs(config.auth.jwtRefreshExpiresIn)
+    );
+
+    // Clean up expired sessions
+    await this.prisma.session.deleteMany({
+      where: {
+        userId: payload.userId,
+        expiresAt: { lt: new Date() },
+      },
+    });
+
+    const session = await this.prisma.session.create({
+      data: {
+        userId: payload.userId,
+        expiresAt,
+      },
+    });
+
+    const tokens = await this.issueTokens(payload, session.id, expiresAt);
+
+    // Limit number of active sessions per user
+    const sessionCount = await this.prisma.session.count({
+      where: { userId: payload.userId },
+    });
+
+    if (sessionCount > 5) {
+      // Delete oldest sessions, keep only 5 most recent
+      const oldestSessions = await this.prisma.session.findMany({
+        where: { userId: payload.userId },
+        orderBy: { createdAt: "asc" },
+        take: sessionCount - 5,
+      });
+
+      await this.prisma.session.deleteMany({
+        where: {
+          id: { in: oldestSessions.map((s) => s.id) },
+        },
+      });
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Mint an access token and the next refresh token of a session
+   */
+  private async issueTokens(
+    payload: JwtPayload,
+    sessionId: string,
+    expiresAt: Date
+  ): Promise<TokenPair> {
+    const claims: JwtPayload = { ...payload, sid: sessionId };
+
+    const token = JwtUtil.generateToken(claims);
+    const refreshToken = JwtUtil.generateRefreshToken(claims, expiresAt);
+
+    await this.prisma.refreshToken.create({
+      data: {
+        sessionId,
+        tokenHash: TokenUtil.hash(refreshToken),
+        expiresAt,
+      },
+    });
+
+    return {
+      token,
+      refreshToken,
+      expiresIn: config.auth.jwtExpiresIn,
+    };
+  }
+
   /**
    * Format user profile response
    */
@@ -525,7 +902,7 @@ export class AuthService {
   /**
    * Clean up expired sessions
    */
-  async cleanupExpiredSessions(): Promise<void> {
+  async cleanupExpiredSessions(): Promise<{ deletedCount: number }> {
     try {
       const result = await this.prisma.session.deleteMany({
         where: {
@@ -534,8 +911,15 @@ export class AuthService {
       });
 
       logger.info(`Cleaned up ${result.count} expired sessions`);
+
+      return { deletedCount: result.count };
     } catch (error) {
       logger.error("Session cleanup failed:", error);
+      throw new AppError(
+        "Failed to clean up expired sessions",
+        500,
+        "CLEANUP_SESSIONS_ERROR"
+      );
     }
   }
 
@@ -552,6 +936,7 @@ export class AuthService {
         select: {
           id: true,
           createdAt: true,
+          lastUsedAt: true,
           expiresAt: true,
         },
         orderBy: { createdAt: "desc" },
@@ -560,6 +945,7 @@ export class AuthService {
       return sessions.map((session) => ({
         id: session.id,
         createdAt: session.createdAt.toISOString(),
+        lastUsedAt: session.lastUsedAt?.toISOString() ?? null,
         expiresAt: session.expiresAt.toISOString(),
       }));
     } catch (error) {
@@ -575,15 +961,29 @@ export class AuthService {
   /**
    * Revoke specific session
    */
-  async revokeSession(userId: string, sessionId: string): Promise<void> {
+  async revokeSession(
+    userId: string,
+    sessionId: string,
+    context?: RequestContext
+  ): Promise<void> {
     try {
-      await this.prisma.session.deleteMany({
+      const result = await this.prisma.session.deleteMany({
         where: {
           id: sessionId,
           userId,
         },
       });
 
+      if (result.count > 0) {
+        await this.auditService.log({
+          userId,
+          action: AuditAction.SESSION_REVOKED,
+          resource: "session",
+          resourceId: sessionId,
+          context,
+        });
+      }
+
       logger.info("Session revoked successfully", { userId, sessionId });
     } catch (error) {
       logger.error("Session revocation failed:", error);
@@ -613,7 +1013,8 @@ export class AuthService {
   }
 
   /**
-   * Generate password reset token (placeholder for future implementation)
+   * Generate a single-use password reset token.
+   * Only the hash is stored; the plain token is returned for the email.
    */
   async generatePasswordResetToken(email: string): Promise<string> {
     try {
@@ -626,13 +1027,23 @@ export class AuthService {
         throw new AppError("User not found", 404, "USER_NOT_FOUND");
       }
 
-      // Generate a secure random token
-      const resetToken = BcryptUtil.generateSecurePassword(32);
+      const resetToken = TokenUtil.generate();
+      const expiresAt = new Date(
+        Date.now() + config.auth.passwordResetTtlMinutes * 60 * 1000
+      );
 
-      // In a real implementation, you would:
-      // 1. Hash this token and store it in database with expiration
-      // 2. Send email with the plain token
-      // 3. When user submits reset form, hash the submitted token and compare
+      // Only the most recent link stays valid
+      await this.prisma.passwordResetToken.deleteMany({
+        where: { userId: user.id, usedAt: null },
+      });
+
+      await this.prisma.passwordResetToken.create({
+        data: {
+          userId: user.id,
+          tokenHash: TokenUtil.hash(resetToken),
+          expiresAt,
+        },
+      });
 
       logger.info("Password reset token generated", { userId: user.id });
 
@@ -649,4 +1060,143 @@ export class AuthService {
       );
     }
   }
+
+  /**
+   * Email a password reset link. Succeeds silently for unknown emails so
+   * the endpoint can't be used to discover accounts.
+   */
+  async requestPasswordReset(
+    email: string,
+    context?: RequestContext
+  ): Promise<void> {
+    try {
+      const user = await this.prisma.user.findUnique({
+        where: { email },
+        select: { id: true },
+      });
+
+      if (!user) {
+        logger.security("Password reset requested for unknown email", {
+          email,
+        });
+        return;
+      }
+
+      const resetToken = await this.generatePasswordResetToken(email);
+
+      const resetUrl = `${config.server.appUrl}/reset-password?token=${encodeURIComponent(resetToken)}`;
+      const ttl = config.auth.passwordResetTtlMinutes;
+
+      await Mailer.send({
+        to: email,
+        subject: "Reset your password",
+        text:
+          `We received a request to reset your password.\n\n` +
+          `Open this link to choose a new one (valid for ${ttl} minutes):\n${resetUrl}\n\n` +
+          `If you didn't ask for this, you can ignore this email.`,
+        html:
+          `<p>We received a request to reset your password.</p>` +
+          `<p><a href="${resetUrl}">Choose a new password</a> (valid for ${ttl} minutes).</p>` +
+          `<p>If you didn't ask for this, you can ignore this email.</p>`,
+      });
+
+      await this.auditService.log({
+        userId: user.id,
+        action: AuditAction.PASSWORD_RESET_REQUESTED,
+        resource: "user",
+        resourceId: user.id,
+        context,
+      });
+    } catch (error) {
+      logger.error("Password reset request failed:", error);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError(
+        "Failed to request password reset",
+        500,
+        "PASSWORD_RESET_REQUEST_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Reset a password with an emailed token and sign out everywhere
+   */
+  async resetPassword(
+    token: string,
+    newPassword: string,
+    context?: RequestContext
+  ): Promise<void> {
+    try {
+      const resetToken = await this.prisma.passwordResetToken.findUnique({
+        where: { tokenHash: TokenUtil.hash(token) },
+      });
+
+      if (
+        !resetToken ||
+        resetToken.usedAt ||
+        resetToken.expiresAt < new Date()
+      ) {
+        throw new AppError(
+          "Password reset link is invalid or has expired",
+          400,
+          "INVALID_RESET_TOKEN"
+        );
+      }
+
+      // Validate new password strength
+      const passwordValidation =
+        BcryptUtil.validatePasswordStrength(newPassword);
+      if (!passwordValidation.isValid) {
+        throw new AppError(
+          `Password validation failed: ${passwordValidation.errors.join(", ")}`,
+          400,
+          "WEAK_PASSWORD"
+        );
+      }
+
+      // Claim the token; a concurrent reset with the same token loses
+      const claimed = await this.prisma.passwordResetToken.updateMany({
+        where: { id: resetToken.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+
+      if (claimed.count === 0) {
+        throw new AppError(
+          "Password reset link is invalid or has expired",
+          400,
+          "INVALID_RESET_TOKEN"
+        );
+      }
+
+      const hashedPassword = await BcryptUtil.hashPassword(newPassword);
+
+      await this.prisma.user.update({
+        where: { id: resetToken.userId },
+        data: { password: hashedPassword },
+      });
+
+      await this.auditService.log({
+        userId: resetToken.userId,
+        action: AuditAction.PASSWORD_RESET,
+        resource: "user",
+        resourceId: resetToken.userId,
+        context,
+      });
+
+      // Sessions opened with the old password are no longer trusted
+      await this.logoutAllDevices(resetToken.userId, context);
+
+      logger.info("Password reset successfully", {
+        userId: resetToken.userId,
+      });
+    } catch (error) {
+      logger.error("Password reset failed:", error);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError("Password reset failed", 500, "PASSWORD_RESET_ERROR");
+    }
+  }
 }
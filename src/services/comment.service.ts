@@ -0,0 +1,330 @@
+import { PrismaClient } from "@prisma/client";
+import {
+  CommentQuery,
+  CreateCommentDto,
+  UpdateCommentDto,
+} from "../types";
+import { AccessService } from "./access.service";
+import { AppError } from "../middleware/error.middleware";
+import logger from "../utils/logger";
+
+const AUTHOR_SELECT = { select: { id: true, name: true } };
+
+export class CommentService {
+  private accessService: AccessService;
+
+  constructor(private prisma: PrismaClient) {
+    this.accessService = new AccessService(prisma);
+  }
+
+  /**
+   * Get a design's comment threads, oldest first, with their replies
+   */
+  async getComments(
+    designId: string,
+    userId: string,
+    query: CommentQuery = {}
+  ): Promise<any[]> {
+    try {
+      await this.authorizeDesign(designId, userId);
+
+      const whereClause: any = { designId, parentId: null };
+      if (query.resolved !== undefined) {
+        whereClause.resolvedAt = query.resolved ? { not: null } : null;
+      }
+
+      const threads = await this.prisma.designComment.findMany({
+        where: whereClause,
+        include: {
+          author: AUTHOR_SELECT,
+          resolvedBy: AUTHOR_SELECT,
+          replies: {
+            include: { author: AUTHOR_SELECT },
+            orderBy: { createdAt: "asc" },
+          },
+        },
+        orderBy: { createdAt: "asc" },
+      });
+
+      return threads.map((thread) => this.formatCommentResponse(thread));
+    } catch (error) {
+      logger.error("Get comments failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError("Failed to get comments", 500, "GET_COMMENTS_ERROR");
+    }
+  }
+
+  /**
+   * Start a thread, or reply to one when parentId is given
+   */
+  async createComment(
+    designId: string,
+    userId: string,
+    data: CreateCommentDto
+  ): Promise<any> {
+    try {
+      await this.authorizeDesign(designId, userId);
+
+      if (data.parentId) {
+        const parent = await this.prisma.designComment.findUnique({
+          where: { id: data.parentId },
+          select: { designId: true, parentId: true },
+        });
+
+        if (!parent || parent.designId !== designId) {
+          throw new AppError("Comment not found", 404, "COMMENT_NOT_FOUND");
+        }
+
+        if (parent.parentId) {
+          throw new AppError(
+            "Replies can only be added to top-level comments",
+            400,
+            "INVALID_PARENT_COMMENT"
+          );
+        }
+      }
+
+      const comment = await this.prisma.designComment.create({
+        data: {
+          designId,
+          authorId: userId,
+          parentId: data.parentId,
+          body: data.body,
+          pinX: data.pin?.x,
+          pinY: data.pin?.y,
+        },
+        include: { author: AUTHOR_SELECT },
+      });
+
+      logger.info("Comment created", {
+        commentId: comment.id,
+        designId,
+        userId,
+      });
+
+      return this.formatCommentResponse(comment);
+    } catch (error) {
+      logger.error("Comment creation failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        "Failed to create comment",
+        500,
+        "COMMENT_CREATION_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Edit a comment's text (author only)
+   */
+  async updateComment(
+    designId: string,
+    commentId: string,
+    userId: string,
+    data: UpdateCommentDto
+  ): Promise<any> {
+    try {
+      await this.authorizeDesign(designId, userId);
+      const comment = await this.findComment(designId, commentId);
+
+      if (comment.authorId !== userId) {
+        throw new AppError(
+          "Only the author can edit a comment",
+          403,
+          "ACCESS_DENIED"
+        );
+      }
+
+      const updated = await this.prisma.designComment.update({
+        where: { id: commentId },
+        data: { body: data.body },
+        include: { author: AUTHOR_SELECT, resolvedBy: AUTHOR_SELECT },
+      });
+
+      return this.formatCommentResponse(updated);
+    } catch (error) {
+      logger.error("Comment update failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        "Failed to update comment",
+        500,
+        "COMMENT_UPDATE_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Resolve or reopen a thread (author, or anyone who can edit the project)
+   */
+  async setResolved(
+    designId: string,
+    commentId: string,
+    userId: string,
+    resolved: boolean
+  ): Promise<any> {
+    try {
+      const project = await this.authorizeDesign(designId, userId);
+      const comment = await this.findComment(designId, commentId);
+
+      if (comment.parentId) {
+        throw new AppError(
+          "Only top-level comments can be resolved",
+          400,
+          "INVALID_COMMENT"
+        );
+      }
+
+      if (comment.authorId !== userId) {
+        await this.accessService.authorizeProject(project, userId, "edit");
+      }
+
+      const updated = await this.prisma.designComment.update({
+        where: { id: commentId },
+        data: resolved
+          ? { resolvedAt: new Date(), resolvedById: userId }
+          : { resolvedAt: null, resolvedById: null },
+        include: {
+          author: AUTHOR_SELECT,
+          resolvedBy: AUTHOR_SELECT,
+          replies: {
+            include: { author: AUTHOR_SELECT },
+            orderBy: { createdAt: "asc" },
+          },
+        },
+      });
+
+      return this.formatCommentResponse(updated);
+    } catch (error) {
+      logger.error("Comment resolve failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        "Failed to update comment",
+        500,
+        "COMMENT_UPDATE_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Delete a comment and its replies (author, or anyone who can edit the project)
+   */
+  async deleteComment(
+    designId: string,
+    commentId: string,
+    userId: string
+  ): Promise<void> {
+    try {
+      const project = await this.authorizeDesign(designId, userId);
+      const comment = await this.findComment(designId, commentId);
+
+      if (comment.authorId !== userId) {
+        await this.accessService.authorizeProject(project, userId, "edit");
+      }
+
+      await this.prisma.designComment.delete({ where: { id: commentId } });
+
+      logger.info("Comment deleted", { commentId, designId, userId });
+    } catch (error) {
+      logger.error("Comment deletion failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        "Failed to delete comment",
+        500,
+        "COMMENT_DELETE_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Anyone who can view the design may read and add comments.
+   * Returns the project for further permission checks.
+   */
+  private async authorizeDesign(designId: string, userId: string) {
+    const design = await this.prisma.design.findUnique({
+      where: { id: designId },
+      select: {
+        room: {
+          select: {
+            project: { select: { userId: true, organizationId: true } },
+          },
+        },
+      },
+    });
+
+    if (!design) {
+      throw new AppError("Design not found", 404, "DESIGN_NOT_FOUND");
+    }
+
+    await this.accessService.authorizeProject(
+      design.room.project,
+      userId,
+      "view"
+    );
+
+    return design.room.project;
+  }
+
+  private async findComment(designId: string, commentId: string) {
+    const comment = await this.prisma.designComment.findUnique({
+      where: { id: commentId },
+    });
+
+    if (!comment || comment.designId !== designId) {
+      throw new AppError("Comment not found", 404, "COMMENT_NOT_FOUND");
+    }
+
+    return comment;
+  }
+
+  /**
+   * Format comment response
+   */
+  private formatCommentResponse(comment: any): any {
+    const formatted = {
+      id: comment.id,
+      designId: comment.designId,
+      parentId: comment.parentId,
+      body: comment.body,
+      author: comment.author,
+      pin:
+        comment.pinX !== null && comment.pinY !== null
+          ? { x: comment.pinX, y: comment.pinY }
+          : null,
+      createdAt: comment.createdAt.toISOString(),
+      updatedAt: comment.updatedAt.toISOString(),
+    };
+
+    if (!comment.parentId) {
+      Object.assign(formatted, {
+        resolved: !!comment.resolvedAt,
+        resolvedAt: comment.resolvedAt?.toISOString() ?? null,
+        resolvedBy: comment.resolvedBy ?? null,
+        replies: (comment.replies ?? []).map((reply: any) =>
+          this.formatCommentResponse(reply)
+        ),
+      });
+    }
+
+    return formatted;
+  }
+}
@@ -0,0 +1,233 @@
+import {
+  PrismaClient,
+  Prisma,
+  CreditTransactionType,
+  UserType,
+} from "@prisma/client";
+import { UsageSummary } from "../types";
+import { AppError } from "../middleware/error.middleware";
+import { config } from "../config/env";
+import logger from "../utils/logger";
+
+export class CreditService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Convert an estimated USD cost to credits (1 credit = $0.01)
+   */
+  creditsForCost(estimatedCost: number): number {
+    return Math.max(
+      config.credits.minPerGeneration,
+      Math.round(estimatedCost * 100)
+    );
+  }
+
+  /**
+   * Debit credits for a design inside the caller's transaction.
+   * Throws QUOTA_EXCEEDED (402) when the monthly balance is too low.
+   */
+  async debitForDesign(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    designId: string,
+    credits: number
+  ): Promise<void> {
+    const period = this.currentPeriod();
+
+    // Serialize debits per user so concurrent requests can't overspend
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${userId}))`;
+
+    const user = await tx.user.findUnique({
+      where: { id: userId },
+      select: { userType: true },
+    });
+
+    if (!user) {
+      throw new AppError("User not found", 404, "USER_NOT_FOUND");
+    }
+
+    await this.ensureMonthlyGrant(tx, userId, user.userType, period);
+
+    const balance = await this.getBalance(tx, userId, period);
+
+    if (balance < credits) {
+      throw new AppError(
+        `Monthly generation quota exceeded. This design needs ${credits} credits and ${balance} remain until ${this.periodResetsAt(period).toISOString()}.`,
+        402,
+        "QUOTA_EXCEEDED"
+      );
+    }
+
+    await tx.creditTransaction.create({
+      data: {
+        userId,
+        type: CreditTransactionType.DEBIT,
+        amount: -credits,
+        period,
+        designId,
+        reference: `debit:${designId}`,
+        description: "Design generation",
+      },
+    });
+  }
+
+  /**
+   * Refund the debit for a design (idempotent, never throws)
+   */
+  async refundDesign(designId: string, reason: string): Promise<void> {
+    try {
+      const debit = await this.prisma.creditTransaction.findUnique({
+        where: { reference: `debit:${designId}` },
+      });
+
+      if (!debit) {
+        return;
+      }
+
+      // Refund into the month that was charged
+      await this.prisma.creditTransaction.createMany({
+        data: [
+          {
+            userId: debit.userId,
+            type: CreditTransactionType.REFUND,
+            amount: -debit.amount,
+            period: debit.period,
+            designId,
+            reference: `refund:${designId}`,
+            description: reason,
+          },
+        ],
+        skipDuplicates: true,
+      });
+    } catch (error) {
+      logger.error("Design credit refund failed:", {
+        designId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  /**
+   * Get the current month's credit usage for a user
+   */
+  async getUsage(userId: string): Promise<UsageSummary> {
+    try {
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { userType: true },
+      });
+
+      if (!user) {
+        throw new AppError("User not found", 404, "USER_NOT_FOUND");
+      }
+
+      const period = this.currentPeriod();
+
+      await this.ensureMonthlyGrant(
+        this.prisma,
+        userId,
+        user.userType,
+        period
+      );
+
+      const totals = await this.prisma.creditTransaction.groupBy({
+        by: ["type"],
+        where: { userId, period },
+        _sum: { amount: true },
+        _count: { _all: true },
+      });
+
+      const totalFor = (type: CreditTransactionType) =>
+        totals.find((total) => total.type === type)?._sum.amount || 0;
+
+      const granted = totalFor(CreditTransactionType.GRANT);
+      const debited = -totalFor(CreditTransactionType.DEBIT);
+      const refunded = totalFor(CreditTransactionType.REFUND);
+
+      const recentTransactions = await this.prisma.creditTransaction.findMany({
+        where: { userId, period },
+        orderBy: { createdAt: "desc" },
+        take: 20,
+      });
+
+      return {
+        period,
+        plan: user.userType,
+        allowance: this.monthlyAllowance(user.userType),
+        granted,
+        used: debited - refunded,
+        remaining: granted - debited + refunded,
+        generations:
+          totals.find((total) => total.type === CreditTransactionType.DEBIT)
+            ?._count._all || 0,
+        resetsAt: this.periodResetsAt(period).toISOString(),
+        recentTransactions: recentTransactions.map((transaction) => ({
+          id: transaction.id,
+          type: transaction.type,
+          amount: transaction.amount,
+          designId: transaction.designId,
+          description: transaction.description,
+          createdAt: transaction.createdAt.toISOString(),
+        })),
+      };
+    } catch (error) {
+      logger.error("Get credit usage failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError("Failed to get usage", 500, "GET_USAGE_ERROR");
+    }
+  }
+
+  /**
+   * Grant the plan's monthly allowance once per period
+   */
+  private async ensureMonthlyGrant(
+    client: Prisma.TransactionClient | PrismaClient,
+    userId: string,
+    userType: UserType,
+    period: string
+  ): Promise<void> {
+    await client.creditTransaction.createMany({
+      data: [
+        {
+          userId,
+          type: CreditTransactionType.GRANT,
+          amount: this.monthlyAllowance(userType),
+          period,
+          reference: `grant:${userId}:${period}`,
+          description: `${userType} monthly allowance`,
+        },
+      ],
+      skipDuplicates: true,
+    });
+  }
+
+  private async getBalance(
+    client: Prisma.TransactionClient | PrismaClient,
+    userId: string,
+    period: string
+  ): Promise<number> {
+    const result = await client.creditTransaction.aggregate({
+      where: { userId, period },
+      _sum: { amount: true },
+    });
+
+    return result._sum.amount || 0;
+  }
+
+  private monthlyAllowance(userType: UserType): number {
+    return config.credits.monthlyAllowance[userType];
+  }
+
+  private currentPeriod(): string {
+    return new Date().toISOString().slice(0, 7);
+  }
+
+  private periodResetsAt(period: string): Date {
+    const [year, month] = period.split("-").map(Number);
+    return new Date(Date.UTC(year, month, 1));
+  }
+}
@@ -0,0 +1,64 @@
+import { PrismaClient } from "@prisma/client";
+import { DesignService } from "./design.service";
+import { DesignInputs, InteriorStyle } from "../types";
+
+describe("DesignService.diffInputs", () => {
+  // diffInputs never touches the database
+  const service = new DesignService({} as PrismaClient);
+  const diff = (from: Partial<DesignInputs>, to: Partial<DesignInputs>) =>
+    service["diffInputs"](from, to);
+
+  const base: Partial<DesignInputs> = {
+    mode: "generate",
+    aiProvider: "mock",
+    style: InteriorStyle.MINIMALIST,
+    dimensions: { length: 5, width: 4, height: 2.7 },
+    materials: ["oak", "linen"],
+  };
+
+  it("reports nothing for identical inputs", () => {
+    expect(diff(base, { ...base })).toEqual([]);
+  });
+
+  it("reports changed fields with both values", () => {
+    expect(
+      diff(base, {
+        ...base,
+        style: InteriorStyle.INDUSTRIAL,
+        aiProvider: "openai",
+      })
+    ).toEqual([
+      { field: "aiProvider", from: "mock", to: "openai" },
+      { field: "style", from: "MINIMALIST", to: "INDUSTRIAL" },
+    ]);
+  });
+
+  it("compares nested values by content", () => {
+    expect(
+      diff(base, {
+        ...base,
+        dimensions: { length: 5, width: 4, height: 2.7 },
+        materials: ["oak", "linen"],
+      })
+    ).toEqual([]);
+
+    expect(diff(base, { ...base, materials: ["oak", "wool"] })).toEqual([
+      {
+        field: "materials",
+        from: ["oak", "linen"],
+        to: ["oak", "wool"],
+      },
+    ]);
+  });
+
+  it("reports added and removed fields as null on the missing side", () => {
+    const { materials: _, ...withoutMaterials } = base;
+
+    expect(
+      diff(withoutMaterials, { ...withoutMaterials, strength: 0.6 })
+    ).toEqual([{ field: "strength", from: null, to: 0.6 }]);
+    expect(diff(base, withoutMaterials)).toEqual([
+      { field: "materials", from: ["oak", "linen"], to: null },
+    ]);
+  });
+});
@@ -1,14 +1,47 @@
-import { PrismaClient, DesignStatus } from "@prisma/client";
-import { GenerateDesignDto, DesignQuery, AIPromptData } from "../types";
+import { Prisma, PrismaClient, DesignStatus, Room } from "@prisma/client";
+import {
+  GenerateDesignDto,
+  DesignQuery,
+  DesignReviewStatus,
+  ReviewDesignDto,
+  EditDesignDto,
+  DesignInputs,
+  DesignInputChange,
+  ImageProvider,
+  AIPromptData,
+  ImageProviderCapabilities,
+  AuditAction,
+  RequestContext,
+  ProjectPermission,
+} from "../types";
 import { AIService } from "../services/ai.service";
+import { ProviderRegistry } from "../services/providers/provider.registry";
+import { CreditService } from "../services/credit.service";
+import { AuditService } from "../services/audit.service";
+import { AccessService } from "../services/access.service";
+import { AssetCleanupService } from "../services/asset-cleanup.service";
+import { DesignQueue } from "../queues/design.queue";
+import { DesignEvents } from "../utils/design-events";
+import { CloudinaryUtil } from "../utils/cloudinary";
 import { AppError } from "../middleware/error.middleware";
+import { config } from "../config/env";
 import logger from "../utils/logger";
 
+const DEFAULT_REDESIGN_STRENGTH = 0.8;
+
 export class DesignService {
   private aiService: AIService;
+  private creditService: CreditService;
+  private auditService: AuditService;
+  private accessService: AccessService;
+  private assetCleanupService: AssetCleanupService;
 
   constructor(private prisma: PrismaClient) {
     this.aiService = new AIService();
+    this.creditService = new CreditService(prisma);
+    this.auditService = new AuditService(prisma);
+    this.accessService = new AccessService(prisma);
+    this.assetCleanupService = new AssetCleanupService(prisma);
   }
 
   /**
@@ -16,10 +49,17 @@ export class DesignService {
    */
   async generateDesign(
     userId: string,
-    designData: GenerateDesignDto
+    designData: GenerateDesignDto,
+    parentDesignId?: string
   ): Promise<any> {
     try {
-      const { roomId, customPrompt, aiProvider = "replicate" } = designData;
+      const {
+        roomId,
+        customPrompt,
+        aiProvider = config.ai.defaultProvider,
+        mode = "generate",
+        parameters,
+      } = designData;
 
       // Get room details with project information
       const room = await this.prisma.room.findUnique({
@@ -28,6 +68,7 @@ export class DesignService {
           project: {
             select: {
               userId: true,
+              organizationId: true,
               style: true,
               type: true,
             },
@@ -39,59 +80,53 @@ export class DesignService {
         throw new AppError("Room not found", 404, "ROOM_NOT_FOUND");
       }
 
-      // Check ownership
-      if (room.project.userId !== userId) {
-        throw new AppError(
-          "Access denied. You can only generate designs for your own rooms.",
-          403,
-          "ACCESS_DENIED"
-        );
+      // Check access
+      await this.accessService.authorizeProject(room.project, userId, "edit");
+
+      // Fail fast on providers that are not enabled, cannot redesign or
+      // cannot honour the generation parameters
+      const provider = ProviderRegistry.get(aiProvider);
+      this.aiService.resolveParameters(provider, parameters);
+
+      let redesign:
+        | { uploadId: string | null; sourceImageUrl: string; strength: number }
+        | undefined;
+      if (mode === "redesign") {
+        if (!provider.capabilities.imageToImage) {
+          throw new AppError(
+            `AI provider "${provider.name}" does not support redesigns`,
+            400,
+            "REDESIGN_NOT_SUPPORTED"
+          );
+        }
+
+        redesign = {
+          ...(await this.resolveRedesignSource(
+            roomId,
+            room.originalImageUrl,
+            designData.uploadId
+          )),
+          strength: designData.strength ?? DEFAULT_REDESIGN_STRENGTH,
+        };
       }
 
-      // Create initial design record with PENDING status
-      const design = await this.prisma.design.create({
-        data: {
-          roomId,
-          imageUrl: "", // Will be updated after generation
-          prompt: customPrompt || "", // Will be updated with generated prompt
-          aiProvider,
-          status: DesignStatus.PENDING,
-        },
-      });
-
-      // Process design generation asynchronously
-      this.processDesignGeneration(
-        design.id,
-        room,
-        customPrompt,
-        aiProvider
-      ).catch((error) => {
-        logger.error("Design generation processing failed:", error);
-        // Update design status to FAILED
-        this.prisma.design
-          .update({
-            where: { id: design.id },
-            data: {
-              status: DesignStatus.FAILED,
-              error: error.message || "Design generation failed",
-            },
-          })
-          .catch((updateError) => {
-            logger.error(
-              "Failed to update design status to FAILED:",
-              updateError
-            );
-          });
-      });
-
-      logger.info("Design generation initiated", {
-        designId: design.id,
+      const queuedDesign = await this.createQueuedDesign(userId, provider, {
         roomId,
-        userId,
-        aiProvider,
+        prompt: customPrompt || "",
+        parentDesignId,
+        request: { customPrompt, aiProvider, mode, parameters, ...redesign },
+        inputs: {
+          mode,
+          customPrompt,
+          aiProvider: provider.name,
+          uploadId: redesign?.uploadId,
+          strength: redesign?.strength,
+          parameters,
+          ...this.roomInputs(room, room.project.style),
+        },
       });
 
-      return this.formatDesignResponse(design);
+      return this.formatDesignResponse(queuedDesign);
     } catch (error) {
       logger.error("Design generation initiation failed:", error);
 
@@ -108,81 +143,751 @@ export class DesignService {
   }
 
   /**
-   * Process design generation (async)
+   * Edit the masked region of a completed design. The result is a new
+   * design whose parentDesignId points at the edited one.
+   */
+  async editDesign(
+    designId: string,
+    userId: string,
+    data: EditDesignDto,
+    mask: Express.Multer.File
+  ): Promise<any> {
+    try {
+      const parent = await this.verifyDesignAccess(designId, userId, "edit");
+
+      if (parent.status !== DesignStatus.COMPLETED) {
+        throw new AppError(
+          "Only completed designs can be edited",
+          409,
+          "DESIGN_NOT_COMPLETED"
+        );
+      }
+
+      const provider = this.getEditProvider(
+        data.aiProvider || parent.aiProvider
+      );
+
+      const maskUpload = await CloudinaryUtil.uploadImage(mask.buffer, {
+        folder: `interior-design/user-${userId}/masks`,
+      });
+
+      // Source and mask get the same crop so they stay aligned
+      const sourceImageUrl = parent.cloudinaryId
+        ? CloudinaryUtil.generateAIProcessingUrl(parent.cloudinaryId)
+        : parent.imageUrl;
+      const maskImageUrl = CloudinaryUtil.generateAIProcessingUrl(
+        maskUpload.public_id
+      );
+
+      const queuedDesign = await this.createQueuedDesign(userId, provider, {
+        roomId: parent.roomId,
+        prompt: data.instruction,
+        parentDesignId: parent.id,
+        request: {
+          customPrompt: data.instruction,
+          aiProvider: provider.name,
+          mode: "edit",
+          sourceImageUrl,
+          maskImageUrl,
+          maskCloudinaryId: maskUpload.public_id,
+        },
+        inputs: {
+          mode: "edit",
+          customPrompt: data.instruction,
+          aiProvider: provider.name,
+          ...this.roomInputs(parent.room, parent.room.project.style),
+        },
+      });
+
+      return this.formatDesignResponse(queuedDesign);
+    } catch (error) {
+      logger.error("Design edit initiation failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError("Failed to edit design", 500, "DESIGN_EDIT_ERROR");
+    }
+  }
+
+  /**
+   * Snapshot of the room settings a design is generated from
+   */
+  private roomInputs(
+    room: Pick<
+      Room,
+      "type" | "length" | "width" | "height" | "materials" | "ambientColor"
+    >,
+    style: string
+  ): Partial<DesignInputs> {
+    return {
+      roomType: room.type as AIPromptData["roomType"],
+      style: style as AIPromptData["style"],
+      dimensions: {
+        length: room.length,
+        width: room.width,
+        height: room.height,
+      },
+      materials: room.materials,
+      ambientColor: room.ambientColor || undefined,
+    };
+  }
+
+  /**
+   * Resolve a provider that can inpaint, for design edits
+   */
+  private getEditProvider(name: string): ImageProvider {
+    const provider = ProviderRegistry.get(name);
+
+    if (!provider.capabilities.inpainting) {
+      throw new AppError(
+        `AI provider "${provider.name}" does not support editing designs`,
+        400,
+        "INPAINTING_NOT_SUPPORTED"
+      );
+    }
+
+    return provider;
+  }
+
+  /**
+   * Create a PENDING design, charge for it and queue its generation
+   */
+  private async createQueuedDesign(
+    userId: string,
+    provider: ImageProvider,
+    data: {
+      roomId: string;
+      prompt: string;
+      request: Record<string, any>;
+      inputs: DesignInputs;
+      parentDesignId?: string;
+    }
+  ): Promise<any> {
+    const credits = this.creditService.creditsForCost(
+      this.aiService.estimateGenerationCost(
+        provider.name,
+        data.inputs.parameters?.numOutputs ?? provider.defaultOutputs
+      ).estimatedCost
+    );
+
+    // Create the PENDING design and charge for it atomically, so a design
+    // that exceeds the quota is never created
+    const design = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.design.create({
+        data: {
+          roomId: data.roomId,
+          parentDesignId: data.parentDesignId,
+          imageUrl: "", // Will be updated after generation
+          prompt: data.prompt, // Will be updated with generated prompt
+          aiProvider: provider.name,
+          status: DesignStatus.PENDING,
+          inputs: data.inputs,
+          metadata: {
+            request: data.request,
+            credits,
+          },
+        },
+      });
+
+      await this.creditService.debitForDesign(
+        tx,
+        userId,
+        created.id,
+        credits
+      );
+
+      return created;
+    });
+
+    // Hand generation off to the worker through the queue
+    const queuedDesign = await this.enqueueDesign(design.id);
+
+    logger.info("Design generation initiated", {
+      designId: design.id,
+      jobId: queuedDesign.jobId,
+      roomId: data.roomId,
+      parentDesignId: data.parentDesignId,
+      userId,
+      aiProvider: provider.name,
+      mode: data.request.mode,
+      credits,
+    });
+
+    return queuedDesign;
+  }
+
+  /**
+   * Enqueue a generation job and link it to the design
+   */
+  private async enqueueDesign(designId: string): Promise<any> {
+    try {
+      const job = await DesignQueue.enqueue(designId);
+
+      return await this.prisma.design.update({
+        where: { id: designId },
+        data: { jobId: String(job.id) },
+      });
+    } catch (error) {
+      logger.error("Failed to enqueue design generation:", error);
+
+      await this.markDesignFailed(
+        designId,
+        "Design generation could not be queued"
+      );
+
+      throw new AppError(
+        "Design generation is temporarily unavailable. Please try again later.",
+        503,
+        "QUEUE_UNAVAILABLE"
+      );
+    }
+  }
+
+  /**
+   * Process design generation (called by the queue worker)
    */
-  private async processDesignGeneration(
+  async processDesignGeneration(
     designId: string,
-    room: any,
-    customPrompt?: string,
-    aiProvider: "openai" | "replicate" = "replicate"
+    options: { isFinalAttempt?: boolean } = {}
   ): Promise<void> {
+    const { isFinalAttempt = true } = options;
     const startTime = Date.now();
 
+    const design = await this.prisma.design.findUnique({
+      where: { id: designId },
+      include: {
+        room: {
+          include: {
+            project: {
+              select: {
+                userId: true,
+                organizationId: true,
+                style: true,
+                type: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!design) {
+      // Design was deleted while the job was waiting
+      logger.warn("Skipping generation for missing design", { designId });
+      return;
+    }
+
+    if (!this.isActiveStatus(design.status)) {
+      logger.warn("Skipping generation for finished design", {
+        designId,
+        status: design.status,
+      });
+      return;
+    }
+
+    const request = (design.metadata as any)?.request || {};
+    const aiProvider: string = request.aiProvider || design.aiProvider;
+    const room = design.room;
+
+    // Cancellation, or the reaper giving up on the design, aborts the
+    // provider call in flight
+    const controller = new AbortController();
+    const stopWatching = await this.watchForStop(designId, controller);
+
+    // Re-hosted images, removed again if the design stops before saving them
+    let persistedIds: string[] = [];
+
     try {
-      // Update status to PROCESSING
-      await this.prisma.design.update({
-        where: { id: designId },
-        data: { status: DesignStatus.PROCESSING },
+      // Update status to PROCESSING unless it was cancelled meanwhile
+      const { count } = await this.prisma.design.updateMany({
+        where: {
+          id: designId,
+          status: { in: [DesignStatus.PENDING, DesignStatus.PROCESSING] },
+        },
+        data: { status: DesignStatus.PROCESSING, error: null, errorCode: null },
+      });
+
+      if (count === 0) {
+        logger.warn("Skipping generation for cancelled design", { designId });
+        return;
+      }
+
+      await DesignEvents.publish({
+        type: "status",
+        designId,
+        roomId: design.roomId,
+        status: DesignStatus.PROCESSING,
       });
 
       // Prepare AI prompt data
       const promptData: AIPromptData = {
-        roomType: room.type,
-        style: room.project.style,
+        roomType: room.type as AIPromptData["roomType"],
+        style: room.project.style as AIPromptData["style"],
         dimensions: {
           length: room.length,
           width: room.width,
           height: room.height,
         },
         materials: room.materials,
-        ambientColor: room.ambientColor,
-        customPrompt,
+        ambientColor: room.ambientColor || undefined,
+        customPrompt:
+          request.mode === "edit" ? undefined : request.customPrompt,
+        editInstruction:
+          request.mode === "edit" ? request.customPrompt : undefined,
       };
 
       // Generate design using AI service
       const aiResult = await this.aiService.generateDesign(promptData, {
         provider: aiProvider,
-        inputImageUrl: room.originalImageUrl,
+        mode: request.mode || "generate",
+        inputImageUrl: request.sourceImageUrl,
+        maskImageUrl: request.maskImageUrl,
+        strength: request.strength,
+        parameters: request.parameters,
+        signal: controller.signal,
+        onProgress: (stage) => {
+          DesignEvents.publish({
+            type: "progress",
+            designId,
+            roomId: design.roomId,
+            status: DesignStatus.PROCESSING,
+            stage,
+          });
+        },
+      });
+
+      // Provider URLs expire, so re-host every image on Cloudinary
+      const images = await this.persistGeneratedImages(
+        room.project.userId,
+        designId,
+        aiResult.imageUrls
+      );
+      const imageUrls = images.map((image) => image.url);
+      persistedIds = images
+        .map((image) => image.publicId)
+        .filter((publicId): publicId is string => !!publicId);
+
+      await DesignEvents.publish({
+        type: "progress",
+        designId,
+        roomId: design.roomId,
+        status: DesignStatus.PROCESSING,
+        stage: "image_persisted",
       });
 
       const processingTime = Date.now() - startTime;
 
-      // Update design with results
+      // Update design with results; the first image starts out selected.
+      // Fails with P2025 if the design was cancelled or reaped meanwhile.
       await this.prisma.design.update({
-        where: { id: designId },
+        where: { id: designId, status: DesignStatus.PROCESSING },
         data: {
-          imageUrl: aiResult.imageUrls[0], // Use first generated image
+          imageUrl: imageUrls[0],
+          cloudinaryId: images[0].publicId,
           prompt: aiResult.prompt,
+          // Record the provider that produced the images, which may be a
+          // fallback; the requested one stays in metadata
+          aiProvider: aiResult.metadata.provider,
           status: DesignStatus.COMPLETED,
           processingTime,
+          error: null,
+          errorCode: null,
           metadata: {
             ...aiResult.metadata,
-            allImageUrls: aiResult.imageUrls, // Store all generated images
+            request,
+          },
+          variants: {
+            deleteMany: {},
+            create: images.map((image, index) => ({
+              index,
+              imageUrl: image.url,
+              cloudinaryId: image.publicId,
+              seed: aiResult.seeds?.[index] ?? null,
+              isSelected: index === 0,
+            })),
           },
         },
       });
 
+      await DesignEvents.publish({
+        type: "completed",
+        designId,
+        roomId: design.roomId,
+        status: DesignStatus.COMPLETED,
+        imageUrl: imageUrls[0],
+        allImageUrls: imageUrls,
+      });
+
       logger.info("Design generation completed successfully", {
         designId,
         processingTime,
-        imageCount: aiResult.imageUrls.length,
-        aiProvider,
+        imageCount: imageUrls.length,
+        aiProvider: aiResult.metadata.provider,
+        requestedProvider: aiProvider,
       });
     } catch (error) {
       const processingTime = Date.now() - startTime;
+      const message = error instanceof Error ? error.message : "Unknown error";
+
+      if (controller.signal.aborted || this.isRecordNotFound(error)) {
+        // Already CANCELLED, FAILED or deleted; only the images are left
+        logger.info("Design generation stopped", { designId, reason: message });
+        await this.assetCleanupService.enqueueDeletion(
+          persistedIds,
+          `design:${designId}`
+        );
+        return;
+      }
 
       logger.error("Design generation processing failed:", error);
 
-      // Update design status to FAILED
-      await this.prisma.design.update({
+      if (this.isRetryableError(error) && !isFinalAttempt) {
+        // Put the design back in line; the queue will retry with backoff
+        const { count } = await this.prisma.design.updateMany({
+          where: { id: designId, status: DesignStatus.PROCESSING },
+          data: {
+            status: DesignStatus.PENDING,
+            processingTime,
+            error: message,
+          },
+        });
+
+        if (count > 0) {
+          await DesignEvents.publish({
+            type: "status",
+            designId,
+            roomId: design.roomId,
+            status: DesignStatus.PENDING,
+            error: message,
+          });
+        }
+      } else {
+        await this.markDesignFailed(designId, message, {
+          processingTime,
+          errorCode: error instanceof AppError ? error.code : undefined,
+        });
+      }
+
+      throw error;
+    } finally {
+      stopWatching();
+    }
+  }
+
+  /**
+   * Abort the controller when the design is cancelled or failed elsewhere.
+   * Returns the function that stops watching.
+   */
+  private async watchForStop(
+    designId: string,
+    controller: AbortController
+  ): Promise<() => void> {
+    try {
+      return await DesignEvents.subscribeToDesign(designId, (event) => {
+        if (event.type === "cancelled" || event.type === "failed") {
+          controller.abort();
+        }
+      });
+    } catch (error) {
+      // Generation still works; only cancellation of this run is lost
+      logger.warn("Failed to watch design for cancellation", {
+        designId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      return () => {};
+    }
+  }
+
+  /**
+   * Cancel a queued or in-flight generation and refund its credits
+   */
+  async cancelDesign(designId: string, userId: string): Promise<any> {
+    try {
+      const design = await this.verifyDesignAccess(designId, userId, "edit");
+
+      if (!(await this.stopGeneration(design, "Design generation cancelled"))) {
+        throw new AppError(
+          "Only pending or processing designs can be cancelled",
+          409,
+          "DESIGN_NOT_CANCELLABLE"
+        );
+      }
+
+      logger.info("Design generation cancelled", {
+        designId,
+        userId,
+        previousStatus: design.status,
+      });
+
+      const updated = await this.prisma.design.findUnique({
         where: { id: designId },
+        include: { variants: { orderBy: { index: "asc" } } },
+      });
+
+      return this.formatDesignResponse(updated);
+    } catch (error) {
+      logger.error("Design cancellation failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        "Failed to cancel design",
+        500,
+        "DESIGN_CANCEL_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Mark an active design CANCELLED, stop its job and refund its credits.
+   * Returns false when the design was no longer pending or processing.
+   */
+  private async stopGeneration(
+    design: { id: string; roomId: string; jobId: string | null },
+    reason: string
+  ): Promise<boolean> {
+    // Guarded so a design finishing at the same moment is left alone
+    const { count } = await this.prisma.design.updateMany({
+      where: {
+        id: design.id,
+        status: { in: [DesignStatus.PENDING, DesignStatus.PROCESSING] },
+      },
+      data: { status: DesignStatus.CANCELLED },
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    await this.removeWaitingJob(design.jobId);
+
+    // Tells the worker to abort the provider call, and SSE clients
+    await DesignEvents.publish({
+      type: "cancelled",
+      designId: design.id,
+      roomId: design.roomId,
+      status: DesignStatus.CANCELLED,
+    });
+
+    await this.creditService.refundDesign(design.id, reason);
+
+    return true;
+  }
+
+  /**
+   * Drop a generation job that has not started yet (best effort; the
+   * worker skips cancelled designs anyway)
+   */
+  private async removeWaitingJob(jobId: string | null): Promise<void> {
+    if (!jobId) {
+      return;
+    }
+
+    try {
+      const job = await DesignQueue.getJob(jobId);
+
+      if (job && ["waiting", "delayed"].includes(await job.getState())) {
+        await job.remove();
+      }
+    } catch (error) {
+      logger.warn("Failed to remove cancelled design job", {
+        jobId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  /**
+   * Upload provider images to the user's Cloudinary design folder
+   */
+  private async persistGeneratedImages(
+    userId: string,
+    designId: string,
+    imageUrls: string[]
+  ): Promise<Array<{ url: string; publicId: string | null }>> {
+    if (!config.upload.persistGeneratedImages) {
+      // Offline mode: keep the provider URLs as they are
+      return imageUrls.map((url) => ({ url, publicId: null }));
+    }
+
+    return Promise.all(
+      imageUrls.map(async (imageUrl, index) => {
+        const result = await CloudinaryUtil.uploadFromUrl(imageUrl, {
+          folder: `interior-design/user-${userId}/designs`,
+          public_id: `${designId}_${index}`,
+        });
+
+        return { url: result.secure_url, publicId: result.public_id };
+      })
+    );
+  }
+
+  /**
+   * Whether a generation error is worth retrying
+   */
+  isRetryableError(error: unknown): boolean {
+    if (error instanceof AppError) {
+      // Client errors (e.g. content policy violations) will fail again
+      return error.statusCode >= 500 || error.statusCode === 429;
+    }
+
+    return true;
+  }
+
+  /**
+   * Mark a pending or processing design as FAILED and refund its credits.
+   * Returns false if the design had already finished or been cancelled.
+   */
+  async markDesignFailed(
+    designId: string,
+    message: string,
+    options: { processingTime?: number; errorCode?: string } = {}
+  ): Promise<boolean> {
+    const { processingTime, errorCode } = options;
+
+    try {
+      const { count } = await this.prisma.design.updateMany({
+        where: {
+          id: designId,
+          status: { in: [DesignStatus.PENDING, DesignStatus.PROCESSING] },
+        },
         data: {
           status: DesignStatus.FAILED,
-          processingTime,
-          error: error instanceof Error ? error.message : "Unknown error",
+          error: message,
+          errorCode: errorCode ?? null,
+          ...(processingTime !== undefined && { processingTime }),
         },
       });
+
+      if (count === 0) {
+        return false;
+      }
+
+      const design = await this.prisma.design.findUniqueOrThrow({
+        where: { id: designId },
+        select: { roomId: true },
+      });
+
+      await DesignEvents.publish({
+        type: "failed",
+        designId,
+        roomId: design.roomId,
+        status: DesignStatus.FAILED,
+        error: message,
+      });
+
+      await this.creditService.refundDesign(
+        designId,
+        "Design generation failed"
+      );
+
+      return true;
+    } catch (error) {
+      logger.error("Failed to update design status to FAILED:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Fail designs that have been PROCESSING for longer than the stuck
+   * timeout (run by the maintenance scheduler). Their workers are told to
+   * abort through the failed event.
+   */
+  async failStuckDesigns(): Promise<{ found: number; failed: number }> {
+    const timeoutMs = config.queue.design.stuckTimeoutMs;
+
+    // updatedAt is bumped when the worker moves a design to PROCESSING
+    const designs = await this.prisma.design.findMany({
+      where: {
+        status: DesignStatus.PROCESSING,
+        updatedAt: { lt: new Date(Date.now() - timeoutMs) },
+      },
+      select: { id: true },
+    });
+
+    let failed = 0;
+    for (const design of designs) {
+      const marked = await this.markDesignFailed(
+        design.id,
+        `Design generation timed out after ${Math.round(timeoutMs / 1000)}s`,
+        { errorCode: "TIMEOUT" }
+      );
+
+      if (marked) {
+        failed++;
+      }
     }
+
+    if (designs.length > 0) {
+      logger.warn("Failed stuck designs", { found: designs.length, failed });
+    }
+
+    return { found: designs.length, failed };
+  }
+
+  /**
+   * Re-enqueue or fail designs whose jobs were lost (e.g. after a crash)
+   */
+  async recoverOrphanedDesigns(): Promise<{
+    requeued: number;
+    failed: number;
+  }> {
+    const activeStates = ["waiting", "active", "delayed", "paused"];
+    const maxAgeMs = config.queue.design.recoveryMaxAgeMs;
+    let requeued = 0;
+    let failed = 0;
+
+    const designs = await this.prisma.design.findMany({
+      where: {
+        status: { in: [DesignStatus.PENDING, DesignStatus.PROCESSING] },
+      },
+      select: { id: true, jobId: true, createdAt: true },
+    });
+
+    for (const design of designs) {
+      try {
+        const job = design.jobId
+          ? await DesignQueue.getJob(design.jobId)
+          : null;
+
+        if (job && activeStates.includes(await job.getState())) {
+          // Still owned by the queue; stalled jobs are retried by Bull itself
+          continue;
+        }
+
+        if (job) {
+          await job.remove();
+        }
+
+        if (Date.now() - design.createdAt.getTime() > maxAgeMs) {
+          await this.markDesignFailed(
+            design.id,
+            "Design generation was interrupted"
+          );
+          failed++;
+        } else {
+          await this.enqueueDesign(design.id);
+          requeued++;
+        }
+      } catch (error) {
+        logger.error("Failed to recover orphaned design:", {
+          designId: design.id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    logger.info("Orphaned design recovery completed", {
+      totalFound: designs.length,
+      requeued,
+      failed,
+    });
+
+    return { requeued, failed };
   }
 
   /**
@@ -202,10 +907,12 @@ export class DesignService {
                   type: true,
                   style: true,
                   userId: true,
+                  organizationId: true,
                 },
               },
             },
           },
+          variants: { orderBy: { index: "asc" } },
         },
       });
 
@@ -213,14 +920,12 @@ export class DesignService {
         throw new AppError("Design not found", 404, "DESIGN_NOT_FOUND");
       }
 
-      // Check ownership
-      if (design.room.project.userId !== userId) {
-        throw new AppError(
-          "Access denied. You can only view your own designs.",
-          403,
-          "ACCESS_DENIED"
-        );
-      }
+      // Check access
+      await this.accessService.authorizeProject(
+        design.room.project,
+        userId,
+        "view"
+      );
 
       return this.formatDesignResponse(design, true);
     } catch (error) {
@@ -237,52 +942,151 @@ export class DesignService {
   /**
    * Get designs for a room
    */
-  async getRoomDesigns(roomId: string, userId: string): Promise<any[]> {
+  async getRoomDesigns(
+    roomId: string,
+    userId: string,
+    options: { tree?: boolean } = {}
+  ): Promise<any[]> {
     try {
-      // First verify the user owns the room
-      const room = await this.prisma.room.findUnique({
-        where: { id: roomId },
+      // First verify the user can see the room
+      await this.verifyRoomAccess(roomId, userId);
+
+      // Get designs for the room
+      const designs = await this.prisma.design.findMany({
+        where: { roomId },
         include: {
-          project: {
-            select: { userId: true },
-          },
+          variants: { orderBy: { index: "asc" } },
         },
+        orderBy: { createdAt: "desc" },
       });
 
-      if (!room) {
-        throw new AppError("Room not found", 404, "ROOM_NOT_FOUND");
+      const formatted = designs.map((design) =>
+        this.formatDesignResponse(design)
+      );
+
+      return options.tree ? this.buildDesignTree(formatted) : formatted;
+    } catch (error) {
+      logger.error("Get room designs failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
       }
 
-      if (room.project.userId !== userId) {
-        throw new AppError(
-          "Access denied. You can only view designs from your own rooms.",
-          403,
-          "ACCESS_DENIED"
-        );
-      }
+      throw new AppError(
+        "Failed to get room designs",
+        500,
+        "GET_ROOM_DESIGNS_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Get a room's design lineage: each version lists what changed in its
+   * inputs compared to the design it was regenerated or edited from
+   */
+  async getDesignHistory(roomId: string, userId: string): Promise<any[]> {
+    try {
+      await this.verifyRoomAccess(roomId, userId);
 
-      // Get designs for the room
       const designs = await this.prisma.design.findMany({
         where: { roomId },
         orderBy: { createdAt: "desc" },
       });
 
-      return designs.map((design) => this.formatDesignResponse(design));
+      const tree = this.buildDesignTree(
+        designs.map((design) => this.formatDesignResponse(design))
+      );
+
+      const annotate = (nodes: any[], parentInputs?: Partial<DesignInputs>) => {
+        for (const node of nodes) {
+          node.changes = parentInputs
+            ? this.diffInputs(parentInputs, node.inputs ?? {})
+            : [];
+          annotate(node.children, node.inputs ?? {});
+        }
+      };
+      annotate(tree);
+
+      return tree;
     } catch (error) {
-      logger.error("Get room designs failed:", error);
+      logger.error("Get design history failed:", error);
 
       if (error instanceof AppError) {
         throw error;
       }
 
       throw new AppError(
-        "Failed to get room designs",
+        "Failed to get design history",
         500,
-        "GET_ROOM_DESIGNS_ERROR"
+        "GET_DESIGN_HISTORY_ERROR"
       );
     }
   }
 
+  /**
+   * Nest designs under the design they were regenerated or edited from.
+   * Roots stay newest first; children are listed oldest first.
+   */
+  private buildDesignTree(designs: any[]): any[] {
+    const byId = new Map<string, any>();
+    designs.forEach((design) =>
+      byId.set(design.id, { ...design, children: [] })
+    );
+
+    const roots: any[] = [];
+    for (const design of byId.values()) {
+      const parent = design.parentDesignId && byId.get(design.parentDesignId);
+      if (parent) {
+        parent.children.unshift(design);
+      } else {
+        roots.push(design);
+      }
+    }
+
+    return roots;
+  }
+
+  /**
+   * Fields whose value differs between two sets of design inputs
+   */
+  private diffInputs(
+    from: Partial<DesignInputs>,
+    to: Partial<DesignInputs>
+  ): DesignInputChange[] {
+    const fields = new Set([...Object.keys(from), ...Object.keys(to)]);
+
+    return [...fields]
+      .map((field) => field as keyof DesignInputs)
+      .filter(
+        (field) => JSON.stringify(from[field]) !== JSON.stringify(to[field])
+      )
+      .map((field) => ({
+        field,
+        from: from[field] ?? null,
+        to: to[field] ?? null,
+      }));
+  }
+
+  /**
+   * Verify the user can see the room
+   */
+  async verifyRoomAccess(roomId: string, userId: string): Promise<void> {
+    const room = await this.prisma.room.findUnique({
+      where: { id: roomId },
+      include: {
+        project: {
+          select: { userId: true, organizationId: true },
+        },
+      },
+    });
+
+    if (!room) {
+      throw new AppError("Room not found", 404, "ROOM_NOT_FOUND");
+    }
+
+    await this.accessService.authorizeProject(room.project, userId, "view");
+  }
+
   /**
    * Get designs with pagination and filters
    */
@@ -299,15 +1103,22 @@ export class DesignService {
     };
   }> {
     try {
-      const { page = 1, limit = 20, roomId, status, aiProvider } = query;
+      const {
+        page = 1,
+        limit = 20,
+        roomId,
+        status,
+        aiProvider,
+        reviewStatus,
+        isFavorite,
+        minRating,
+      } = query;
       const skip = (page - 1) * limit;
 
       // Build where clause
       const whereClause: any = {
         room: {
-          project: {
-            userId,
-          },
+          project: this.accessService.accessibleProjectsWhere(userId),
         },
       };
 
@@ -323,6 +1134,18 @@ export class DesignService {
         whereClause.aiProvider = aiProvider;
       }
 
+      if (reviewStatus) {
+        whereClause.reviewStatus = reviewStatus;
+      }
+
+      if (isFavorite !== undefined) {
+        whereClause.isFavorite = isFavorite;
+      }
+
+      if (minRating) {
+        whereClause.rating = { gte: minRating };
+      }
+
       // Get total count
       const total = await this.prisma.design.count({
         where: whereClause,
@@ -347,6 +1170,7 @@ export class DesignService {
               },
             },
           },
+          variants: { orderBy: { index: "asc" } },
         },
         orderBy: { createdAt: "desc" },
         skip,
@@ -373,16 +1197,20 @@ export class DesignService {
   /**
    * Delete design
    */
-  async deleteDesign(designId: string, userId: string): Promise<void> {
+  async deleteDesign(
+    designId: string,
+    userId: string,
+    context?: RequestContext
+  ): Promise<void> {
     try {
-      // First check if design exists and user owns it
+      // First check if design exists and user can edit it
       const existingDesign = await this.prisma.design.findUnique({
         where: { id: designId },
         include: {
           room: {
             include: {
               project: {
-                select: { userId: true },
+                select: { userId: true, organizationId: true },
               },
             },
           },
@@ -393,24 +1221,47 @@ export class DesignService {
         throw new AppError("Design not found", 404, "DESIGN_NOT_FOUND");
       }
 
-      if (existingDesign.room.project.userId !== userId) {
-        throw new AppError(
-          "Access denied. You can only delete your own designs.",
-          403,
-          "ACCESS_DENIED"
+      await this.accessService.authorizeProject(
+        existingDesign.room.project,
+        userId,
+        "edit"
+      );
+
+      // The worker skips a design that disappears, so refund it here
+      if (this.isActiveStatus(existingDesign.status)) {
+        await this.stopGeneration(
+          existingDesign,
+          "Design deleted before generation finished"
         );
       }
 
+      const assets =
+        await this.assetCleanupService.collectDesignAssets(designId);
+
       // Delete design
       await this.prisma.design.delete({
         where: { id: designId },
       });
 
+      await this.assetCleanupService.enqueueDeletion(
+        assets,
+        `design:${designId}`
+      );
+
       logger.info("Design deleted successfully", {
         designId,
         userId,
         roomId: existingDesign.roomId,
       });
+
+      await this.auditService.log({
+        userId,
+        action: AuditAction.DESIGN_DELETED,
+        resource: "design",
+        resourceId: designId,
+        metadata: { roomId: existingDesign.roomId },
+        context,
+      });
     } catch (error) {
       logger.error("Design deletion failed:", error);
 
@@ -435,13 +1286,11 @@ export class DesignService {
     successRate: number;
   }> {
     try {
-      // Get all user designs through their rooms
+      // Get all designs in projects the user can access
       const designs = await this.prisma.design.findMany({
         where: {
           room: {
-            project: {
-              userId,
-            },
+            project: this.accessService.accessibleProjectsWhere(userId),
           },
         },
         include: {
@@ -535,13 +1384,32 @@ export class DesignService {
     }
   }
 
+  /**
+   * List enabled AI providers and their capabilities
+   */
+  getProviders(): Array<{
+    name: string;
+    isDefault: boolean;
+    capabilities: ImageProviderCapabilities;
+    defaultOutputs: number;
+    costPerImage: number;
+  }> {
+    return ProviderRegistry.list().map((provider) => ({
+      name: provider.name,
+      isDefault: provider.name === config.ai.defaultProvider,
+      capabilities: provider.capabilities,
+      defaultOutputs: provider.defaultOutputs,
+      costPerImage: provider.costPerImage,
+    }));
+  }
+
   /**
    * Regenerate design
    */
   async regenerateDesign(
     designId: string,
     userId: string,
-    options?: { aiProvider?: "openai" | "replicate"; customPrompt?: string }
+    options?: { aiProvider?: string; customPrompt?: string }
   ): Promise<any> {
     try {
       // Get original design
@@ -553,6 +1421,7 @@ export class DesignService {
               project: {
                 select: {
                   userId: true,
+                  organizationId: true,
                   style: true,
                   type: true,
                 },
@@ -566,23 +1435,65 @@ export class DesignService {
         throw new AppError("Design not found", 404, "DESIGN_NOT_FOUND");
       }
 
-      // Check ownership
-      if (originalDesign.room.project.userId !== userId) {
-        throw new AppError(
-          "Access denied. You can only regenerate your own designs.",
-          403,
-          "ACCESS_DENIED"
+      // Check access
+      await this.accessService.authorizeProject(
+        originalDesign.room.project,
+        userId,
+        "edit"
+      );
+
+      // Create a child of the original in the same mode. Reuse what the
+      // user asked for, not the expanded prompt.
+      const inputs = (originalDesign.inputs ?? {}) as Partial<DesignInputs>;
+      const request = (originalDesign.metadata as any)?.request || {};
+      const mode = inputs.mode ?? request.mode;
+      const customPrompt =
+        options?.customPrompt ?? inputs.customPrompt ?? request.customPrompt;
+
+      if (mode === "edit") {
+        // Re-run the edit on the same source image and mask
+        const provider = this.getEditProvider(
+          options?.aiProvider || originalDesign.aiProvider
         );
+        const queuedDesign = await this.createQueuedDesign(userId, provider, {
+          roomId: originalDesign.roomId,
+          prompt: customPrompt,
+          parentDesignId: originalDesign.id,
+          request: { ...request, customPrompt, aiProvider: provider.name },
+          inputs: {
+            mode,
+            customPrompt,
+            aiProvider: provider.name,
+            ...this.roomInputs(
+              originalDesign.room,
+              originalDesign.room.project.style
+            ),
+          },
+        });
+
+        return this.formatDesignResponse(queuedDesign);
       }
 
-      // Create new design based on original
-      const newDesign = await this.generateDesign(userId, {
-        roomId: originalDesign.roomId,
-        customPrompt: options?.customPrompt || originalDesign.prompt,
-        aiProvider:
-          options?.aiProvider ||
-          (originalDesign.aiProvider as "openai" | "replicate"),
-      });
+      // Same parameters but a fresh seed, so the result is a new variation.
+      // Generating with the seed from metadata.parameters reproduces it.
+      const { seed, ...parameters } =
+        inputs.parameters ?? request.parameters ?? {};
+
+      const newDesign = await this.generateDesign(
+        userId,
+        {
+          roomId: originalDesign.roomId,
+          customPrompt,
+          aiProvider: options?.aiProvider || originalDesign.aiProvider,
+          mode,
+          ...(Object.keys(parameters).length > 0 && { parameters }),
+          ...(mode === "redesign" && {
+            uploadId: (inputs.uploadId ?? request.uploadId) || undefined,
+            strength: inputs.strength ?? request.strength,
+          }),
+        },
+        originalDesign.id
+      );
 
       logger.info("Design regenerated successfully", {
         originalDesignId: designId,
@@ -606,6 +1517,335 @@ export class DesignService {
     }
   }
 
+  /**
+   * Get the generated variants of a design
+   */
+  async getDesignVariants(designId: string, userId: string): Promise<any[]> {
+    try {
+      await this.verifyDesignAccess(designId, userId, "view");
+
+      const variants = await this.prisma.designVariant.findMany({
+        where: { designId },
+        orderBy: { index: "asc" },
+      });
+
+      return variants.map((variant) => this.formatVariantResponse(variant));
+    } catch (error) {
+      logger.error("Get design variants failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        "Failed to get design variants",
+        500,
+        "GET_DESIGN_VARIANTS_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Promote a variant to the design's primary image
+   */
+  async selectDesignVariant(
+    designId: string,
+    variantId: string,
+    userId: string
+  ): Promise<any> {
+    try {
+      await this.verifyDesignAccess(designId, userId, "edit");
+
+      const variant = await this.prisma.designVariant.findFirst({
+        where: { id: variantId, designId },
+      });
+
+      if (!variant) {
+        throw new AppError("Variant not found", 404, "VARIANT_NOT_FOUND");
+      }
+
+      const [, , design] = await this.prisma.$transaction([
+        this.prisma.designVariant.updateMany({
+          where: { designId, isSelected: true },
+          data: { isSelected: false },
+        }),
+        this.prisma.designVariant.update({
+          where: { id: variantId },
+          data: { isSelected: true },
+        }),
+        this.prisma.design.update({
+          where: { id: designId },
+          data: {
+            imageUrl: variant.imageUrl,
+            cloudinaryId: variant.cloudinaryId,
+          },
+          include: {
+            variants: { orderBy: { index: "asc" } },
+          },
+        }),
+      ]);
+
+      logger.info("Design variant selected", {
+        designId,
+        variantId,
+        userId,
+      });
+
+      return this.formatDesignResponse(design);
+    } catch (error) {
+      logger.error("Design variant selection failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        "Failed to select design variant",
+        500,
+        "VARIANT_SELECT_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Delete a variant that is not the design's primary image
+   */
+  async deleteDesignVariant(
+    designId: string,
+    variantId: string,
+    userId: string
+  ): Promise<void> {
+    try {
+      await this.verifyDesignAccess(designId, userId, "edit");
+
+      const variant = await this.prisma.designVariant.findFirst({
+        where: { id: variantId, designId },
+      });
+
+      if (!variant) {
+        throw new AppError("Variant not found", 404, "VARIANT_NOT_FOUND");
+      }
+
+      if (variant.isSelected) {
+        throw new AppError(
+          "The selected variant cannot be deleted. Select another variant first.",
+          409,
+          "VARIANT_SELECTED"
+        );
+      }
+
+      await this.prisma.designVariant.delete({
+        where: { id: variantId },
+      });
+
+      // Kept if an edit still uses the variant as its source image
+      if (variant.cloudinaryId) {
+        await this.assetCleanupService.enqueueDeletion(
+          [variant.cloudinaryId],
+          `variant:${variantId}`
+        );
+      }
+
+      logger.info("Design variant deleted", {
+        designId,
+        variantId,
+        userId,
+      });
+    } catch (error) {
+      logger.error("Design variant deletion failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        "Failed to delete design variant",
+        500,
+        "VARIANT_DELETE_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Update a design's review state, rating or favourite flag.
+   * A room has at most one approved design; approving another one
+   * moves the previous approval back to SHORTLISTED.
+   */
+  async reviewDesign(
+    designId: string,
+    userId: string,
+    review: ReviewDesignDto
+  ): Promise<any> {
+    try {
+      const design = await this.verifyDesignAccess(designId, userId, "edit");
+
+      if (design.status !== DesignStatus.COMPLETED) {
+        throw new AppError(
+          "Only completed designs can be reviewed",
+          409,
+          "DESIGN_NOT_COMPLETED"
+        );
+      }
+
+      const operations: Prisma.PrismaPromise<any>[] = [];
+      const isApproved = design.room.approvedDesignId === designId;
+
+      if (review.reviewStatus === DesignReviewStatus.APPROVED && !isApproved) {
+        operations.push(
+          this.prisma.design.updateMany({
+            where: {
+              roomId: design.roomId,
+              reviewStatus: DesignReviewStatus.APPROVED,
+            },
+            data: { reviewStatus: DesignReviewStatus.SHORTLISTED },
+          }),
+          this.prisma.room.update({
+            where: { id: design.roomId },
+            data: { approvedDesignId: designId },
+          })
+        );
+      } else if (
+        review.reviewStatus &&
+        review.reviewStatus !== DesignReviewStatus.APPROVED &&
+        isApproved
+      ) {
+        operations.push(
+          this.prisma.room.update({
+            where: { id: design.roomId },
+            data: { approvedDesignId: null },
+          })
+        );
+      }
+
+      operations.push(
+        this.prisma.design.update({
+          where: { id: designId },
+          data: {
+            reviewStatus: review.reviewStatus,
+            rating: review.rating,
+            isFavorite: review.isFavorite,
+          },
+          include: {
+            variants: { orderBy: { index: "asc" } },
+          },
+        })
+      );
+
+      const results = await this.prisma.$transaction(operations);
+      const updated = results[results.length - 1];
+
+      logger.info("Design reviewed", {
+        designId,
+        userId,
+        ...review,
+      });
+
+      return this.formatDesignResponse(updated);
+    } catch (error) {
+      logger.error("Design review failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        "Failed to review design",
+        500,
+        "DESIGN_REVIEW_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Pick the redesign source: the given upload of the room, or the upload
+   * behind the room's photo. Cloudinary images are cropped and resized for
+   * the models on the way.
+   */
+  private async resolveRedesignSource(
+    roomId: string,
+    originalImageUrl: string | null,
+    uploadId?: string
+  ): Promise<{ uploadId: string | null; sourceImageUrl: string }> {
+    const upload = uploadId
+      ? await this.prisma.upload.findFirst({ where: { id: uploadId, roomId } })
+      : originalImageUrl
+        ? await this.prisma.upload.findFirst({
+            where: { roomId, url: originalImageUrl },
+            orderBy: { createdAt: "desc" },
+          })
+        : null;
+
+    if (uploadId && !upload) {
+      throw new AppError(
+        "Upload not found for this room",
+        404,
+        "UPLOAD_NOT_FOUND"
+      );
+    }
+
+    if (!upload && !originalImageUrl) {
+      throw new AppError(
+        "Upload a photo of the room before requesting a redesign",
+        400,
+        "SOURCE_IMAGE_REQUIRED"
+      );
+    }
+
+    return {
+      uploadId: upload?.id ?? null,
+      sourceImageUrl: upload?.cloudinaryId
+        ? CloudinaryUtil.generateAIProcessingUrl(upload.cloudinaryId)
+        : upload?.url || originalImageUrl!,
+    };
+  }
+
+  /**
+   * Verify the user may edit the design, returning it with its room
+   */
+  private async verifyDesignAccess(
+    designId: string,
+    userId: string,
+    permission: ProjectPermission
+  ) {
+    const design = await this.prisma.design.findUnique({
+      where: { id: designId },
+      include: {
+        room: {
+          include: {
+            project: {
+              select: { userId: true, organizationId: true, style: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!design) {
+      throw new AppError("Design not found", 404, "DESIGN_NOT_FOUND");
+    }
+
+    await this.accessService.authorizeProject(
+      design.room.project,
+      userId,
+      permission
+    );
+
+    return design;
+  }
+
+  private isActiveStatus(status: DesignStatus): boolean {
+    return (
+      status === DesignStatus.PENDING || status === DesignStatus.PROCESSING
+    );
+  }
+
+  private isRecordNotFound(error: unknown): boolean {
+    return (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2025"
+    );
+  }
+
   /**
    * Format design response
    */
@@ -616,12 +1856,19 @@ export class DesignService {
     const formatted = {
       id: design.id,
       roomId: design.roomId,
+      parentDesignId: design.parentDesignId,
       imageUrl: design.imageUrl,
+      cloudinaryId: design.cloudinaryId,
       prompt: design.prompt,
+      inputs: design.inputs,
       aiProvider: design.aiProvider,
       status: design.status,
+      reviewStatus: design.reviewStatus,
+      rating: design.rating,
+      isFavorite: design.isFavorite,
       processingTime: design.processingTime,
       error: design.error,
+      errorCode: design.errorCode,
       metadata: design.metadata,
       createdAt: design.createdAt.toISOString(),
       updatedAt: design.updatedAt.toISOString(),
@@ -649,9 +1896,48 @@ export class DesignService {
       };
     }
 
-    // Add all generated image URLs if available in metadata
-    if (design.metadata?.allImageUrls) {
-      (formatted as any).allImageUrls = design.metadata.allImageUrls;
+    // Add responsive URLs if the image is hosted on Cloudinary
+    if (design.cloudinaryId) {
+      (formatted as any).thumbnailUrl = CloudinaryUtil.generateThumbnailUrl(
+        design.cloudinaryId
+      );
+      (formatted as any).responsiveUrls = CloudinaryUtil.generateResponsiveUrls(
+        design.cloudinaryId
+      );
+    }
+
+    // Add generated variants if loaded
+    if (design.variants) {
+      (formatted as any).variants = design.variants.map((variant: any) =>
+        this.formatVariantResponse(variant)
+      );
+      (formatted as any).allImageUrls = design.variants.map(
+        (variant: any) => variant.imageUrl
+      );
+    }
+
+    return formatted;
+  }
+
+  /**
+   * Format design variant response
+   */
+  private formatVariantResponse(variant: any): any {
+    const formatted = {
+      id: variant.id,
+      designId: variant.designId,
+      index: variant.index,
+      imageUrl: variant.imageUrl,
+      cloudinaryId: variant.cloudinaryId,
+      seed: variant.seed,
+      isSelected: variant.isSelected,
+      createdAt: variant.createdAt.toISOString(),
+    };
+
+    if (variant.cloudinaryId) {
+      (formatted as any).thumbnailUrl = CloudinaryUtil.generateThumbnailUrl(
+        variant.cloudinaryId
+      );
     }
 
     return formatted;
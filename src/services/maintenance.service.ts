@@ -0,0 +1,330 @@
+import {
+  MaintenanceRunStatus,
+  MaintenanceTrigger,
+  Prisma,
+  PrismaClient,
+} from "@prisma/client";
+import {
+  AuditAction,
+  MaintenanceJobName,
+  MaintenanceRunQuery,
+  RequestContext,
+} from "../types";
+import { AuthService } from "./auth.service";
+import { UploadService } from "./upload.service";
+import { AssetCleanupService } from "./asset-cleanup.service";
+import { DesignService } from "./design.service";
+import { AuditService } from "./audit.service";
+import { MaintenanceQueue } from "../queues/maintenance.queue";
+import { RedisClient } from "../utils/redis";
+import { AppError } from "../middleware/error.middleware";
+import { config } from "../config/env";
+import logger from "../utils/logger";
+
+interface MaintenanceJob {
+  description: string;
+  run: () => Promise<Prisma.InputJsonObject>; // result counts
+}
+
+export class MaintenanceService {
+  private auditService: AuditService;
+  private jobs: Record<MaintenanceJobName, MaintenanceJob>;
+
+  constructor(private prisma: PrismaClient) {
+    this.auditService = new AuditService(prisma);
+
+    const authService = new AuthService(prisma);
+    const uploadService = new UploadService(prisma);
+    const assetCleanupService = new AssetCleanupService(prisma);
+    const designService = new DesignService(prisma);
+
+    this.jobs = {
+      "expired-sessions": {
+        description: "Delete sessions past their expiry",
+        run: () => authService.cleanupExpiredSessions(),
+      },
+      "orphaned-uploads": {
+        description: "Delete uploads not attached to a room for 7 days",
+        run: () => uploadService.cleanupOrphanedUploads(),
+      },
+      "asset-reconcile": {
+        description:
+          "Find Cloudinary assets the database no longer references; deletes them only when MAINTENANCE_ASSETS_APPLY is set",
+        run: async () => {
+          const report = await assetCleanupService.reconcile({
+            dryRun: !config.maintenance.applyAssetReconcile,
+          });
+
+          // Keep run history small: counts only, not the ID lists
+          return {
+            dryRun: report.dryRun,
+            scannedAssets: report.scannedAssets,
+            skippedRecent: report.skippedRecent,
+            orphanedAssets: report.orphanedAssets.length,
+            missingUploads: report.missingUploads.length,
+            deletedAssets: report.deletedAssets,
+            deletedUploads: report.deletedUploads,
+          };
+        },
+      },
+      "stuck-designs": {
+        description:
+          "Fail designs stuck in PROCESSING past DESIGN_STUCK_TIMEOUT_MS with a TIMEOUT error and refund them",
+        run: () => designService.failStuckDesigns(),
+      },
+    };
+  }
+
+  /**
+   * List the maintenance jobs with their schedule and latest run
+   */
+  async getJobs(): Promise<any[]> {
+    try {
+      const names = Object.keys(this.jobs) as MaintenanceJobName[];
+
+      const latestRuns = await Promise.all(
+        names.map((job) =>
+          this.prisma.maintenanceJobRun.findFirst({
+            where: { job },
+            orderBy: { startedAt: "desc" },
+          })
+        )
+      );
+
+      return names.map((job, index) => ({
+        name: job,
+        description: this.jobs[job].description,
+        schedule: config.maintenance.schedules[job] || null,
+        lastRun: latestRuns[index]
+          ? this.formatRunResponse(latestRuns[index])
+          : null,
+      }));
+    } catch (error) {
+      logger.error("Get maintenance jobs failed:", error);
+      throw new AppError(
+        "Failed to get maintenance jobs",
+        500,
+        "GET_MAINTENANCE_JOBS_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Get run history, newest first
+   */
+  async getRuns(query: MaintenanceRunQuery): Promise<{
+    runs: any[];
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    };
+  }> {
+    try {
+      const { page = 1, limit = 20, job, status } = query;
+      const skip = (page - 1) * limit;
+
+      const whereClause: any = {};
+      if (job) {
+        whereClause.job = job;
+      }
+      if (status) {
+        whereClause.status = status;
+      }
+
+      const [runs, total] = await Promise.all([
+        this.prisma.maintenanceJobRun.findMany({
+          where: whereClause,
+          orderBy: { startedAt: "desc" },
+          skip,
+          take: limit,
+        }),
+        this.prisma.maintenanceJobRun.count({ where: whereClause }),
+      ]);
+
+      return {
+        runs: runs.map((run) => this.formatRunResponse(run)),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      };
+    } catch (error) {
+      logger.error("Get maintenance runs failed:", error);
+      throw new AppError(
+        "Failed to get maintenance runs",
+        500,
+        "GET_MAINTENANCE_RUNS_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Queue a manual run of a job for the worker
+   */
+  async triggerJob(
+    job: string,
+    userId: string,
+    context?: RequestContext
+  ): Promise<{ job: MaintenanceJobName; jobId: string }> {
+    try {
+      if (!this.isJobName(job)) {
+        throw new AppError(
+          "Maintenance job not found",
+          404,
+          "MAINTENANCE_JOB_NOT_FOUND"
+        );
+      }
+
+      const queued = await MaintenanceQueue.enqueue(job, userId);
+
+      await this.auditService.log({
+        userId,
+        action: AuditAction.MAINTENANCE_JOB_TRIGGERED,
+        resource: "maintenance",
+        resourceId: job,
+        metadata: { jobId: String(queued.id) },
+        context,
+      });
+
+      return { job, jobId: String(queued.id) };
+    } catch (error) {
+      logger.error("Trigger maintenance job failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        "Failed to trigger maintenance job",
+        500,
+        "MAINTENANCE_TRIGGER_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Run a job under its Redis lock and record the run (called by the
+   * worker). A run that finds the lock taken is recorded as SKIPPED.
+   */
+  async runJob(
+    job: MaintenanceJobName,
+    trigger: MaintenanceTrigger,
+    triggeredById?: string
+  ): Promise<void> {
+    const lockKey = RedisClient.key("maintenance", "lock", job);
+    const lockToken = await RedisClient.acquireLock(
+      lockKey,
+      config.maintenance.lockTtlMs
+    );
+
+    if (!lockToken) {
+      await this.prisma.maintenanceJobRun.create({
+        data: {
+          job,
+          trigger,
+          triggeredById,
+          status: MaintenanceRunStatus.SKIPPED,
+          finishedAt: new Date(),
+          durationMs: 0,
+        },
+      });
+
+      logger.info("Maintenance job skipped, already running elsewhere", {
+        job,
+      });
+      return;
+    }
+
+    const run = await this.prisma.maintenanceJobRun.create({
+      data: { job, trigger, triggeredById },
+    });
+    const startTime = Date.now();
+
+    try {
+      const result = await this.jobs[job].run();
+
+      await this.prisma.maintenanceJobRun.update({
+        where: { id: run.id },
+        data: {
+          status: MaintenanceRunStatus.SUCCEEDED,
+          result,
+          finishedAt: new Date(),
+          durationMs: Date.now() - startTime,
+        },
+      });
+
+      logger.info("Maintenance job completed", {
+        job,
+        trigger,
+        durationMs: Date.now() - startTime,
+        result,
+      });
+    } catch (error) {
+      await this.prisma.maintenanceJobRun.update({
+        where: { id: run.id },
+        data: {
+          status: MaintenanceRunStatus.FAILED,
+          error: error instanceof Error ? error.message : "Unknown error",
+          finishedAt: new Date(),
+          durationMs: Date.now() - startTime,
+        },
+      });
+
+      logger.error(`Maintenance job ${job} failed:`, error);
+      throw error;
+    } finally {
+      await RedisClient.releaseLock(lockKey, lockToken);
+    }
+  }
+
+  /**
+   * Close out runs left RUNNING by a worker that died mid-job
+   */
+  async failInterruptedRuns(): Promise<number> {
+    const cutoff = new Date(Date.now() - config.maintenance.lockTtlMs);
+
+    const { count } = await this.prisma.maintenanceJobRun.updateMany({
+      where: {
+        status: MaintenanceRunStatus.RUNNING,
+        startedAt: { lt: cutoff },
+      },
+      data: {
+        status: MaintenanceRunStatus.FAILED,
+        error: "Interrupted",
+        finishedAt: new Date(),
+      },
+    });
+
+    if (count > 0) {
+      logger.warn("Marked interrupted maintenance runs as failed", { count });
+    }
+
+    return count;
+  }
+
+  private isJobName(job: string): job is MaintenanceJobName {
+    return Object.prototype.hasOwnProperty.call(this.jobs, job);
+  }
+
+  /**
+   * Format run response
+   */
+  private formatRunResponse(run: any): any {
+    return {
+      id: run.id,
+      job: run.job,
+      trigger: run.trigger,
+      status: run.status,
+      triggeredById: run.triggeredById,
+      result: run.result,
+      error: run.error,
+      durationMs: run.durationMs,
+      startedAt: run.startedAt.toISOString(),
+      finishedAt: run.finishedAt?.toISOString() ?? null,
+    };
+  }
+}
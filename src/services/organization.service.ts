@@ -0,0 +1,534 @@
+import { PrismaClient } from "@prisma/client";
+import {
+  AddMemberDto,
+  AuditAction,
+  CreateOrganizationDto,
+  OrganizationRole,
+  RequestContext,
+} from "../types";
+import { AuditService } from "./audit.service";
+import { AccessService } from "./access.service";
+import { AppError } from "../middleware/error.middleware";
+import logger from "../utils/logger";
+
+export class OrganizationService {
+  private auditService: AuditService;
+  private accessService: AccessService;
+
+  constructor(private prisma: PrismaClient) {
+    this.auditService = new AuditService(prisma);
+    this.accessService = new AccessService(prisma);
+  }
+
+  /**
+   * Create an organization with the caller as its owner
+   */
+  async createOrganization(
+    userId: string,
+    data: CreateOrganizationDto,
+    context?: RequestContext
+  ): Promise<any> {
+    try {
+      const organization = await this.prisma.organization.create({
+        data: {
+          name: data.name,
+          memberships: {
+            create: { userId, role: OrganizationRole.OWNER },
+          },
+        },
+        include: {
+          _count: { select: { memberships: true, projects: true } },
+        },
+      });
+
+      await this.auditService.log({
+        userId,
+        action: AuditAction.ORGANIZATION_CREATED,
+        resource: "organization",
+        resourceId: organization.id,
+        metadata: { name: organization.name },
+        context,
+      });
+
+      logger.info("Organization created successfully", {
+        organizationId: organization.id,
+        userId,
+      });
+
+      return this.formatOrganizationResponse(
+        organization,
+        OrganizationRole.OWNER
+      );
+    } catch (error) {
+      logger.error("Organization creation failed:", error);
+      throw new AppError(
+        "Failed to create organization",
+        500,
+        "ORGANIZATION_CREATION_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Organizations the user belongs to, with their role in each
+   */
+  async getUserOrganizations(userId: string): Promise<any[]> {
+    try {
+      const memberships = await this.prisma.organizationMembership.findMany({
+        where: { userId },
+        include: {
+          organization: {
+            include: {
+              _count: { select: { memberships: true, projects: true } },
+            },
+          },
+        },
+        orderBy: { createdAt: "asc" },
+      });
+
+      return memberships.map((membership) =>
+        this.formatOrganizationResponse(
+          membership.organization,
+          membership.role as OrganizationRole
+        )
+      );
+    } catch (error) {
+      logger.error("Get user organizations failed:", error);
+      throw new AppError(
+        "Failed to get organizations",
+        500,
+        "GET_ORGANIZATIONS_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Get an organization with its members
+   */
+  async getOrganizationById(
+    organizationId: string,
+    userId: string
+  ): Promise<any> {
+    try {
+      const role = await this.accessService.requireOrganizationRole(
+        organizationId,
+        userId,
+        OrganizationRole.VIEWER
+      );
+
+      const organization = await this.prisma.organization.findUnique({
+        where: { id: organizationId },
+        include: {
+          memberships: {
+            include: {
+              user: { select: { id: true, name: true, email: true } },
+            },
+            orderBy: { createdAt: "asc" },
+          },
+          _count: { select: { memberships: true, projects: true } },
+        },
+      });
+
+      if (!organization) {
+        throw new AppError(
+          "Organization not found",
+          404,
+          "ORGANIZATION_NOT_FOUND"
+        );
+      }
+
+      return {
+        ...this.formatOrganizationResponse(organization, role),
+        members: organization.memberships.map((membership) =>
+          this.formatMemberResponse(membership)
+        ),
+      };
+    } catch (error) {
+      logger.error("Get organization failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        "Failed to get organization",
+        500,
+        "GET_ORGANIZATION_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Rename an organization (admins and owners)
+   */
+  async updateOrganization(
+    organizationId: string,
+    userId: string,
+    data: CreateOrganizationDto
+  ): Promise<any> {
+    try {
+      const role = await this.accessService.requireOrganizationRole(
+        organizationId,
+        userId,
+        OrganizationRole.ADMIN
+      );
+
+      const organization = await this.prisma.organization.update({
+        where: { id: organizationId },
+        data: { name: data.name },
+        include: {
+          _count: { select: { memberships: true, projects: true } },
+        },
+      });
+
+      logger.info("Organization updated successfully", {
+        organizationId,
+        userId,
+      });
+
+      return this.formatOrganizationResponse(organization, role);
+    } catch (error) {
+      logger.error("Organization update failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        "Failed to update organization",
+        500,
+        "ORGANIZATION_UPDATE_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Delete an organization (owners only). Its projects fall back to being
+   * personal projects of whoever created them.
+   */
+  async deleteOrganization(
+    organizationId: string,
+    userId: string,
+    context?: RequestContext
+  ): Promise<void> {
+    try {
+      await this.accessService.requireOrganizationRole(
+        organizationId,
+        userId,
+        OrganizationRole.OWNER
+      );
+
+      const organization = await this.prisma.organization.delete({
+        where: { id: organizationId },
+      });
+
+      await this.auditService.log({
+        userId,
+        action: AuditAction.ORGANIZATION_DELETED,
+        resource: "organization",
+        resourceId: organizationId,
+        metadata: { name: organization.name },
+        context,
+      });
+
+      logger.info("Organization deleted successfully", {
+        organizationId,
+        userId,
+      });
+    } catch (error) {
+      logger.error("Organization deletion failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        "Failed to delete organization",
+        500,
+        "ORGANIZATION_DELETE_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Add an existing user to the organization by email
+   */
+  async addMember(
+    organizationId: string,
+    userId: string,
+    data: AddMemberDto,
+    context?: RequestContext
+  ): Promise<any> {
+    try {
+      const actorRole = await this.accessService.requireOrganizationRole(
+        organizationId,
+        userId,
+        OrganizationRole.ADMIN
+      );
+
+      this.assertCanGrant(actorRole, data.role);
+
+      const user = await this.prisma.user.findUnique({
+        where: { email: data.email },
+        select: { id: true },
+      });
+
+      if (!user) {
+        throw new AppError(
+          "No account exists for this email",
+          404,
+          "USER_NOT_FOUND"
+        );
+      }
+
+      const existing = await this.prisma.organizationMembership.findUnique({
+        where: {
+          organizationId_userId: { organizationId, userId: user.id },
+        },
+      });
+
+      if (existing) {
+        throw new AppError(
+          "User is already a member of this organization",
+          409,
+          "ALREADY_MEMBER"
+        );
+      }
+
+      const membership = await this.prisma.organizationMembership.create({
+        data: { organizationId, userId: user.id, role: data.role },
+        include: {
+          user: { select: { id: true, name: true, email: true } },
+        },
+      });
+
+      await this.auditService.log({
+        userId,
+        action: AuditAction.MEMBER_ADDED,
+        resource: "organization",
+        resourceId: organizationId,
+        metadata: { memberId: user.id, role: data.role },
+        context,
+      });
+
+      logger.info("Organization member added", {
+        organizationId,
+        memberId: user.id,
+        role: data.role,
+      });
+
+      return this.formatMemberResponse(membership);
+    } catch (error) {
+      logger.error("Add organization member failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError("Failed to add member", 500, "ADD_MEMBER_ERROR");
+    }
+  }
+
+  /**
+   * Change a member's role
+   */
+  async updateMemberRole(
+    organizationId: string,
+    userId: string,
+    memberId: string,
+    role: OrganizationRole,
+    context?: RequestContext
+  ): Promise<any> {
+    try {
+      const actorRole = await this.accessService.requireOrganizationRole(
+        organizationId,
+        userId,
+        OrganizationRole.ADMIN
+      );
+
+      const membership = await this.getMembership(organizationId, memberId);
+
+      // Admins manage designers and viewers; only owners touch owners
+      this.assertCanGrant(actorRole, membership.role as OrganizationRole);
+      this.assertCanGrant(actorRole, role);
+
+      if (
+        membership.role === OrganizationRole.OWNER &&
+        role !== OrganizationRole.OWNER
+      ) {
+        await this.assertNotLastOwner(organizationId);
+      }
+
+      const updated = await this.prisma.organizationMembership.update({
+        where: { id: membership.id },
+        data: { role },
+        include: {
+          user: { select: { id: true, name: true, email: true } },
+        },
+      });
+
+      await this.auditService.log({
+        userId,
+        action: AuditAction.MEMBER_ROLE_CHANGED,
+        resource: "organization",
+        resourceId: organizationId,
+        metadata: { memberId, from: membership.role, to: role },
+        context,
+      });
+
+      logger.info("Organization member role changed", {
+        organizationId,
+        memberId,
+        role,
+      });
+
+      return this.formatMemberResponse(updated);
+    } catch (error) {
+      logger.error("Update member role failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        "Failed to update member role",
+        500,
+        "UPDATE_MEMBER_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Remove a member. Any member may remove themselves (leave).
+   */
+  async removeMember(
+    organizationId: string,
+    userId: string,
+    memberId: string,
+    context?: RequestContext
+  ): Promise<void> {
+    try {
+      const isSelf = memberId === userId;
+
+      const actorRole = await this.accessService.requireOrganizationRole(
+        organizationId,
+        userId,
+        isSelf ? OrganizationRole.VIEWER : OrganizationRole.ADMIN
+      );
+
+      const membership = await this.getMembership(organizationId, memberId);
+
+      if (!isSelf) {
+        this.assertCanGrant(actorRole, membership.role as OrganizationRole);
+      }
+
+      if (membership.role === OrganizationRole.OWNER) {
+        await this.assertNotLastOwner(organizationId);
+      }
+
+      await this.prisma.organizationMembership.delete({
+        where: { id: membership.id },
+      });
+
+      await this.auditService.log({
+        userId,
+        action: AuditAction.MEMBER_REMOVED,
+        resource: "organization",
+        resourceId: organizationId,
+        metadata: { memberId, role: membership.role },
+        context,
+      });
+
+      logger.info("Organization member removed", {
+        organizationId,
+        memberId,
+        removedBy: userId,
+      });
+    } catch (error) {
+      logger.error("Remove organization member failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        "Failed to remove member",
+        500,
+        "REMOVE_MEMBER_ERROR"
+      );
+    }
+  }
+
+  private async getMembership(organizationId: string, memberId: string) {
+    const membership = await this.prisma.organizationMembership.findUnique({
+      where: { organizationId_userId: { organizationId, userId: memberId } },
+    });
+
+    if (!membership) {
+      throw new AppError("Member not found", 404, "MEMBER_NOT_FOUND");
+    }
+
+    return membership;
+  }
+
+  /**
+   * Only owners can create or modify other owners
+   */
+  private assertCanGrant(
+    actorRole: OrganizationRole,
+    role: OrganizationRole
+  ): void {
+    if (
+      role === OrganizationRole.OWNER &&
+      actorRole !== OrganizationRole.OWNER
+    ) {
+      throw new AppError(
+        "Only owners can manage owners",
+        403,
+        "INSUFFICIENT_ROLE"
+      );
+    }
+  }
+
+  /**
+   * An organization must always keep at least one owner
+   */
+  private async assertNotLastOwner(organizationId: string): Promise<void> {
+    const owners = await this.prisma.organizationMembership.count({
+      where: { organizationId, role: OrganizationRole.OWNER },
+    });
+
+    if (owners <= 1) {
+      throw new AppError(
+        "An organization needs at least one owner. Transfer ownership first.",
+        409,
+        "LAST_OWNER"
+      );
+    }
+  }
+
+  private formatOrganizationResponse(
+    organization: any,
+    role: OrganizationRole
+  ): any {
+    return {
+      id: organization.id,
+      name: organization.name,
+      role,
+      memberCount: organization._count?.memberships || 0,
+      projectCount: organization._count?.projects || 0,
+      createdAt: organization.createdAt.toISOString(),
+      updatedAt: organization.updatedAt.toISOString(),
+    };
+  }
+
+  private formatMemberResponse(membership: any): any {
+    return {
+      userId: membership.userId,
+      name: membership.user?.name,
+      email: membership.user?.email,
+      role: membership.role,
+      joinedAt: membership.createdAt.toISOString(),
+    };
+  }
+}
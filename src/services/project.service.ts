@@ -1,10 +1,28 @@
 import { PrismaClient } from "@prisma/client";
-import { CreateProjectDto, UpdateProjectDto, ProjectQuery } from "../types";
+import {
+  CreateProjectDto,
+  UpdateProjectDto,
+  ProjectQuery,
+  OrganizationRole,
+  AuditAction,
+  RequestContext,
+} from "../types";
+import { AuditService } from "./audit.service";
+import { AccessService } from "./access.service";
+import { AssetCleanupService } from "./asset-cleanup.service";
 import { AppError } from "../middleware/error.middleware";
 import logger from "../utils/logger";
 
 export class ProjectService {
-  constructor(private prisma: PrismaClient) {}
+  private auditService: AuditService;
+  private accessService: AccessService;
+  private assetCleanupService: AssetCleanupService;
+
+  constructor(private prisma: PrismaClient) {
+    this.auditService = new AuditService(prisma);
+    this.accessService = new AccessService(prisma);
+    this.assetCleanupService = new AssetCleanupService(prisma);
+  }
 
   /**
    * Create a new project
@@ -14,6 +32,14 @@ export class ProjectService {
     projectData: CreateProjectDto
   ): Promise<any> {
     try {
+      if (projectData.organizationId) {
+        await this.accessService.requireOrganizationRole(
+          projectData.organizationId,
+          userId,
+          OrganizationRole.DESIGNER
+        );
+      }
+
       const project = await this.prisma.project.create({
         data: {
           ...projectData,
@@ -45,6 +71,11 @@ export class ProjectService {
       return this.formatProjectResponse(project);
     } catch (error) {
       logger.error("Project creation failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
       throw new AppError(
         "Failed to create project",
         500,
@@ -72,6 +103,7 @@ export class ProjectService {
       const {
         page = 1,
         limit = 10,
+        organizationId,
         type,
         style,
         isActive = true,
@@ -81,10 +113,14 @@ export class ProjectService {
 
       // Build where clause
       const whereClause: any = {
-        userId,
+        AND: [this.accessService.accessibleProjectsWhere(userId)],
         isActive,
       };
 
+      if (organizationId) {
+        whereClause.organizationId = organizationId;
+      }
+
       if (type) {
         whereClause.type = type;
       }
@@ -199,14 +235,7 @@ export class ProjectService {
         throw new AppError("Project not found", 404, "PROJECT_NOT_FOUND");
       }
 
-      // Check ownership
-      if (project.userId !== userId) {
-        throw new AppError(
-          "Access denied. You can only view your own projects.",
-          403,
-          "ACCESS_DENIED"
-        );
-      }
+      await this.accessService.authorizeProject(project, userId, "view");
 
       return this.formatProjectResponse(project, true);
     } catch (error) {
@@ -229,23 +258,21 @@ export class ProjectService {
     updateData: UpdateProjectDto
   ): Promise<any> {
     try {
-      // First check if project exists and user owns it
+      // First check if project exists and user may edit it
       const existingProject = await this.prisma.project.findUnique({
         where: { id: projectId },
-        select: { userId: true },
+        select: { userId: true, organizationId: true },
       });
 
       if (!existingProject) {
         throw new AppError("Project not found", 404, "PROJECT_NOT_FOUND");
       }
 
-      if (existingProject.userId !== userId) {
-        throw new AppError(
-          "Access denied. You can only update your own projects.",
-          403,
-          "ACCESS_DENIED"
-        );
-      }
+      await this.accessService.authorizeProject(
+        existingProject,
+        userId,
+        "edit"
+      );
 
       // Update project
       const project = await this.prisma.project.update({
@@ -294,13 +321,18 @@ export class ProjectService {
   /**
    * Delete project
    */
-  async deleteProject(projectId: string, userId: string): Promise<void> {
+  async deleteProject(
+    projectId: string,
+    userId: string,
+    context?: RequestContext
+  ): Promise<void> {
     try {
-      // First check if project exists and user owns it
+      // First check if project exists and user may delete it
       const existingProject = await this.prisma.project.findUnique({
         where: { id: projectId },
         select: {
           userId: true,
+          organizationId: true,
           name: true,
           _count: {
             select: {
@@ -314,18 +346,30 @@ export class ProjectService {
         throw new AppError("Project not found", 404, "PROJECT_NOT_FOUND");
       }
 
-      if (existingProject.userId !== userId) {
-        throw new AppError(
-          "Access denied. You can only delete your own projects.",
-          403,
-          "ACCESS_DENIED"
-        );
-      }
+      await this.accessService.authorizeProject(
+        existingProject,
+        userId,
+        "delete"
+      );
 
-      // Delete project (cascade delete will handle rooms, designs, uploads)
-      await this.prisma.project.delete({
-        where: { id: projectId },
+      const rooms = await this.prisma.room.findMany({
+        where: { projectId },
+        select: { id: true },
       });
+      const roomIds = rooms.map((room) => room.id);
+      const assets = await this.assetCleanupService.collectRoomAssets(roomIds);
+
+      // Delete project (cascade delete will handle rooms and designs).
+      // Uploads only lose their room on cascade, so remove them explicitly.
+      await this.prisma.$transaction([
+        this.prisma.upload.deleteMany({ where: { roomId: { in: roomIds } } }),
+        this.prisma.project.delete({ where: { id: projectId } }),
+      ]);
+
+      await this.assetCleanupService.enqueueDeletion(
+        assets,
+        `project:${projectId}`
+      );
 
       logger.info("Project deleted successfully", {
         projectId,
@@ -333,6 +377,18 @@ export class ProjectService {
         projectName: existingProject.name,
         roomsDeleted: existingProject._count.rooms,
       });
+
+      await this.auditService.log({
+        userId,
+        action: AuditAction.PROJECT_DELETED,
+        resource: "project",
+        resourceId: projectId,
+        metadata: {
+          name: existingProject.name,
+          roomsDeleted: existingProject._count.rooms,
+        },
+        context,
+      });
     } catch (error) {
       logger.error("Project deletion failed:", error);
 
@@ -361,15 +417,18 @@ export class ProjectService {
     recentActivity: any[];
   }> {
     try {
+      // Own projects and those of the user's organizations
+      const accessible = this.accessService.accessibleProjectsWhere(userId);
+
       // Get basic project counts
       const [totalProjects, activeProjects] = await Promise.all([
-        this.prisma.project.count({ where: { userId } }),
-        this.prisma.project.count({ where: { userId, isActive: true } }),
+        this.prisma.project.count({ where: accessible }),
+        this.prisma.project.count({ where: { ...accessible, isActive: true } }),
       ]);
 
       // Get projects grouped by type and style
       const projects = await this.prisma.project.findMany({
-        where: { userId },
+        where: accessible,
         select: {
           type: true,
           style: true,
@@ -407,7 +466,7 @@ export class ProjectService {
 
       // Get recent activity (last 10 projects)
       const recentActivity = await this.prisma.project.findMany({
-        where: { userId },
+        where: accessible,
         select: {
           id: true,
           name: true,
@@ -466,13 +525,20 @@ export class ProjectService {
         throw new AppError("Project not found", 404, "PROJECT_NOT_FOUND");
       }
 
-      if (originalProject.userId !== userId) {
-        throw new AppError(
-          "Access denied. You can only duplicate your own projects.",
-          403,
-          "ACCESS_DENIED"
-        );
-      }
+      await this.accessService.authorizeProject(
+        originalProject,
+        userId,
+        "view"
+      );
+
+      // The copy stays in the organization only if the user can add to it
+      const keepOrganization =
+        !!originalProject.organizationId &&
+        (await this.accessService.canAccessProject(
+          originalProject,
+          userId,
+          "edit"
+        ));
 
       // Create new project
       const duplicatedProject = await this.prisma.project.create({
@@ -482,6 +548,9 @@ export class ProjectService {
           type: originalProject.type,
           style: originalProject.style,
           userId,
+          organizationId: keepOrganization
+            ? originalProject.organizationId
+            : null,
           rooms: {
             create: originalProject.rooms.map((room) => ({
               name: room.name,
@@ -552,6 +621,7 @@ export class ProjectService {
       style: project.style,
       isActive: project.isActive,
       userId: project.userId,
+      organizationId: project.organizationId ?? null,
       createdAt: project.createdAt.toISOString(),
       updatedAt: project.updatedAt.toISOString(),
       roomCount: project._count?.rooms || project.rooms?.length || 0,
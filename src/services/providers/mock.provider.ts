@@ -0,0 +1,182 @@
+import crypto from "crypto";
+import { setTimeout as sleep } from "timers/promises";
+import { config } from "../../config/env";
+import {
+  AIGenerationResult,
+  ImageGenerationRequest,
+  ImageProvider,
+} from "../../types";
+import { AppError } from "../../middleware/error.middleware";
+import logger from "../../utils/logger";
+import { SeedUtil } from "../../utils/seed";
+
+const WIDTH = 1024;
+const HEIGHT = 1024;
+
+/**
+ * Offline provider that renders deterministic SVG placeholders
+ */
+export class MockProvider implements ImageProvider {
+  readonly name = "mock";
+  readonly capabilities = {
+    imageToImage: true,
+    inpainting: true,
+    maxOutputs: 4,
+    sizes: [`${WIDTH}x${HEIGHT}`],
+    seed: true,
+    negativePrompt: true,
+    steps: { min: 1, max: 150 },
+    guidance: { min: 0, max: 50 },
+  };
+  readonly defaultOutputs = 3;
+  readonly costPerImage = 0;
+
+  async generate(request: ImageGenerationRequest): Promise<AIGenerationResult> {
+    const {
+      prompt,
+      promptData,
+      mode,
+      inputImageUrl,
+      maskImageUrl,
+      strength,
+      signal,
+      seed,
+      negativePrompt,
+      steps,
+      guidance,
+      numOutputs = this.defaultOutputs,
+    } = request;
+    const { latencyMs, failureRate } = config.ai.mock;
+    const startTime = Date.now();
+
+    logger.ai("Starting mock image generation", {
+      prompt: prompt.substring(0, 100),
+      mode,
+    });
+
+    if (latencyMs > 0) {
+      await sleep(latencyMs, undefined, { signal });
+    }
+
+    if (failureRate > 0 && Math.random() < failureRate) {
+      throw new AppError(
+        "Mock provider failure (injected)",
+        503,
+        "MOCK_PROVIDER_FAILURE"
+      );
+    }
+
+    if (mode === "redesign" && !inputImageUrl) {
+      throw new AppError(
+        "A source image is required for a redesign",
+        400,
+        "SOURCE_IMAGE_REQUIRED"
+      );
+    }
+
+    if (mode === "edit" && (!inputImageUrl || !maskImageUrl)) {
+      throw new AppError(
+        "A source image and mask are required for an edit",
+        400,
+        "SOURCE_IMAGE_REQUIRED"
+      );
+    }
+
+    // Same prompt, input images and parameters always give the same images
+    const hash = crypto
+      .createHash("sha256")
+      .update(
+        `${prompt}|${inputImageUrl || ""}|${maskImageUrl || ""}|${strength ?? ""}|${negativePrompt || ""}|${steps ?? ""}|${guidance ?? ""}`
+      )
+      .digest();
+    const baseSeed = seed ?? SeedUtil.fromHash(hash);
+
+    const labels = [
+      promptData?.roomType?.replace(/_/g, " ") || "ROOM",
+      promptData?.style?.replace(/_/g, " ") || "",
+      promptData
+        ? `${promptData.dimensions.length} x ${promptData.dimensions.width} x ${promptData.dimensions.height} m`
+        : "",
+      mode === "redesign" ? `Redesign · strength ${strength}` : "",
+      mode === "edit" ? "Edited" : "",
+    ].filter(Boolean);
+
+    const seeds = SeedUtil.derive(baseSeed, numOutputs);
+    const imageUrls = seeds.map((seed, index) =>
+      this.renderPlaceholder(labels, seed, index)
+    );
+
+    const processingTime = Date.now() - startTime;
+
+    logger.ai("Mock image generation completed", {
+      imageCount: imageUrls.length,
+      processingTime,
+    });
+
+    return {
+      imageUrls,
+      seeds,
+      prompt,
+      metadata: {
+        provider: this.name,
+        model: "mock-svg",
+        processingTime,
+        parameters: {
+          width: WIDTH,
+          height: HEIGHT,
+          num_outputs: numOutputs,
+          seed: baseSeed,
+          ...(negativePrompt && { negative_prompt: negativePrompt }),
+          ...(steps !== undefined && { steps }),
+          ...(guidance !== undefined && { guidance }),
+          ...(mode === "redesign" && { image: inputImageUrl, strength }),
+          ...(mode === "edit" && { image: inputImageUrl, mask: maskImageUrl }),
+        },
+      },
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Render an SVG placeholder as a data URI
+   */
+  private renderPlaceholder(
+    labels: string[],
+    seed: number,
+    index: number
+  ): string {
+    const hue = seed % 360;
+    const accentHue = (hue + 140) % 360;
+
+    const text = [...labels, `Variant ${index + 1}`]
+      .map(
+        (label, line) =>
+          `<text x="50%" y="${44 + line * 6}%" text-anchor="middle" font-family="sans-serif" font-size="${line === 0 ? 64 : 40}" fill="#ffffff">${this.escape(label)}</text>`
+      )
+      .join("");
+
+    const svg =
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}">` +
+      `<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">` +
+      `<stop offset="0" stop-color="hsl(${hue},45%,45%)"/>` +
+      `<stop offset="1" stop-color="hsl(${accentHue},45%,30%)"/>` +
+      `</linearGradient></defs>` +
+      `<rect width="100%" height="100%" fill="url(#bg)"/>` +
+      `<rect x="12%" y="62%" width="76%" height="26%" fill="#000000" fill-opacity="0.15"/>` +
+      text +
+      `<text x="50%" y="95%" text-anchor="middle" font-family="monospace" font-size="24" fill="#ffffff" fill-opacity="0.7">MOCK · seed ${seed}</text>` +
+      `</svg>`;
+
+    return `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`;
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;");
+  }
+}
@@ -0,0 +1,130 @@
+import OpenAI from "openai";
+import { config } from "../../config/env";
+import {
+  AIGenerationResult,
+  ImageGenerationRequest,
+  ImageProvider,
+} from "../../types";
+import { AppError } from "../../middleware/error.middleware";
+import logger from "../../utils/logger";
+
+/**
+ * OpenAI DALL-E 3 (text-to-image only)
+ */
+export class OpenAIProvider implements ImageProvider {
+  readonly name = "openai";
+  readonly capabilities = {
+    imageToImage: false,
+    inpainting: false,
+    maxOutputs: 1,
+    sizes: ["1024x1024", "1792x1024", "1024x1792"],
+    seed: false,
+    negativePrompt: false,
+    steps: null,
+    guidance: null,
+  };
+  readonly defaultOutputs = 1;
+  readonly costPerImage = 0.04; // DALL-E 3, 1024x1024 HD
+
+  private client: OpenAI;
+
+  constructor() {
+    this.client = new OpenAI({
+      apiKey: config.ai.openai.apiKey,
+    });
+  }
+
+  async generate(request: ImageGenerationRequest): Promise<AIGenerationResult> {
+    const { prompt, signal, width = 1024, height = 1024 } = request;
+    const size = `${width}x${height}` as OpenAI.ImageGenerateParams["size"];
+
+    try {
+      const startTime = Date.now();
+
+      logger.ai("Starting OpenAI image generation", {
+        prompt: prompt.substring(0, 100),
+      });
+
+      const response = await this.client.images.generate(
+        {
+          model: "dall-e-3",
+          prompt,
+          n: 1,
+          size,
+          quality: "hd",
+          style: "natural",
+        },
+        { signal }
+      );
+
+      const processingTime = Date.now() - startTime;
+
+      if (!response.data || response.data.length === 0) {
+        throw new AppError(
+          "No images generated by OpenAI",
+          500,
+          "AI_GENERATION_FAILED"
+        );
+      }
+
+      const imageUrls = response.data
+        .map((img) => img.url)
+        .filter(Boolean) as string[];
+
+      logger.ai("OpenAI image generation completed", {
+        imageCount: imageUrls.length,
+        processingTime,
+      });
+
+      return {
+        imageUrls,
+        prompt,
+        metadata: {
+          provider: this.name,
+          model: "dall-e-3",
+          processingTime,
+          parameters: {
+            size,
+            quality: "hd",
+            style: "natural",
+          },
+        },
+      };
+    } catch (error) {
+      logger.error("OpenAI generation failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      if (error instanceof Error) {
+        if (error.message.includes("content_policy")) {
+          throw new AppError(
+            "Content policy violation. Please modify your request.",
+            400,
+            "CONTENT_POLICY_VIOLATION"
+          );
+        }
+        if (error.message.includes("rate_limit")) {
+          throw new AppError(
+            "Rate limit exceeded. Please try again later.",
+            429,
+            "RATE_LIMIT_EXCEEDED"
+          );
+        }
+      }
+
+      throw new AppError("OpenAI image generation failed", 500, "OPENAI_ERROR");
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.client.models.list();
+      return true;
+    } catch (error) {
+      logger.error("OpenAI health check failed:", error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { config } from "../../config/env";
+import { ImageProvider } from "../../types";
+import { AppError } from "../../middleware/error.middleware";
+import { OpenAIProvider } from "./openai.provider";
+import { ReplicateProvider } from "./replicate.provider";
+import { StableDiffusionProvider } from "./stable-diffusion.provider";
+import { MockProvider } from "./mock.provider";
+
+/**
+ * Image generation backends, enabled through AI_PROVIDERS
+ */
+export class ProviderRegistry {
+  private static factories = new Map<string, () => ImageProvider>();
+  private static instances = new Map<string, ImageProvider>();
+
+  /**
+   * Register a provider factory under a name
+   */
+  static register(name: string, factory: () => ImageProvider): void {
+    ProviderRegistry.factories.set(name, factory);
+    ProviderRegistry.instances.delete(name);
+  }
+
+  /**
+   * Whether a provider is registered and enabled
+   */
+  static isEnabled(name: string): boolean {
+    return (
+      ProviderRegistry.factories.has(name) &&
+      config.ai.providers.includes(name)
+    );
+  }
+
+  /**
+   * Names of all enabled providers
+   */
+  static names(): string[] {
+    return config.ai.providers.filter((name: string) =>
+      ProviderRegistry.factories.has(name)
+    );
+  }
+
+  /**
+   * Get an enabled provider, instantiating it on first use
+   */
+  static get(name: string): ImageProvider {
+    if (!ProviderRegistry.isEnabled(name)) {
+      throw new AppError(
+        `AI provider "${name}" is not available`,
+        400,
+        "AI_PROVIDER_UNAVAILABLE"
+      );
+    }
+
+    let provider = ProviderRegistry.instances.get(name);
+    if (!provider) {
+      provider = ProviderRegistry.factories.get(name)!();
+      ProviderRegistry.instances.set(name, provider);
+    }
+
+    return provider;
+  }
+
+  static getDefault(): ImageProvider {
+    return ProviderRegistry.get(config.ai.defaultProvider);
+  }
+
+  static list(): ImageProvider[] {
+    return ProviderRegistry.names().map((name) => ProviderRegistry.get(name));
+  }
+}
+
+// Built-in providers
+ProviderRegistry.register("openai", () => new OpenAIProvider());
+ProviderRegistry.register("replicate", () => new ReplicateProvider());
+ProviderRegistry.register(
+  "stable-diffusion",
+  () => new StableDiffusionProvider()
+);
+ProviderRegistry.register("mock", () => new MockProvider());
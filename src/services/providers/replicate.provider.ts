@@ -0,0 +1,305 @@
+import Replicate from "replicate";
+import { config } from "../../config/env";
+import {
+  AIGenerationResult,
+  ImageGenerationRequest,
+  ImageProvider,
+} from "../../types";
+import { AppError } from "../../middleware/error.middleware";
+import logger from "../../utils/logger";
+import { SeedUtil } from "../../utils/seed";
+
+const SDXL_MODEL =
+  "stability-ai/stable-diffusion-xl-base-1.0:39ed52f2a78e934b3ba6e2a89f5b1c712de7dfea535525255b1aa35c5565e08b";
+
+// ControlNet (segmentation + MLSD) interior model; keeps walls, windows and
+// perspective of the source photo. Returns one image per prediction.
+const REDESIGN_MODEL =
+  "adirik/interior-design:76604baddc85b1b4616e1c6475eca080da339c8875bd4996705440484a6eac38";
+
+const NEGATIVE_PROMPT =
+  "lowres, watermark, text, deformed, blurry, distorted perspective, extra windows";
+
+/**
+ * Stable Diffusion XL hosted on Replicate, with a ControlNet model for redesigns.
+ * Edits use SDXL's inpainting mode.
+ */
+export class ReplicateProvider implements ImageProvider {
+  readonly name = "replicate";
+  readonly capabilities = {
+    imageToImage: true,
+    inpainting: true,
+    maxOutputs: 4,
+    sizes: [
+      "1024x1024",
+      "1152x896",
+      "896x1152",
+      "1216x832",
+      "832x1216",
+      "1344x768",
+      "768x1344",
+    ],
+    seed: true,
+    negativePrompt: true,
+    // Kept within what both the SDXL and the redesign model accept
+    steps: { min: 10, max: 100 },
+    guidance: { min: 1, max: 20 },
+  };
+  readonly defaultOutputs = 3;
+  readonly costPerImage = 0.012; // SDXL approximate cost per image
+
+  private client: Replicate;
+
+  constructor() {
+    this.client = new Replicate({
+      auth: config.ai.replicate.apiToken,
+    });
+  }
+
+  async generate(request: ImageGenerationRequest): Promise<AIGenerationResult> {
+    if (request.mode === "redesign") {
+      return this.redesign(request);
+    }
+
+    const {
+      prompt,
+      mode,
+      inputImageUrl,
+      maskImageUrl,
+      signal,
+      seed,
+      negativePrompt,
+      width = 1024,
+      height = 1024,
+      steps = 50,
+      guidance = 7.5,
+      numOutputs = this.defaultOutputs,
+    } = request;
+
+    try {
+      const startTime = Date.now();
+
+      logger.ai("Starting Replicate image generation", {
+        prompt: prompt.substring(0, 100),
+        mode,
+      });
+
+      const input: any = {
+        prompt,
+        ...(negativePrompt && { negative_prompt: negativePrompt }),
+        num_outputs: 1,
+        num_inference_steps: steps,
+        guidance_scale: guidance,
+        width,
+        height,
+        scheduler: "DPMSolverMultistep",
+      };
+
+      if (mode === "edit") {
+        if (!inputImageUrl || !maskImageUrl) {
+          throw new AppError(
+            "A source image and mask are required for an edit",
+            400,
+            "SOURCE_IMAGE_REQUIRED"
+          );
+        }
+
+        // White areas of the mask are repainted, black areas are kept
+        input.image = inputImageUrl;
+        input.mask = maskImageUrl;
+        input.prompt_strength = 0.9;
+      }
+
+      // One prediction per output so each image has its own reproducible seed
+      const baseSeed = seed ?? SeedUtil.random();
+      const seeds = SeedUtil.derive(baseSeed, numOutputs);
+
+      const outputs = await Promise.all(
+        seeds.map((seed) =>
+          this.client.run(SDXL_MODEL, { input: { ...input, seed }, signal })
+        )
+      );
+
+      const processingTime = Date.now() - startTime;
+      const imageUrls: string[] = [];
+      const imageSeeds: number[] = [];
+
+      outputs.forEach((output, index) => {
+        for (const url of this.extractImageUrls(output)) {
+          imageUrls.push(url);
+          imageSeeds.push(seeds[index]);
+        }
+      });
+
+      if (imageUrls.length === 0) {
+        throw new AppError(
+          "No images generated by Replicate",
+          500,
+          "AI_GENERATION_FAILED"
+        );
+      }
+
+      logger.ai("Replicate image generation completed", {
+        imageCount: imageUrls.length,
+        processingTime,
+      });
+
+      return {
+        imageUrls,
+        seeds: imageSeeds,
+        prompt,
+        metadata: {
+          provider: this.name,
+          model: "stable-diffusion-xl-base-1.0",
+          processingTime,
+          parameters: { ...input, seed: baseSeed },
+        },
+      };
+    } catch (error) {
+      logger.error("Replicate generation failed:", error);
+      throw this.toAppError(error);
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    // Replicate has no lightweight health endpoint; a configured client is
+    // treated as healthy
+    return !!this.client;
+  }
+
+  /**
+   * Restyle the source photo, one prediction per output
+   */
+  private async redesign(
+    request: ImageGenerationRequest
+  ): Promise<AIGenerationResult> {
+    const {
+      prompt,
+      inputImageUrl,
+      strength = 0.8,
+      signal,
+      seed,
+      negativePrompt,
+      steps = 50,
+      guidance = 15,
+      numOutputs = this.defaultOutputs,
+    } = request;
+
+    try {
+      if (!inputImageUrl) {
+        throw new AppError(
+          "A source image is required for a redesign",
+          400,
+          "SOURCE_IMAGE_REQUIRED"
+        );
+      }
+
+      const startTime = Date.now();
+
+      logger.ai("Starting Replicate redesign", {
+        prompt: prompt.substring(0, 100),
+        strength,
+      });
+
+      const baseSeed = seed ?? SeedUtil.random();
+      const seeds = SeedUtil.derive(baseSeed, numOutputs);
+      const parameters = {
+        prompt,
+        negative_prompt: negativePrompt
+          ? `${NEGATIVE_PROMPT}, ${negativePrompt}`
+          : NEGATIVE_PROMPT,
+        num_inference_steps: steps,
+        guidance_scale: guidance,
+        prompt_strength: strength,
+      };
+
+      const outputs = await Promise.all(
+        seeds.map((seed) =>
+          this.client.run(REDESIGN_MODEL, {
+            input: { ...parameters, image: inputImageUrl, seed },
+            signal,
+          })
+        )
+      );
+
+      const processingTime = Date.now() - startTime;
+      const imageUrls: string[] = [];
+      const imageSeeds: number[] = [];
+
+      outputs.forEach((output, index) => {
+        for (const url of this.extractImageUrls(output)) {
+          imageUrls.push(url);
+          imageSeeds.push(seeds[index]);
+        }
+      });
+
+      if (imageUrls.length === 0) {
+        throw new AppError(
+          "No images generated by Replicate",
+          500,
+          "AI_GENERATION_FAILED"
+        );
+      }
+
+      logger.ai("Replicate redesign completed", {
+        imageCount: imageUrls.length,
+        processingTime,
+      });
+
+      return {
+        imageUrls,
+        seeds: imageSeeds,
+        prompt,
+        metadata: {
+          provider: this.name,
+          model: "adirik/interior-design",
+          processingTime,
+          parameters: { ...parameters, image: inputImageUrl, seed: baseSeed },
+        },
+      };
+    } catch (error) {
+      logger.error("Replicate redesign failed:", error);
+      throw this.toAppError(error);
+    }
+  }
+
+  /**
+   * Handle the different output formats of Replicate models
+   */
+  private extractImageUrls(output: unknown): string[] {
+    if (Array.isArray(output)) {
+      return output.filter((url) => typeof url === "string") as string[];
+    }
+
+    return typeof output === "string" ? [output] : [];
+  }
+
+  private toAppError(error: unknown): AppError {
+    if (error instanceof AppError) {
+      return error;
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes("NSFW")) {
+        return new AppError(
+          "Content not suitable for generation. Please modify your request.",
+          400,
+          "CONTENT_FILTERED"
+        );
+      }
+      if (error.message.includes("rate limit")) {
+        return new AppError(
+          "Rate limit exceeded. Please try again later.",
+          429,
+          "RATE_LIMIT_EXCEEDED"
+        );
+      }
+    }
+
+    return new AppError(
+      "Replicate image generation failed",
+      500,
+      "REPLICATE_ERROR"
+    );
+  }
+}
@@ -0,0 +1,201 @@
+import { config } from "../../config/env";
+import {
+  AIGenerationResult,
+  ImageGenerationRequest,
+  ImageProvider,
+} from "../../types";
+import { AppError } from "../../middleware/error.middleware";
+import logger from "../../utils/logger";
+import { SeedUtil } from "../../utils/seed";
+
+/**
+ * Self-hosted Stable Diffusion behind the AUTOMATIC1111 web UI API.
+ * Redesigns need the ControlNet extension and STABLE_DIFFUSION_CONTROLNET_MODEL.
+ */
+export class StableDiffusionProvider implements ImageProvider {
+  readonly name = "stable-diffusion";
+  readonly capabilities = {
+    imageToImage: true,
+    inpainting: true,
+    maxOutputs: 4,
+    sizes: ["512x512", "768x768", "1024x1024"],
+    seed: true,
+    negativePrompt: true,
+    steps: { min: 1, max: 150 },
+    guidance: { min: 1, max: 30 },
+  };
+  readonly defaultOutputs = 3;
+  readonly costPerImage = 0;
+
+  private apiUrl = config.ai.stableDiffusion.apiUrl.replace(/\/+$/, "");
+
+  async generate(request: ImageGenerationRequest): Promise<AIGenerationResult> {
+    const {
+      prompt,
+      mode,
+      inputImageUrl,
+      maskImageUrl,
+      strength = 0.8,
+      signal,
+      seed,
+      negativePrompt,
+      width = 1024,
+      height = 1024,
+      steps = 30,
+      guidance = 7.5,
+      numOutputs = this.defaultOutputs,
+    } = request;
+
+    try {
+      const startTime = Date.now();
+
+      logger.ai("Starting Stable Diffusion image generation", {
+        prompt: prompt.substring(0, 100),
+        mode,
+      });
+
+      const input: any = {
+        prompt,
+        ...(negativePrompt && { negative_prompt: negativePrompt }),
+        batch_size: numOutputs,
+        steps,
+        cfg_scale: guidance,
+        width,
+        height,
+        sampler_name: "DPM++ 2M Karras",
+        seed: seed ?? SeedUtil.random(),
+      };
+
+      let endpoint = "txt2img";
+      if (mode === "redesign") {
+        if (!inputImageUrl) {
+          throw new AppError(
+            "A source image is required for a redesign",
+            400,
+            "SOURCE_IMAGE_REQUIRED"
+          );
+        }
+
+        // img2img restyles the photo; the depth ControlNet pins its layout
+        const source = await this.fetchAsBase64(inputImageUrl, signal);
+        endpoint = "img2img";
+        input.init_images = [source];
+        input.denoising_strength = strength;
+        input.alwayson_scripts = {
+          controlnet: {
+            args: [
+              {
+                input_image: source,
+                module: "depth_midas",
+                model: config.ai.stableDiffusion.controlNetModel,
+                weight: 1,
+              },
+            ],
+          },
+        };
+      } else if (mode === "edit") {
+        if (!inputImageUrl || !maskImageUrl) {
+          throw new AppError(
+            "A source image and mask are required for an edit",
+            400,
+            "SOURCE_IMAGE_REQUIRED"
+          );
+        }
+
+        // Inpaint only the masked region, starting from the original pixels
+        endpoint = "img2img";
+        input.init_images = [await this.fetchAsBase64(inputImageUrl, signal)];
+        input.mask = await this.fetchAsBase64(maskImageUrl, signal);
+        input.inpainting_fill = 1;
+        input.inpaint_full_res = true;
+        input.denoising_strength = 0.9;
+      }
+
+      const response = await fetch(`${this.apiUrl}/sdapi/v1/${endpoint}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `Stable Diffusion API responded with ${response.status}`
+        );
+      }
+
+      const output = (await response.json()) as { images?: string[] };
+      const processingTime = Date.now() - startTime;
+
+      const imageUrls = (output.images || []).map(
+        (image) => `data:image/png;base64,${image}`
+      );
+
+      if (imageUrls.length === 0) {
+        throw new AppError(
+          "No images generated by Stable Diffusion",
+          500,
+          "AI_GENERATION_FAILED"
+        );
+      }
+
+      logger.ai("Stable Diffusion image generation completed", {
+        imageCount: imageUrls.length,
+        processingTime,
+      });
+
+      const { init_images, mask, alwayson_scripts, ...parameters } = input;
+      if (alwayson_scripts) {
+        parameters.controlNetModel = config.ai.stableDiffusion.controlNetModel;
+      }
+
+      return {
+        imageUrls,
+        // The web UI increments the seed for each image in a batch
+        seeds: SeedUtil.derive(input.seed, imageUrls.length),
+        prompt,
+        metadata: {
+          provider: this.name,
+          model: "stable-diffusion",
+          processingTime,
+          parameters,
+        },
+      };
+    } catch (error) {
+      logger.error("Stable Diffusion generation failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        "Stable Diffusion image generation failed",
+        500,
+        "STABLE_DIFFUSION_ERROR"
+      );
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.apiUrl}/sdapi/v1/progress`);
+      return response.ok;
+    } catch (error) {
+      logger.error("Stable Diffusion health check failed:", error);
+      return false;
+    }
+  }
+
+  private async fetchAsBase64(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const response = await fetch(url, { signal });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch input image (${response.status})`);
+    }
+
+    return Buffer.from(await response.arrayBuffer()).toString("base64");
+  }
+}
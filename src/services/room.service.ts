@@ -1,33 +1,54 @@
 import { PrismaClient } from "@prisma/client";
-import { CreateRoomDto, UpdateRoomDto, RoomQuery } from "../types";
+import {
+  CreateRoomDto,
+  UpdateRoomDto,
+  RoomQuery,
+  AuditAction,
+  RequestContext,
+} from "../types";
+import { AuditService } from "./audit.service";
+import { AccessService } from "./access.service";
+import { AssetCleanupService } from "./asset-cleanup.service";
 import { AppError } from "../middleware/error.middleware";
 import logger from "../utils/logger";
 
+// Fields of the approved design shown on a room
+const APPROVED_DESIGN_SELECT = {
+  select: {
+    id: true,
+    imageUrl: true,
+    rating: true,
+    isFavorite: true,
+  },
+};
+
 export class RoomService {
-  constructor(private prisma: PrismaClient) {}
+  private auditService: AuditService;
+  private accessService: AccessService;
+  private assetCleanupService: AssetCleanupService;
+
+  constructor(private prisma: PrismaClient) {
+    this.auditService = new AuditService(prisma);
+    this.accessService = new AccessService(prisma);
+    this.assetCleanupService = new AssetCleanupService(prisma);
+  }
 
   /**
    * Create a new room
    */
   async createRoom(userId: string, roomData: CreateRoomDto): Promise<any> {
     try {
-      // First, verify that the project exists and belongs to the user
+      // First, verify that the project exists and the user can edit it
       const project = await this.prisma.project.findUnique({
         where: { id: roomData.projectId },
-        select: { userId: true, name: true },
+        select: { userId: true, organizationId: true, name: true },
       });
 
       if (!project) {
         throw new AppError("Project not found", 404, "PROJECT_NOT_FOUND");
       }
 
-      if (project.userId !== userId) {
-        throw new AppError(
-          "Access denied. You can only add rooms to your own projects.",
-          403,
-          "ACCESS_DENIED"
-        );
-      }
+      await this.accessService.authorizeProject(project, userId, "edit");
 
       // Create the room
       const room = await this.prisma.room.create({
@@ -46,6 +67,7 @@ export class RoomService {
               id: true,
               imageUrl: true,
               status: true,
+              reviewStatus: true,
               createdAt: true,
             },
             orderBy: { createdAt: "desc" },
@@ -97,6 +119,7 @@ export class RoomService {
       const room = await this.prisma.room.findUnique({
         where: { id: roomId },
         include: {
+          approvedDesign: APPROVED_DESIGN_SELECT,
           project: {
             select: {
               id: true,
@@ -104,6 +127,7 @@ export class RoomService {
               type: true,
               style: true,
               userId: true,
+              organizationId: true,
             },
           },
           designs: {
@@ -125,14 +149,8 @@ export class RoomService {
         throw new AppError("Room not found", 404, "ROOM_NOT_FOUND");
       }
 
-      // Check ownership through project
-      if (room.project.userId !== userId) {
-        throw new AppError(
-          "Access denied. You can only view your own rooms.",
-          403,
-          "ACCESS_DENIED"
-        );
-      }
+      // Check access through project
+      await this.accessService.authorizeProject(room.project, userId, "view");
 
       return this.formatRoomResponse(room, true);
     } catch (error) {
@@ -155,12 +173,12 @@ export class RoomService {
     updateData: UpdateRoomDto
   ): Promise<any> {
     try {
-      // First check if room exists and user owns it
+      // First check if room exists and user can edit it
       const existingRoom = await this.prisma.room.findUnique({
         where: { id: roomId },
         include: {
           project: {
-            select: { userId: true },
+            select: { userId: true, organizationId: true },
           },
         },
       });
@@ -169,19 +187,18 @@ export class RoomService {
         throw new AppError("Room not found", 404, "ROOM_NOT_FOUND");
       }
 
-      if (existingRoom.project.userId !== userId) {
-        throw new AppError(
-          "Access denied. You can only update your own rooms.",
-          403,
-          "ACCESS_DENIED"
-        );
-      }
+      await this.accessService.authorizeProject(
+        existingRoom.project,
+        userId,
+        "edit"
+      );
 
       // Update room
       const room = await this.prisma.room.update({
         where: { id: roomId },
         data: updateData,
         include: {
+          approvedDesign: APPROVED_DESIGN_SELECT,
           project: {
             select: {
               id: true,
@@ -195,6 +212,7 @@ export class RoomService {
               id: true,
               imageUrl: true,
               status: true,
+              reviewStatus: true,
               createdAt: true,
             },
             orderBy: { createdAt: "desc" },
@@ -240,14 +258,18 @@ export class RoomService {
   /**
    * Delete room
    */
-  async deleteRoom(roomId: string, userId: string): Promise<void> {
+  async deleteRoom(
+    roomId: string,
+    userId: string,
+    context?: RequestContext
+  ): Promise<void> {
     try {
-      // First check if room exists and user owns it
+      // First check if room exists and user can edit it
       const existingRoom = await this.prisma.room.findUnique({
         where: { id: roomId },
         include: {
           project: {
-            select: { userId: true },
+            select: { userId: true, organizationId: true },
           },
           _count: {
             select: {
@@ -262,18 +284,22 @@ export class RoomService {
         throw new AppError("Room not found", 404, "ROOM_NOT_FOUND");
       }
 
-      if (existingRoom.project.userId !== userId) {
-        throw new AppError(
-          "Access denied. You can only delete your own rooms.",
-          403,
-          "ACCESS_DENIED"
-        );
-      }
+      await this.accessService.authorizeProject(
+        existingRoom.project,
+        userId,
+        "edit"
+      );
 
-      // Delete room (cascade delete will handle designs and uploads)
-      await this.prisma.room.delete({
-        where: { id: roomId },
-      });
+      const assets = await this.assetCleanupService.collectRoomAssets([roomId]);
+
+      // Delete room (cascade delete will handle designs). Uploads only lose
+      // their room on cascade, so remove them explicitly.
+      await this.prisma.$transaction([
+        this.prisma.upload.deleteMany({ where: { roomId } }),
+        this.prisma.room.delete({ where: { id: roomId } }),
+      ]);
+
+      await this.assetCleanupService.enqueueDeletion(assets, `room:${roomId}`);
 
       logger.info("Room deleted successfully", {
         roomId,
@@ -281,6 +307,19 @@ export class RoomService {
         designsDeleted: existingRoom._count.designs,
         uploadsDeleted: existingRoom._count.uploads,
       });
+
+      await this.auditService.log({
+        userId,
+        action: AuditAction.ROOM_DELETED,
+        resource: "room",
+        resourceId: roomId,
+        metadata: {
+          projectId: existingRoom.projectId,
+          designsDeleted: existingRoom._count.designs,
+          uploadsDeleted: existingRoom._count.uploads,
+        },
+        context,
+      });
     } catch (error) {
       logger.error("Room deletion failed:", error);
 
@@ -313,9 +352,7 @@ export class RoomService {
 
       // Build where clause
       const whereClause: any = {
-        project: {
-          userId,
-        },
+        project: this.accessService.accessibleProjectsWhere(userId),
       };
 
       if (projectId) {
@@ -335,6 +372,7 @@ export class RoomService {
       const rooms = await this.prisma.room.findMany({
         where: whereClause,
         include: {
+          approvedDesign: APPROVED_DESIGN_SELECT,
           project: {
             select: {
               id: true,
@@ -348,6 +386,7 @@ export class RoomService {
               id: true,
               imageUrl: true,
               status: true,
+              reviewStatus: true,
               createdAt: true,
             },
             orderBy: { createdAt: "desc" },
@@ -397,33 +436,29 @@ export class RoomService {
    */
   async getProjectRooms(projectId: string, userId: string): Promise<any[]> {
     try {
-      // First verify the user owns the project
+      // First verify the user can see the project
       const project = await this.prisma.project.findUnique({
         where: { id: projectId },
-        select: { userId: true },
+        select: { userId: true, organizationId: true },
       });
 
       if (!project) {
         throw new AppError("Project not found", 404, "PROJECT_NOT_FOUND");
       }
 
-      if (project.userId !== userId) {
-        throw new AppError(
-          "Access denied. You can only view rooms from your own projects.",
-          403,
-          "ACCESS_DENIED"
-        );
-      }
+      await this.accessService.authorizeProject(project, userId, "view");
 
       // Get rooms for the project
       const rooms = await this.prisma.room.findMany({
         where: { projectId },
         include: {
+          approvedDesign: APPROVED_DESIGN_SELECT,
           designs: {
             select: {
               id: true,
               imageUrl: true,
               status: true,
+              reviewStatus: true,
               createdAt: true,
             },
             orderBy: { createdAt: "desc" },
@@ -474,12 +509,12 @@ export class RoomService {
     imageUrl: string
   ): Promise<any> {
     try {
-      // First check if room exists and user owns it
+      // First check if room exists and user can edit it
       const existingRoom = await this.prisma.room.findUnique({
         where: { id: roomId },
         include: {
           project: {
-            select: { userId: true },
+            select: { userId: true, organizationId: true },
           },
         },
       });
@@ -488,19 +523,18 @@ export class RoomService {
         throw new AppError("Room not found", 404, "ROOM_NOT_FOUND");
       }
 
-      if (existingRoom.project.userId !== userId) {
-        throw new AppError(
-          "Access denied. You can only update your own rooms.",
-          403,
-          "ACCESS_DENIED"
-        );
-      }
+      await this.accessService.authorizeProject(
+        existingRoom.project,
+        userId,
+        "edit"
+      );
 
       // Update room with new image URL
       const room = await this.prisma.room.update({
         where: { id: roomId },
         data: { originalImageUrl: imageUrl },
         include: {
+          approvedDesign: APPROVED_DESIGN_SELECT,
           project: {
             select: {
               id: true,
@@ -552,12 +586,10 @@ export class RoomService {
     totalUploads: number;
   }> {
     try {
-      // Get all user rooms through their projects
+      // Get all rooms in projects the user can access
       const rooms = await this.prisma.room.findMany({
         where: {
-          project: {
-            userId,
-          },
+          project: this.accessService.accessibleProjectsWhere(userId),
         },
         include: {
           project: {
@@ -665,6 +697,14 @@ export class RoomService {
       updatedAt: room.updatedAt.toISOString(),
       designCount: room._count?.designs || room.designs?.length || 0,
       uploadCount: room._count?.uploads || room.uploads?.length || 0,
+      approvedDesign: room.approvedDesign
+        ? {
+            id: room.approvedDesign.id,
+            imageUrl: room.approvedDesign.imageUrl,
+            rating: room.approvedDesign.rating,
+            isFavorite: room.approvedDesign.isFavorite,
+          }
+        : null,
     };
 
     // Add project information if available
@@ -683,6 +723,7 @@ export class RoomService {
         id: design.id,
         imageUrl: design.imageUrl,
         status: design.status,
+        reviewStatus: design.reviewStatus,
         createdAt: design.createdAt.toISOString(),
         ...(includeFullDetails && {
           prompt: design.prompt,
@@ -0,0 +1,349 @@
+import { PrismaClient } from "@prisma/client";
+import {
+  AuditAction,
+  CreateShareLinkDto,
+  DesignStatus,
+  RequestContext,
+} from "../types";
+import { AuditService } from "./audit.service";
+import { AccessService } from "./access.service";
+import { AppError } from "../middleware/error.middleware";
+import { TokenUtil } from "../utils/token";
+import { BcryptUtil } from "../utils/bcrypt";
+import { config } from "../config/env";
+import logger from "../utils/logger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_SHARE_LINK_TTL_MS = 365 * DAY_MS;
+
+export class ShareService {
+  private auditService: AuditService;
+  private accessService: AccessService;
+
+  constructor(private prisma: PrismaClient) {
+    this.auditService = new AuditService(prisma);
+    this.accessService = new AccessService(prisma);
+  }
+
+  /**
+   * Create a read-only share link for a project.
+   * The token is only returned here; the database keeps its hash.
+   */
+  async createShareLink(
+    projectId: string,
+    userId: string,
+    data: CreateShareLinkDto,
+    context?: RequestContext
+  ): Promise<any> {
+    try {
+      await this.authorizeProject(projectId, userId);
+
+      const expiresAt = data.expiresAt
+        ? new Date(data.expiresAt)
+        : new Date(Date.now() + config.sharing.linkTtlDays * DAY_MS);
+
+      if (expiresAt.getTime() > Date.now() + MAX_SHARE_LINK_TTL_MS) {
+        throw new AppError(
+          "Share links can be valid for at most one year",
+          400,
+          "INVALID_EXPIRY"
+        );
+      }
+
+      const token = TokenUtil.generate();
+      const link = await this.prisma.projectShareLink.create({
+        data: {
+          projectId,
+          createdById: userId,
+          tokenHash: TokenUtil.hash(token),
+          passwordHash: data.password
+            ? await BcryptUtil.hashPassword(data.password)
+            : null,
+          expiresAt,
+        },
+      });
+
+      await this.auditService.log({
+        userId,
+        action: AuditAction.SHARE_LINK_CREATED,
+        resource: "project",
+        resourceId: projectId,
+        metadata: {
+          shareLinkId: link.id,
+          expiresAt: expiresAt.toISOString(),
+          passwordProtected: !!link.passwordHash,
+        },
+        context,
+      });
+
+      logger.info("Share link created", {
+        shareLinkId: link.id,
+        projectId,
+        userId,
+      });
+
+      return {
+        ...this.formatShareLinkResponse(link),
+        token,
+        url: `${config.server.appUrl}/share/${token}`,
+      };
+    } catch (error) {
+      logger.error("Share link creation failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        "Failed to create share link",
+        500,
+        "SHARE_LINK_CREATION_ERROR"
+      );
+    }
+  }
+
+  /**
+   * List a project's share links, newest first
+   */
+  async getShareLinks(projectId: string, userId: string): Promise<any[]> {
+    try {
+      await this.authorizeProject(projectId, userId);
+
+      const links = await this.prisma.projectShareLink.findMany({
+        where: { projectId },
+        orderBy: { createdAt: "desc" },
+      });
+
+      return links.map((link) => this.formatShareLinkResponse(link));
+    } catch (error) {
+      logger.error("Get share links failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        "Failed to get share links",
+        500,
+        "GET_SHARE_LINKS_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Revoke a share link. Revoking twice is a no-op.
+   */
+  async revokeShareLink(
+    projectId: string,
+    shareLinkId: string,
+    userId: string,
+    context?: RequestContext
+  ): Promise<any> {
+    try {
+      await this.authorizeProject(projectId, userId);
+
+      const link = await this.prisma.projectShareLink.findFirst({
+        where: { id: shareLinkId, projectId },
+      });
+
+      if (!link) {
+        throw new AppError("Share link not found", 404, "SHARE_LINK_NOT_FOUND");
+      }
+
+      if (link.revokedAt) {
+        return this.formatShareLinkResponse(link);
+      }
+
+      const revoked = await this.prisma.projectShareLink.update({
+        where: { id: link.id },
+        data: { revokedAt: new Date() },
+      });
+
+      await this.auditService.log({
+        userId,
+        action: AuditAction.SHARE_LINK_REVOKED,
+        resource: "project",
+        resourceId: projectId,
+        metadata: { shareLinkId: link.id },
+        context,
+      });
+
+      logger.info("Share link revoked", {
+        shareLinkId: link.id,
+        projectId,
+        userId,
+      });
+
+      return this.formatShareLinkResponse(revoked);
+    } catch (error) {
+      logger.error("Share link revocation failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        "Failed to revoke share link",
+        500,
+        "SHARE_LINK_REVOKE_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Resolve a share token to the project's rooms and completed designs.
+   * Counts a view for every successful request.
+   */
+  async getSharedProject(token: string, password?: string): Promise<any> {
+    try {
+      const link = await this.prisma.projectShareLink.findUnique({
+        where: { tokenHash: TokenUtil.hash(token) },
+      });
+
+      if (!link) {
+        throw new AppError("Share link not found", 404, "SHARE_LINK_NOT_FOUND");
+      }
+
+      if (link.revokedAt || link.expiresAt <= new Date()) {
+        throw new AppError(
+          "This share link has expired",
+          410,
+          "SHARE_LINK_EXPIRED"
+        );
+      }
+
+      if (link.passwordHash) {
+        if (!password) {
+          throw new AppError(
+            "This share link is password protected",
+            401,
+            "SHARE_PASSWORD_REQUIRED"
+          );
+        }
+
+        const isValid = await BcryptUtil.comparePassword(
+          password,
+          link.passwordHash
+        );
+
+        if (!isValid) {
+          logger.security("Invalid share link password", {
+            shareLinkId: link.id,
+          });
+          throw new AppError(
+            "Invalid share link password",
+            401,
+            "INVALID_SHARE_PASSWORD"
+          );
+        }
+      }
+
+      const project = await this.prisma.project.findUnique({
+        where: { id: link.projectId },
+        include: {
+          rooms: {
+            include: {
+              designs: {
+                where: { status: DesignStatus.COMPLETED },
+                include: { variants: { orderBy: { index: "asc" } } },
+                orderBy: { createdAt: "desc" },
+              },
+            },
+            orderBy: { createdAt: "asc" },
+          },
+        },
+      });
+
+      if (!project) {
+        throw new AppError("Share link not found", 404, "SHARE_LINK_NOT_FOUND");
+      }
+
+      await this.prisma.projectShareLink.update({
+        where: { id: link.id },
+        data: { viewCount: { increment: 1 }, lastViewedAt: new Date() },
+      });
+
+      return {
+        project: this.formatSharedProject(project),
+        expiresAt: link.expiresAt.toISOString(),
+      };
+    } catch (error) {
+      logger.error("Get shared project failed:", error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        "Failed to get shared project",
+        500,
+        "GET_SHARED_PROJECT_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Managing share links requires edit access to the project
+   */
+  private async authorizeProject(
+    projectId: string,
+    userId: string
+  ): Promise<void> {
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      select: { userId: true, organizationId: true },
+    });
+
+    if (!project) {
+      throw new AppError("Project not found", 404, "PROJECT_NOT_FOUND");
+    }
+
+    await this.accessService.authorizeProject(project, userId, "edit");
+  }
+
+  /**
+   * Format share link response (never includes the token or password hash)
+   */
+  private formatShareLinkResponse(link: any): any {
+    return {
+      id: link.id,
+      projectId: link.projectId,
+      passwordProtected: !!link.passwordHash,
+      expiresAt: link.expiresAt.toISOString(),
+      revokedAt: link.revokedAt?.toISOString() ?? null,
+      isActive: !link.revokedAt && link.expiresAt > new Date(),
+      viewCount: link.viewCount,
+      lastViewedAt: link.lastViewedAt?.toISOString() ?? null,
+      createdAt: link.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * Format the client-facing project view, without owner or prompt details
+   */
+  private formatSharedProject(project: any): any {
+    return {
+      name: project.name,
+      description: project.description,
+      type: project.type,
+      style: project.style,
+      rooms: project.rooms.map((room: any) => ({
+        id: room.id,
+        name: room.name,
+        type: room.type,
+        length: room.length,
+        width: room.width,
+        height: room.height,
+        materials: room.materials,
+        ambientColor: room.ambientColor,
+        originalImageUrl: room.originalImageUrl,
+        designs: room.designs.map((design: any) => ({
+          id: design.id,
+          imageUrl: design.imageUrl,
+          imageUrls: design.variants.map((variant: any) => variant.imageUrl),
+          createdAt: design.createdAt.toISOString(),
+        })),
+      })),
+    };
+  }
+}
@@ -0,0 +1,421 @@
+import crypto from "crypto";
+import { PrismaClient } from "@prisma/client";
+import { AuditAction, RequestContext, TwoFactorSetup } from "../types";
+import { AuditService } from "./audit.service";
+import { AppError } from "../middleware/error.middleware";
+import { BcryptUtil } from "../utils/bcrypt";
+import { EncryptionUtil } from "../utils/encryption";
+import { TokenUtil } from "../utils/token";
+import { TotpUtil } from "../utils/totp";
+import { RedisClient } from "../utils/redis";
+import { config } from "../config/env";
+import logger from "../utils/logger";
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Guesses allowed per login challenge, and per user across challenges
+// within the window, so rotating IPs or challenges doesn't help
+const MAX_CHALLENGE_ATTEMPTS = 5;
+const MAX_USER_FAILURES = 10;
+const USER_FAILURE_WINDOW_MS = 15 * 60 * 1000;
+
+export class TwoFactorService {
+  private auditService: AuditService;
+
+  constructor(private prisma: PrismaClient) {
+    this.auditService = new AuditService(prisma);
+  }
+
+  /**
+   * Start enrollment: store a pending secret and return it for the
+   * authenticator app. 2FA stays off until a code is confirmed.
+   */
+  async setup(userId: string): Promise<TwoFactorSetup> {
+    try {
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, email: true, twoFactorEnabled: true },
+      });
+
+      if (!user) {
+        throw new AppError("User not found", 404, "USER_NOT_FOUND");
+      }
+
+      if (user.twoFactorEnabled) {
+        throw new AppError(
+          "Two-factor authentication is already enabled",
+          409,
+          "TWO_FACTOR_ALREADY_ENABLED"
+        );
+      }
+
+      const secret = TotpUtil.generateSecret();
+
+      await this.prisma.user.update({
+        where: { id: userId },
+        data: {
+          twoFactorSecret: EncryptionUtil.encrypt(secret),
+          twoFactorLastStep: null,
+        },
+      });
+
+      logger.info("Two-factor enrollment started", { userId });
+
+      return {
+        secret,
+        otpauthUri: TotpUtil.buildOtpauthUri(
+          secret,
+          user.email,
+          config.auth.twoFactorIssuer
+        ),
+      };
+    } catch (error) {
+      logger.error("Two-factor setup failed:", error);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError(
+        "Failed to set up two-factor authentication",
+        500,
+        "TWO_FACTOR_SETUP_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Finish enrollment with a code from the app. Returns the recovery codes,
+   * which are shown once and only stored hashed.
+   */
+  async confirm(
+    userId: string,
+    code: string,
+    context?: RequestContext
+  ): Promise<string[]> {
+    try {
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          id: true,
+          twoFactorEnabled: true,
+          twoFactorSecret: true,
+        },
+      });
+
+      if (!user) {
+        throw new AppError("User not found", 404, "USER_NOT_FOUND");
+      }
+
+      if (user.twoFactorEnabled) {
+        throw new AppError(
+          "Two-factor authentication is already enabled",
+          409,
+          "TWO_FACTOR_ALREADY_ENABLED"
+        );
+      }
+
+      if (!user.twoFactorSecret) {
+        throw new AppError(
+          "Start two-factor setup first",
+          400,
+          "TWO_FACTOR_NOT_SET_UP"
+        );
+      }
+
+      const step = TotpUtil.verify(
+        EncryptionUtil.decrypt(user.twoFactorSecret),
+        code
+      );
+
+      if (step === null) {
+        throw new AppError(
+          "Invalid two-factor code",
+          400,
+          "INVALID_TWO_FACTOR_CODE"
+        );
+      }
+
+      const recoveryCodes = this.generateRecoveryCodes();
+
+      await this.prisma.$transaction([
+        this.prisma.user.update({
+          where: { id: userId },
+          data: { twoFactorEnabled: true, twoFactorLastStep: step },
+        }),
+        this.prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+        this.prisma.twoFactorRecoveryCode.createMany({
+          data: recoveryCodes.map((recoveryCode) => ({
+            userId,
+            codeHash: this.hashRecoveryCode(recoveryCode),
+          })),
+        }),
+      ]);
+
+      await this.auditService.log({
+        userId,
+        action: AuditAction.TWO_FACTOR_ENABLED,
+        resource: "user",
+        resourceId: userId,
+        context,
+      });
+
+      logger.info("Two-factor authentication enabled", { userId });
+
+      return recoveryCodes;
+    } catch (error) {
+      logger.error("Two-factor confirmation failed:", error);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError(
+        "Failed to enable two-factor authentication",
+        500,
+        "TWO_FACTOR_CONFIRM_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Turn 2FA off after re-confirming the account password
+   */
+  async disable(
+    userId: string,
+    password: string,
+    context?: RequestContext
+  ): Promise<void> {
+    try {
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, password: true, twoFactorEnabled: true },
+      });
+
+      if (!user) {
+        throw new AppError("User not found", 404, "USER_NOT_FOUND");
+      }
+
+      const isPasswordValid = await BcryptUtil.comparePassword(
+        password,
+        user.password
+      );
+
+      if (!isPasswordValid) {
+        logger.security("Two-factor disable rejected: wrong password", {
+          userId,
+        });
+        throw new AppError("Password is incorrect", 400, "INVALID_PASSWORD");
+      }
+
+      if (!user.twoFactorEnabled) {
+        throw new AppError(
+          "Two-factor authentication is not enabled",
+          409,
+          "TWO_FACTOR_NOT_ENABLED"
+        );
+      }
+
+      await this.prisma.$transaction([
+        this.prisma.user.update({
+          where: { id: userId },
+          data: {
+            twoFactorEnabled: false,
+            twoFactorSecret: null,
+            twoFactorLastStep: null,
+          },
+        }),
+        this.prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      ]);
+
+      await this.auditService.log({
+        userId,
+        action: AuditAction.TWO_FACTOR_DISABLED,
+        resource: "user",
+        resourceId: userId,
+        context,
+      });
+
+      logger.info("Two-factor authentication disabled", { userId });
+    } catch (error) {
+      logger.error("Two-factor disable failed:", error);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError(
+        "Failed to disable two-factor authentication",
+        500,
+        "TWO_FACTOR_DISABLE_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Check the second factor of a login: a TOTP code, or failing that a
+   * recovery code. Both are single-use.
+   */
+  async verifyLogin(
+    userId: string,
+    credentials: { code?: string; recoveryCode?: string },
+    context?: RequestContext
+  ): Promise<boolean> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        twoFactorEnabled: true,
+        twoFactorSecret: true,
+        twoFactorLastStep: true,
+      },
+    });
+
+    if (!user?.twoFactorEnabled || !user.twoFactorSecret) {
+      return false;
+    }
+
+    if (credentials.code) {
+      const step = TotpUtil.verify(
+        EncryptionUtil.decrypt(user.twoFactorSecret),
+        credentials.code
+      );
+
+      if (step === null) {
+        return false;
+      }
+
+      // Only advance the step forward; a code that was already accepted
+      // (or an older one) is a replay
+      const claimed = await this.prisma.user.updateMany({
+        where: {
+          id: userId,
+          OR: [
+            { twoFactorLastStep: null },
+            { twoFactorLastStep: { lt: step } },
+          ],
+        },
+        data: { twoFactorLastStep: step },
+      });
+
+      if (claimed.count === 0) {
+        logger.security("Replayed two-factor code rejected", { userId });
+        return false;
+      }
+
+      return true;
+    }
+
+    if (credentials.recoveryCode) {
+      const claimed = await this.prisma.twoFactorRecoveryCode.updateMany({
+        where: {
+          userId,
+          codeHash: this.hashRecoveryCode(credentials.recoveryCode),
+          usedAt: null,
+        },
+        data: { usedAt: new Date() },
+      });
+
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      const remaining = await this.prisma.twoFactorRecoveryCode.count({
+        where: { userId, usedAt: null },
+      });
+
+      await this.auditService.log({
+        userId,
+        action: AuditAction.RECOVERY_CODE_USED,
+        resource: "user",
+        resourceId: userId,
+        metadata: { remaining },
+        context,
+      });
+
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Count an attempt against a login challenge. Returns false once the
+   * challenge is used up or the user has failed too often recently.
+   */
+  async claimChallengeAttempt(
+    challengeId: string,
+    userId: string
+  ): Promise<boolean> {
+    try {
+      const client = await RedisClient.getClient();
+      const challengeKey = RedisClient.key("2fa", "challenge", challengeId);
+      const failuresKey = RedisClient.key("2fa", "failures", userId);
+
+      const attempts = await client.incr(challengeKey);
+      if (attempts === 1) {
+        await client.pExpire(
+          challengeKey,
+          config.auth.twoFactorChallengeTtlMinutes * 60 * 1000
+        );
+      }
+
+      const failures = Number((await client.get(failuresKey)) ?? 0);
+
+      return attempts <= MAX_CHALLENGE_ATTEMPTS && failures < MAX_USER_FAILURES;
+    } catch (error) {
+      // Without the counters, guessing would be unlimited; fail closed
+      logger.error("Two-factor attempt tracking failed:", error);
+      throw new AppError(
+        "Two-factor verification is temporarily unavailable. Please try again later.",
+        503,
+        "TWO_FACTOR_UNAVAILABLE"
+      );
+    }
+  }
+
+  /**
+   * Record how a challenge attempt went. A successful challenge can't be
+   * used again; a failure counts towards the user's limit.
+   */
+  async recordChallengeResult(
+    challengeId: string,
+    userId: string,
+    success: boolean
+  ): Promise<void> {
+    try {
+      const client = await RedisClient.getClient();
+      const challengeKey = RedisClient.key("2fa", "challenge", challengeId);
+      const failuresKey = RedisClient.key("2fa", "failures", userId);
+
+      if (success) {
+        await client.set(challengeKey, String(MAX_CHALLENGE_ATTEMPTS + 1), {
+          KEEPTTL: true,
+        });
+        await client.del(failuresKey);
+        return;
+      }
+
+      const failures = await client.incr(failuresKey);
+      if (failures === 1) {
+        await client.pExpire(failuresKey, USER_FAILURE_WINDOW_MS);
+      }
+
+      if (failures === MAX_USER_FAILURES) {
+        logger.security("Two-factor attempts locked for user", { userId });
+      }
+    } catch (error) {
+      logger.error("Recording two-factor attempt failed:", error);
+    }
+  }
+
+  /**
+   * Codes like "a1b2c-3d4e5"
+   */
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString("hex");
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+  }
+
+  /**
+   * Users retype these, so ignore case, spaces and dashes
+   */
+  private hashRecoveryCode(code: string): string {
+    return TokenUtil.hash(code.toLowerCase().replace(/[\s-]/g, ""));
+  }
+}
@@ -1,11 +1,20 @@
 import { PrismaClient } from "@prisma/client";
+import { AuditAction, RequestContext } from "../types";
 import { CloudinaryUtil } from "../utils/cloudinary";
+import { AuditService } from "./audit.service";
+import { AccessService } from "./access.service";
 import { AppError } from "../middleware/error.middleware";
 import { createSafeFilename } from "../middleware/upload.middleware";
 import logger from "../utils/logger";
 
 export class UploadService {
-  constructor(private prisma: PrismaClient) {}
+  private auditService: AuditService;
+  private accessService: AccessService;
+
+  constructor(private prisma: PrismaClient) {
+    this.auditService = new AuditService(prisma);
+    this.accessService = new AccessService(prisma);
+  }
 
   /**
    * Upload room image
@@ -15,6 +24,7 @@ export class UploadService {
     options: {
       roomId?: string;
       userId: string;
+      context?: RequestContext;
     }
   ): Promise<{
     upload: any;
@@ -72,6 +82,19 @@ export class UploadService {
         userId: options.userId,
       });
 
+      await this.auditService.log({
+        userId: options.userId,
+        action: AuditAction.UPLOAD_CREATED,
+        resource: "upload",
+        resourceId: upload.id,
+        metadata: {
+          filename: upload.originalName,
+          size: upload.size,
+          roomId: upload.roomId,
+        },
+        context: options.context,
+      });
+
       return {
         upload: {
           id: upload.id,
@@ -116,6 +139,7 @@ export class UploadService {
                   id: true,
                   name: true,
                   userId: true,
+                  organizationId: true,
                 },
               },
             },
@@ -153,7 +177,11 @@ export class UploadService {
   /**
    * Delete upload
    */
-  async deleteUpload(uploadId: string, userId: string): Promise<void> {
+  async deleteUpload(
+    uploadId: string,
+    userId: string,
+    context?: RequestContext
+  ): Promise<void> {
     try {
       // Get upload with room information to check ownership
       const upload = await this.prisma.upload.findUnique({
@@ -164,6 +192,7 @@ export class UploadService {
               project: {
                 select: {
                   userId: true,
+                  organizationId: true,
                 },
               },
             },
@@ -175,15 +204,21 @@ export class UploadService {
         throw new AppError("Upload not found", 404, "UPLOAD_NOT_FOUND");
       }
 
-      // Check ownership
-      if (upload.room?.project?.userId !== userId) {
+      // Uploads outside a room have no project to grant access through
+      if (!upload.room) {
         throw new AppError(
-          "Access denied. You can only delete your own uploads.",
+          "Access denied. You can only delete uploads in your projects.",
           403,
           "ACCESS_DENIED"
         );
       }
 
+      await this.accessService.authorizeProject(
+        upload.room.project,
+        userId,
+        "edit"
+      );
+
       // Delete from Cloudinary if cloudinaryId exists
       if (upload.cloudinaryId) {
         try {
@@ -207,6 +242,15 @@ export class UploadService {
         filename: upload.filename,
         userId,
       });
+
+      await this.auditService.log({
+        userId,
+        action: AuditAction.UPLOAD_DELETED,
+        resource: "upload",
+        resourceId: uploadId,
+        metadata: { filename: upload.originalName },
+        context,
+      });
     } catch (error) {
       logger.error("Delete upload failed:", error);
 
@@ -230,6 +274,7 @@ export class UploadService {
           project: {
             select: {
               userId: true,
+              organizationId: true,
             },
           },
         },
@@ -239,13 +284,7 @@ export class UploadService {
         throw new AppError("Room not found", 404, "ROOM_NOT_FOUND");
       }
 
-      if (room.project.userId !== userId) {
-        throw new AppError(
-          "Access denied. You can only view your own room uploads.",
-          403,
-          "ACCESS_DENIED"
-        );
-      }
+      await this.accessService.authorizeProject(room.project, userId, "view");
 
       // Get uploads for the room
       const uploads = await this.prisma.upload.findMany({
@@ -306,6 +345,7 @@ export class UploadService {
               project: {
                 select: {
                   userId: true,
+                  organizationId: true,
                 },
               },
             },
@@ -317,22 +357,23 @@ export class UploadService {
         throw new AppError("Upload not found", 404, "UPLOAD_NOT_FOUND");
       }
 
-      // If upload already has a room, check ownership
-      if (upload.room && upload.room.project.userId !== userId) {
-        throw new AppError(
-          "Access denied. You can only modify your own uploads.",
-          403,
-          "ACCESS_DENIED"
+      // If upload already has a room, check access to it
+      if (upload.room) {
+        await this.accessService.authorizeProject(
+          upload.room.project,
+          userId,
+          "edit"
         );
       }
 
-      // Verify new room exists and user owns it
+      // Verify new room exists and user can edit it
       const newRoom = await this.prisma.room.findUnique({
         where: { id: roomId },
         select: {
           project: {
             select: {
               userId: true,
+              organizationId: true,
             },
           },
         },
@@ -342,13 +383,11 @@ export class UploadService {
         throw new AppError("Room not found", 404, "ROOM_NOT_FOUND");
       }
 
-      if (newRoom.project.userId !== userId) {
-        throw new AppError(
-          "Access denied. You can only associate uploads with your own rooms.",
-          403,
-          "ACCESS_DENIED"
-        );
-      }
+      await this.accessService.authorizeProject(
+        newRoom.project,
+        userId,
+        "edit"
+      );
 
       // Update upload
       const updatedUpload = await this.prisma.upload.update({
@@ -416,9 +455,7 @@ export class UploadService {
       // Build where clause
       const whereClause: any = {
         room: {
-          project: {
-            userId,
-          },
+          project: this.accessService.accessibleProjectsWhere(userId),
         },
       };
 
@@ -506,7 +543,7 @@ export class UploadService {
       cutoffDate.setDate(cutoffDate.getDate() - olderThanDays);
 
       // Find orphaned uploads
-      const orphanedUploads = await this.prisma.upload.findMany({
+      const candidates = await this.prisma.upload.findMany({
         where: {
           roomId: null,
           createdAt: {
@@ -515,6 +552,20 @@ export class UploadService {
         },
       });
 
+      // Uploads set as a room photo by URL never got a roomId; keep them
+      const roomPhotos = await this.prisma.room.findMany({
+        where: {
+          originalImageUrl: { in: candidates.map((upload) => upload.url) },
+        },
+        select: { originalImageUrl: true },
+      });
+      const roomPhotoUrls = new Set(
+        roomPhotos.map((room) => room.originalImageUrl)
+      );
+      const orphanedUploads = candidates.filter(
+        (upload) => !roomPhotoUrls.has(upload.url)
+      );
+
       let deletedCount = 0;
 
       // Delete each orphaned upload
@@ -567,13 +618,11 @@ export class UploadService {
     recentUploads: number;
   }> {
     try {
-      // Get all user uploads through their rooms
+      // Get all uploads in projects the user can access
       const uploads = await this.prisma.upload.findMany({
         where: {
           room: {
-            project: {
-              userId,
-            },
+            project: this.accessService.accessibleProjectsWhere(userId),
           },
         },
         select: {
@@ -1,11 +1,12 @@
 import { Request } from "express";
-import { User, UserType } from "@prisma/client";
+import { MaintenanceRunStatus, User, UserType } from "@prisma/client";
 
 // Extend Express Request to include user
 export interface AuthenticatedRequest extends Request {
   req: any;
   res: any;
   user?: User;
+  sessionId?: string;
 }
 
 // API Response Types
@@ -32,19 +33,49 @@ export interface ValidationError {
 }
 
 // Auth Types
+export type TokenType =
+  | "access"
+  | "refresh"
+  | "email_verification"
+  | "two_factor_challenge";
+
 export interface JwtPayload {
   userId: string;
   email: string;
   userType: UserType;
+  type?: TokenType;
+  sid?: string; // Session (refresh token family) the token belongs to
+  jti?: string; // Token id; two-factor challenges count attempts by it
 }
 
-export interface LoginResponse {
-  user: UserProfile;
+export interface TokenPair {
   token: string;
   refreshToken: string;
   expiresIn: string;
 }
 
+export interface LoginResponse extends TokenPair {
+  user: UserProfile;
+}
+
+// Returned by login instead of tokens when the account has 2FA enabled
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresIn: string;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface TwoFactorLoginDto {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
 export interface UserProfile {
   id: string;
   email: string;
@@ -80,6 +111,7 @@ export interface CreateProjectDto {
   description?: string;
   type: ProjectType;
   style: InteriorStyle;
+  organizationId?: string;
 }
 
 export interface UpdateProjectDto {
@@ -116,7 +148,61 @@ export interface UpdateRoomDto {
 export interface GenerateDesignDto {
   roomId: string;
   customPrompt?: string;
-  aiProvider?: "openai" | "replicate";
+  aiProvider?: string;
+  mode?: DesignMode;
+  uploadId?: string; // redesign source; defaults to the room's photo
+  strength?: number; // redesign only, 0.1 (subtle) to 1 (full restyle)
+  parameters?: GenerationParameters;
+}
+
+// Optional generation controls, checked against the provider's
+// capabilities. Type alias so it can be stored in a Prisma Json column.
+export type GenerationParameters = {
+  seed?: number;
+  negativePrompt?: string;
+  size?: string; // "WIDTHxHEIGHT", one of the provider's sizes
+  aspectRatio?: string; // "W:H", resolved to the closest provider size
+  steps?: number;
+  guidance?: number;
+  numOutputs?: number;
+};
+
+export interface EditDesignDto {
+  instruction: string;
+  aiProvider?: string;
+}
+
+// "generate" renders from text; "redesign" restyles the room photo while
+// keeping its layout; "edit" repaints the masked region of a design
+export type DesignMode = "generate" | "redesign" | "edit";
+
+// What a design was generated from, kept apart from the expanded prompt.
+// Room settings are snapshotted so versions can be compared later. Type
+// alias (not interface) so it can be stored in a Prisma Json column.
+export type DesignInputs = Partial<
+  Pick<
+    AIPromptData,
+    "roomType" | "style" | "dimensions" | "materials" | "ambientColor"
+  >
+> & {
+  mode: DesignMode;
+  customPrompt?: string; // the instruction, for edits
+  aiProvider: string;
+  uploadId?: string | null;
+  strength?: number;
+  parameters?: GenerationParameters;
+};
+
+export interface DesignInputChange {
+  field: keyof DesignInputs;
+  from: unknown;
+  to: unknown;
+}
+
+export interface ReviewDesignDto {
+  reviewStatus?: DesignReviewStatus;
+  rating?: number | null; // null clears the rating
+  isFavorite?: boolean;
 }
 
 export enum ProjectType {
@@ -155,6 +241,61 @@ export enum DesignStatus {
   PROCESSING = "PROCESSING",
   COMPLETED = "COMPLETED",
   FAILED = "FAILED",
+  CANCELLED = "CANCELLED",
+}
+
+export enum DesignReviewStatus {
+  DRAFT = "DRAFT",
+  SHORTLISTED = "SHORTLISTED",
+  APPROVED = "APPROVED",
+  REJECTED = "REJECTED",
+}
+
+// Organization Types
+export enum OrganizationRole {
+  OWNER = "OWNER",
+  ADMIN = "ADMIN",
+  DESIGNER = "DESIGNER",
+  VIEWER = "VIEWER",
+}
+
+// What a user wants to do with a project and everything in it
+export type ProjectPermission = "view" | "edit" | "delete";
+
+// The fields access checks need from a project row
+export interface ProjectOwnership {
+  userId: string;
+  organizationId: string | null;
+}
+
+export interface CreateOrganizationDto {
+  name: string;
+}
+
+export interface AddMemberDto {
+  email: string;
+  role: OrganizationRole;
+}
+
+// Comment Types
+export interface CreateCommentDto {
+  body: string;
+  parentId?: string;
+  pin?: { x: number; y: number }; // fractions of the image size
+}
+
+export interface UpdateCommentDto {
+  body: string;
+}
+
+export interface CommentQuery {
+  resolved?: boolean;
+}
+
+// Share Link Types
+export interface CreateShareLinkDto {
+  password?: string;
+  expiresAt?: Date;
 }
 
 // AI Service Types
@@ -169,19 +310,170 @@ export interface AIPromptData {
   materials: string[];
   ambientColor?: string;
   customPrompt?: string;
+  preserveLayout?: boolean; // redesigning an existing photo
+  editInstruction?: string; // change to make inside the edit mask
 }
 
 export interface AIGenerationResult {
   imageUrls: string[];
+  seeds?: Array<number | null>; // aligned with imageUrls when known
   prompt: string;
   metadata: {
-    provider: string;
+    provider: string; // provider that actually produced the images
+    requestedProvider?: string;
+    attempts?: ProviderAttempt[];
     model?: string;
     processingTime: number;
     parameters?: any;
   };
 }
 
+// Type alias (not interface) so it can be stored in Prisma Json columns
+export type ProviderAttempt = {
+  provider: string;
+  outcome: "success" | "failed" | "circuit_open";
+  error?: string;
+};
+
+// Credit Types
+export interface UsageSummary {
+  period: string; // "YYYY-MM"
+  plan: UserType;
+  allowance: number;
+  granted: number;
+  used: number;
+  remaining: number;
+  generations: number;
+  resetsAt: string;
+  recentTransactions: Array<{
+    id: string;
+    type: string;
+    amount: number;
+    designId: string | null;
+    description: string | null;
+    createdAt: string;
+  }>;
+}
+
+// AI Provider Types
+export interface ImageProviderCapabilities {
+  imageToImage: boolean; // structure-preserving redesign of a source photo
+  inpainting: boolean;
+  maxOutputs: number;
+  sizes: string[]; // "WIDTHxHEIGHT"
+  seed: boolean;
+  negativePrompt: boolean;
+  steps: { min: number; max: number } | null; // null when not adjustable
+  guidance: { min: number; max: number } | null;
+}
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  promptData?: AIPromptData;
+  mode?: DesignMode;
+  inputImageUrl?: string; // required for redesign and edit
+  maskImageUrl?: string; // edit only; white areas are repainted
+  strength?: number; // how far the result may move from the source, 0-1
+  signal?: AbortSignal; // aborted on timeout or cancellation
+  // Resolved generation parameters; providers use their defaults for any
+  // left unset
+  seed?: number;
+  negativePrompt?: string;
+  width?: number;
+  height?: number;
+  steps?: number;
+  guidance?: number;
+  numOutputs?: number;
+}
+
+export interface ImageProvider {
+  readonly name: string;
+  readonly capabilities: ImageProviderCapabilities;
+  readonly defaultOutputs: number; // images per generation
+  readonly costPerImage: number; // USD
+  generate(request: ImageGenerationRequest): Promise<AIGenerationResult>;
+  healthCheck(): Promise<boolean>;
+}
+
+// Design Event Types
+export type DesignEventType =
+  | "status"
+  | "progress"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export type DesignProgressStage =
+  | "prompt_built"
+  | "provider_called"
+  | "image_persisted";
+
+export interface DesignEvent {
+  type: DesignEventType;
+  designId: string;
+  roomId: string;
+  status: string;
+  stage?: DesignProgressStage;
+  imageUrl?: string;
+  allImageUrls?: string[];
+  error?: string;
+  timestamp: string;
+}
+
+// Audit Types
+export enum AuditAction {
+  LOGIN = "LOGIN",
+  LOGIN_FAILED = "LOGIN_FAILED",
+  PASSWORD_CHANGED = "PASSWORD_CHANGED",
+  PASSWORD_RESET_REQUESTED = "PASSWORD_RESET_REQUESTED",
+  PASSWORD_RESET = "PASSWORD_RESET",
+  SESSION_REVOKED = "SESSION_REVOKED",
+  LOGOUT_ALL = "LOGOUT_ALL",
+  REFRESH_TOKEN_REUSED = "REFRESH_TOKEN_REUSED",
+  EMAIL_VERIFIED = "EMAIL_VERIFIED",
+  TWO_FACTOR_ENABLED = "TWO_FACTOR_ENABLED",
+  TWO_FACTOR_DISABLED = "TWO_FACTOR_DISABLED",
+  RECOVERY_CODE_USED = "RECOVERY_CODE_USED",
+  PROJECT_DELETED = "PROJECT_DELETED",
+  ROOM_DELETED = "ROOM_DELETED",
+  DESIGN_DELETED = "DESIGN_DELETED",
+  UPLOAD_CREATED = "UPLOAD_CREATED",
+  UPLOAD_DELETED = "UPLOAD_DELETED",
+  ORGANIZATION_CREATED = "ORGANIZATION_CREATED",
+  ORGANIZATION_DELETED = "ORGANIZATION_DELETED",
+  MEMBER_ADDED = "MEMBER_ADDED",
+  MEMBER_ROLE_CHANGED = "MEMBER_ROLE_CHANGED",
+  MEMBER_REMOVED = "MEMBER_REMOVED",
+  SHARE_LINK_CREATED = "SHARE_LINK_CREATED",
+  SHARE_LINK_REVOKED = "SHARE_LINK_REVOKED",
+  MAINTENANCE_JOB_TRIGGERED = "MAINTENANCE_JOB_TRIGGERED",
+}
+
+export type AuditResource =
+  | "user"
+  | "session"
+  | "project"
+  | "room"
+  | "design"
+  | "upload"
+  | "organization"
+  | "maintenance";
+
+// Client details captured with audit entries
+export interface RequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface AuditEntry {
+  userId?: string | null;
+  action: AuditAction;
+  resource: AuditResource;
+  resourceId?: string | null;
+  metadata?: Record<string, any>;
+  context?: RequestContext;
+}
+
 // File Upload Types
 export interface UploadConfig {
   maxSize: number;
@@ -202,6 +494,32 @@ export interface CloudinaryResponse {
   bytes: number;
 }
 
+// Maintenance Types
+export type MaintenanceJobName =
+  | "expired-sessions"
+  | "orphaned-uploads"
+  | "asset-reconcile"
+  | "stuck-designs";
+
+export interface MaintenanceRunQuery {
+  page?: number;
+  limit?: number;
+  job?: MaintenanceJobName;
+  status?: MaintenanceRunStatus;
+}
+
+// Result of comparing Cloudinary against the assets the database references
+export interface AssetReconcileReport {
+  dryRun: boolean;
+  scannedAssets: number;
+  referencedAssets: number;
+  skippedRecent: number; // younger than the grace period
+  orphanedAssets: string[]; // public IDs nothing references
+  missingUploads: string[]; // Upload IDs whose asset no longer exists
+  deletedAssets: number;
+  deletedUploads: number;
+}
+
 // Query Types
 export interface PaginationQuery {
   page?: number;
@@ -209,6 +527,7 @@ export interface PaginationQuery {
 }
 
 export interface ProjectQuery extends PaginationQuery {
+  organizationId?: string;
   type?: ProjectType;
   style?: InteriorStyle;
   isActive?: boolean;
@@ -224,4 +543,14 @@ export interface DesignQuery extends PaginationQuery {
   roomId?: string;
   status?: DesignStatus;
   aiProvider?: string;
+  reviewStatus?: DesignReviewStatus;
+  isFavorite?: boolean;
+  minRating?: number;
+}
+
+export interface AuditLogQuery extends PaginationQuery {
+  action?: AuditAction;
+  resource?: AuditResource;
+  from?: Date;
+  to?: Date;
 }
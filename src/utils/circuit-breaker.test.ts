@@ -0,0 +1,112 @@
+import { CircuitBreaker } from "./circuit-breaker";
+
+const options = {
+  windowMs: 60000,
+  minRequests: 4,
+  failureThreshold: 0.5,
+  cooldownMs: 10000,
+};
+
+describe("CircuitBreaker", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const trip = (breaker: CircuitBreaker) => {
+    for (let i = 0; i < options.minRequests; i++) {
+      breaker.recordFailure();
+    }
+  };
+
+  it("stays closed until enough calls have been seen", () => {
+    const breaker = new CircuitBreaker(options);
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe("closed");
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it("opens once the failure rate reaches the threshold", () => {
+    const breaker = new CircuitBreaker(options);
+
+    breaker.recordSuccess();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe("closed");
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it("forgets outcomes that fall out of the window", () => {
+    const breaker = new CircuitBreaker(options);
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    jest.advanceTimersByTime(options.windowMs + 1);
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("lets a single trial through after the cooldown", () => {
+    const breaker = new CircuitBreaker(options);
+    trip(breaker);
+
+    jest.advanceTimersByTime(options.cooldownMs - 1);
+    expect(breaker.canRequest()).toBe(false);
+
+    jest.advanceTimersByTime(1);
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.getState()).toBe("half_open");
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it("closes when the trial succeeds", () => {
+    const breaker = new CircuitBreaker(options);
+    trip(breaker);
+    jest.advanceTimersByTime(options.cooldownMs);
+
+    breaker.canRequest();
+    breaker.recordSuccess();
+
+    expect(breaker.getState()).toBe("closed");
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it("reopens for another cooldown when the trial fails", () => {
+    const breaker = new CircuitBreaker(options);
+    trip(breaker);
+    jest.advanceTimersByTime(options.cooldownMs);
+
+    breaker.canRequest();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.canRequest()).toBe(false);
+
+    jest.advanceTimersByTime(options.cooldownMs);
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it("allows a new trial once a cancelled one is released", () => {
+    const breaker = new CircuitBreaker(options);
+    trip(breaker);
+    jest.advanceTimersByTime(options.cooldownMs);
+
+    expect(breaker.canRequest()).toBe(true);
+    breaker.releaseTrial();
+
+    expect(breaker.getState()).toBe("half_open");
+    expect(breaker.canRequest()).toBe(true);
+  });
+});
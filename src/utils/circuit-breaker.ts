@@ -0,0 +1,104 @@
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreakerOptions {
+  windowMs: number; // rolling window for the failure rate
+  minRequests: number; // calls needed in the window before tripping
+  failureThreshold: number; // failure rate (0-1) that opens the circuit
+  cooldownMs: number; // how long to stay open before a trial call
+}
+
+/**
+ * Rolling failure-rate circuit breaker (in-process)
+ */
+export class CircuitBreaker {
+  private outcomes: Array<{ at: number; failed: boolean }> = [];
+  private state: CircuitState = "closed";
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  /**
+   * Whether a call may go through right now
+   */
+  canRequest(): boolean {
+    if (this.state === "closed") {
+      return true;
+    }
+
+    if (
+      this.state === "open" &&
+      Date.now() - this.openedAt >= this.options.cooldownMs
+    ) {
+      this.state = "half_open";
+    }
+
+    // Let a single trial call through while half open
+    if (this.state === "half_open" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  recordSuccess(): void {
+    if (this.state === "half_open") {
+      this.reset();
+      return;
+    }
+
+    this.record(false);
+  }
+
+  recordFailure(): void {
+    if (this.state === "half_open") {
+      this.open();
+      return;
+    }
+
+    this.record(true);
+
+    const failures = this.outcomes.filter((outcome) => outcome.failed).length;
+
+    if (
+      this.outcomes.length >= this.options.minRequests &&
+      failures / this.outcomes.length >= this.options.failureThreshold
+    ) {
+      this.open();
+    }
+  }
+
+  /**
+   * Let another trial through when a call ended without an outcome (e.g. it
+   * was cancelled); no-op once the outcome has been recorded
+   */
+  releaseTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  private record(failed: boolean): void {
+    const now = Date.now();
+
+    this.outcomes.push({ at: now, failed });
+    this.outcomes = this.outcomes.filter(
+      (outcome) => now - outcome.at <= this.options.windowMs
+    );
+  }
+
+  private open(): void {
+    this.state = "open";
+    this.openedAt = Date.now();
+    this.trialInFlight = false;
+  }
+
+  private reset(): void {
+    this.state = "closed";
+    this.outcomes = [];
+    this.trialInFlight = false;
+  }
+}
@@ -24,6 +24,8 @@ export class CloudinaryUtil {
       resource_type?: "image" | "video" | "raw" | "auto";
     } = {}
   ): Promise<CloudinaryResponse> {
+    this.assertConfigured();
+
     try {
       const defaultOptions = {
         folder: "interior-design/uploads",
@@ -73,6 +75,8 @@ export class CloudinaryUtil {
       transformation?: any;
     } = {}
   ): Promise<CloudinaryResponse> {
+    this.assertConfigured();
+
     try {
       const defaultOptions = {
         folder: "interior-design/uploads",
@@ -85,7 +89,7 @@ export class CloudinaryUtil {
 
       logger.info("Image uploaded from URL to Cloudinary", {
         public_id: result.public_id,
-        original_url: url,
+        original_url: url.startsWith("data:") ? "data URI" : url,
       });
 
       return result as CloudinaryResponse;
@@ -99,6 +103,8 @@ export class CloudinaryUtil {
    * Delete image from Cloudinary
    */
   static async deleteImage(publicId: string): Promise<void> {
+    this.assertConfigured();
+
     try {
       const result = await cloudinary.uploader.destroy(publicId);
 
@@ -199,6 +205,8 @@ export class CloudinaryUtil {
    * Get image metadata
    */
   static async getImageMetadata(publicId: string): Promise<any> {
+    this.assertConfigured();
+
     try {
       const result = await cloudinary.api.resource(publicId, {
         image_metadata: true,
@@ -225,6 +233,8 @@ export class CloudinaryUtil {
    * Batch delete images
    */
   static async deleteImages(publicIds: string[]): Promise<void> {
+    this.assertConfigured();
+
     try {
       if (publicIds.length === 0) return;
 
@@ -240,6 +250,62 @@ export class CloudinaryUtil {
     }
   }
 
+  /**
+   * List one page of images whose public ID starts with the prefix
+   */
+  static async listImages(
+    prefix: string,
+    nextCursor?: string
+  ): Promise<{
+    images: Array<{ publicId: string; createdAt: Date }>;
+    nextCursor?: string;
+  }> {
+    this.assertConfigured();
+
+    try {
+      const result = await cloudinary.api.resources({
+        type: "upload",
+        resource_type: "image",
+        prefix,
+        max_results: 500,
+        next_cursor: nextCursor,
+      });
+
+      return {
+        images: result.resources.map((resource: any) => ({
+          publicId: resource.public_id,
+          createdAt: new Date(resource.created_at),
+        })),
+        nextCursor: result.next_cursor,
+      };
+    } catch (error) {
+      logger.error("Error listing images:", error);
+      throw new Error("Failed to list images");
+    }
+  }
+
+  /**
+   * Public ID behind a Cloudinary delivery URL, skipping transformations
+   * and the version. Returns null for URLs that are not Cloudinary's.
+   */
+  static publicIdFromUrl(url: string): string | null {
+    const match = url.match(/\/image\/upload\/([^?#]+)/);
+    if (!match) {
+      return null;
+    }
+
+    const segments = match[1].split("/");
+    while (
+      segments.length > 1 &&
+      (/^v\d+$/.test(segments[0]) ||
+        /^[a-z]{1,3}_[^,]*(,[a-z]{1,3}_[^,]*)*$/.test(segments[0]))
+    ) {
+      segments.shift();
+    }
+
+    return segments.join("/").replace(/\.[a-z0-9]+$/i, "");
+  }
+
   /**
    * Create signed upload URL for direct client uploads
    */
@@ -251,6 +317,8 @@ export class CloudinaryUtil {
       public_id?: string;
     } = {}
   ): { url: string; signature: string; timestamp: number } {
+    this.assertConfigured();
+
     try {
       const timestamp = options.timestamp || Math.round(Date.now() / 1000);
 
@@ -299,6 +367,17 @@ export class CloudinaryUtil {
     return this.generateOptimizedUrl(publicId, defaultOptions);
   }
 
+  /**
+   * Fail clearly when credentials are missing (allowed in mock-only mode)
+   */
+  private static assertConfigured(): void {
+    if (!config.upload.cloudinary.configured) {
+      throw new Error(
+        "Cloudinary is not configured. Set CLOUDINARY_CLOUD_NAME, CLOUDINARY_API_KEY and CLOUDINARY_API_SECRET."
+      );
+    }
+  }
+
   /**
    * Health check for Cloudinary connection
    */
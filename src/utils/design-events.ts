@@ -0,0 +1,105 @@
+import { EventEmitter } from "events";
+import { DesignEvent } from "../types";
+import { RedisClient, RedisConnection } from "./redis";
+import logger from "./logger";
+
+const CHANNEL = "design-events";
+
+/**
+ * Design status events, published by the worker and fanned out to
+ * subscribers in every API process through Redis pub/sub
+ */
+export class DesignEvents {
+  private static emitter = new EventEmitter().setMaxListeners(0);
+  private static subscriber: Promise<RedisConnection> | null = null;
+
+  /**
+   * Publish a design event (never throws)
+   */
+  static async publish(
+    event: Omit<DesignEvent, "timestamp">
+  ): Promise<void> {
+    try {
+      const payload: DesignEvent = {
+        ...event,
+        timestamp: new Date().toISOString(),
+      };
+
+      await RedisClient.publish(
+        RedisClient.key(CHANNEL),
+        JSON.stringify(payload)
+      );
+    } catch (error) {
+      logger.warn("Failed to publish design event", {
+        designId: event.designId,
+        type: event.type,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  /**
+   * Listen to events for a single design
+   */
+  static async subscribeToDesign(
+    designId: string,
+    listener: (event: DesignEvent) => void
+  ): Promise<() => void> {
+    return DesignEvents.subscribe(`design:${designId}`, listener);
+  }
+
+  /**
+   * Listen to events for every design in a room
+   */
+  static async subscribeToRoom(
+    roomId: string,
+    listener: (event: DesignEvent) => void
+  ): Promise<() => void> {
+    return DesignEvents.subscribe(`room:${roomId}`, listener);
+  }
+
+  private static async subscribe(
+    key: string,
+    listener: (event: DesignEvent) => void
+  ): Promise<() => void> {
+    await DesignEvents.ensureSubscribed();
+
+    DesignEvents.emitter.on(key, listener);
+
+    return () => {
+      DesignEvents.emitter.off(key, listener);
+    };
+  }
+
+  /**
+   * Open the process-wide Redis subscription on first use
+   */
+  private static ensureSubscribed(): Promise<RedisConnection> {
+    if (!DesignEvents.subscriber) {
+      DesignEvents.subscriber = RedisClient.createSubscriber()
+        .then(async (subscriber) => {
+          await subscriber.subscribe(RedisClient.key(CHANNEL), (message) => {
+            DesignEvents.dispatch(message);
+          });
+          return subscriber;
+        })
+        .catch((error) => {
+          DesignEvents.subscriber = null;
+          throw error;
+        });
+    }
+
+    return DesignEvents.subscriber;
+  }
+
+  private static dispatch(message: string): void {
+    try {
+      const event = JSON.parse(message) as DesignEvent;
+
+      DesignEvents.emitter.emit(`design:${event.designId}`, event);
+      DesignEvents.emitter.emit(`room:${event.roomId}`, event);
+    } catch (error) {
+      logger.warn("Ignoring malformed design event", { message });
+    }
+  }
+}
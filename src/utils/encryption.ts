@@ -0,0 +1,49 @@
+import crypto from "crypto";
+import { config } from "../config/env";
+
+// AES-256-GCM for small secrets stored in the database
+export class EncryptionUtil {
+  /**
+   * Encrypt to "iv.authTag.ciphertext" (base64url parts)
+   */
+  static encrypt(plaintext: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", this.key(), iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext, "utf8"),
+      cipher.final(),
+    ]);
+
+    return [iv, cipher.getAuthTag(), ciphertext]
+      .map((part) => part.toString("base64url"))
+      .join(".");
+  }
+
+  /**
+   * Decrypt a value produced by encrypt()
+   */
+  static decrypt(payload: string): string {
+    const [iv, authTag, ciphertext] = payload
+      .split(".")
+      .map((part) => Buffer.from(part, "base64url"));
+
+    if (!iv || !authTag || !ciphertext) {
+      throw new Error("Malformed encrypted value");
+    }
+
+    const decipher = crypto.createDecipheriv("aes-256-gcm", this.key(), iv);
+    decipher.setAuthTag(authTag);
+
+    return Buffer.concat([
+      decipher.update(ciphertext),
+      decipher.final(),
+    ]).toString("utf8");
+  }
+
+  private static key(): Buffer {
+    return crypto
+      .createHash("sha256")
+      .update(config.auth.encryptionKey)
+      .digest();
+  }
+}
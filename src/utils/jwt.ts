@@ -1,19 +1,24 @@
+import crypto from "crypto";
 import jwt from "jsonwebtoken";
 import { config } from "../config/env";
-import { JwtPayload } from "../types";
+import { JwtPayload, TokenType } from "../types";
 import logger from "./logger";
 
 export class JwtUtil {
   /**
-   * Generate JWT token
+   * Generate access token
    */
   static generateToken(payload: JwtPayload): string {
     try {
-      return jwt.sign(payload, config.auth.jwtSecret, {
-        expiresIn: config.auth.jwtExpiresIn,
-        issuer: "interior-design-api",
-        audience: "interior-design-app",
-      });
+      return jwt.sign(
+        { ...payload, type: "access" as TokenType },
+        config.auth.jwtSecret,
+        {
+          expiresIn: config.auth.jwtExpiresIn,
+          issuer: "interior-design-api",
+          audience: "interior-design-app",
+        }
+      );
     } catch (error) {
       logger.error("Error generating JWT token:", error);
       throw new Error("Failed to generate token");
@@ -21,15 +26,27 @@ export class JwtUtil {
   }
 
   /**
-   * Generate refresh token (longer expiry)
+   * Generate refresh token, signed with its own secret and expiring with
+   * the session it belongs to
    */
-  static generateRefreshToken(payload: JwtPayload): string {
+  static generateRefreshToken(payload: JwtPayload, expiresAt: Date): string {
     try {
-      return jwt.sign(payload, config.auth.jwtSecret, {
-        expiresIn: "30d", // 30 days for refresh token
-        issuer: "interior-design-api",
-        audience: "interior-design-app",
-      });
+      const expiresIn = Math.max(
+        1,
+        Math.floor((expiresAt.getTime() - Date.now()) / 1000)
+      );
+
+      return jwt.sign(
+        { ...payload, type: "refresh" as TokenType },
+        config.auth.jwtRefreshSecret,
+        {
+          expiresIn,
+          issuer: "interior-design-api",
+          audience: "interior-design-app",
+          // Two tokens minted in the same second must still differ
+          jwtid: crypto.randomUUID(),
+        }
+      );
     } catch (error) {
       logger.error("Error generating refresh token:", error);
       throw new Error("Failed to generate refresh token");
@@ -37,15 +54,95 @@ export class JwtUtil {
   }
 
   /**
-   * Verify JWT token
+   * Generate email verification token, bound to the address it was sent to
+   */
+  static generateEmailVerificationToken(userId: string, email: string): string {
+    try {
+      return jwt.sign(
+        { userId, email, type: "email_verification" as TokenType },
+        config.auth.jwtSecret,
+        {
+          expiresIn: `${config.auth.emailVerificationTtlHours}h`,
+          issuer: "interior-design-api",
+          audience: "interior-design-app",
+        }
+      );
+    } catch (error) {
+      logger.error("Error generating email verification token:", error);
+      throw new Error("Failed to generate email verification token");
+    }
+  }
+
+  /**
+   * Generate the short-lived token that stands between the password and
+   * the TOTP step of a login
+   */
+  static generateTwoFactorChallengeToken(userId: string): string {
+    try {
+      return jwt.sign(
+        { userId, type: "two_factor_challenge" as TokenType },
+        config.auth.jwtSecret,
+        {
+          expiresIn: `${config.auth.twoFactorChallengeTtlMinutes}m`,
+          issuer: "interior-design-api",
+          audience: "interior-design-app",
+          // Failed attempts are counted per challenge
+          jwtid: crypto.randomUUID(),
+        }
+      );
+    } catch (error) {
+      logger.error("Error generating two-factor challenge token:", error);
+      throw new Error("Failed to generate two-factor challenge token");
+    }
+  }
+
+  /**
+   * Verify access token
    */
   static verifyToken(token: string): JwtPayload {
+    return this.verify(token, config.auth.jwtSecret, "access");
+  }
+
+  /**
+   * Verify refresh token
+   */
+  static verifyRefreshToken(token: string): JwtPayload {
+    return this.verify(token, config.auth.jwtRefreshSecret, "refresh");
+  }
+
+  /**
+   * Verify email verification token
+   */
+  static verifyEmailVerificationToken(
+    token: string
+  ): Pick<JwtPayload, "userId" | "email"> {
+    return this.verify(token, config.auth.jwtSecret, "email_verification");
+  }
+
+  /**
+   * Verify two-factor challenge token
+   */
+  static verifyTwoFactorChallengeToken(
+    token: string
+  ): Pick<JwtPayload, "userId" | "jti"> {
+    return this.verify(token, config.auth.jwtSecret, "two_factor_challenge");
+  }
+
+  private static verify(
+    token: string,
+    secret: string,
+    type: TokenType
+  ): JwtPayload {
     try {
-      const decoded = jwt.verify(token, config.auth.jwtSecret, {
+      const decoded = jwt.verify(token, secret, {
         issuer: "interior-design-api",
         audience: "interior-design-app",
       }) as JwtPayload;
 
+      if (decoded.type !== type) {
+        throw new jwt.JsonWebTokenError("Unexpected token type");
+      }
+
       return decoded;
     } catch (error) {
       if (error instanceof jwt.TokenExpiredError) {
@@ -59,6 +156,26 @@ export class JwtUtil {
     }
   }
 
+  /**
+   * Convert a duration like "30d", "12h" or "900" (seconds) to milliseconds
+   */
+  static durationToMs(duration: string): number {
+    const match = /^(\d+)([smhd]?)$/.exec(duration.trim());
+    if (!match) {
+      throw new Error(`Invalid duration: ${duration}`);
+    }
+
+    const units: Record<string, number> = {
+      "": 1000,
+      s: 1000,
+      m: 60 * 1000,
+      h: 60 * 60 * 1000,
+      d: 24 * 60 * 60 * 1000,
+    };
+
+    return parseInt(match[1], 10) * units[match[2]];
+  }
+
   /**
    * Decode token without verification (for extracting payload)
    */
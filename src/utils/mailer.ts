@@ -0,0 +1,121 @@
+import fs from "fs/promises";
+import path from "path";
+import nodemailer, { Transporter } from "nodemailer";
+import { config } from "../config/env";
+import logger from "./logger";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Logs messages instead of sending them (local development)
+ */
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    // Bodies carry reset and verification links; only show them locally
+    logger.info("Mail (console transport)", {
+      to: message.to,
+      subject: message.subject,
+      ...(config.isDevelopment && { text: message.text }),
+    });
+  }
+}
+
+/**
+ * Writes each message to a JSON file (local development and tests)
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const filename = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@.]/g, "_")}.json`;
+    const filePath = path.join(this.directory, filename);
+
+    await fs.writeFile(
+      filePath,
+      JSON.stringify(
+        { ...message, createdAt: new Date().toISOString() },
+        null,
+        2
+      )
+    );
+
+    logger.info("Mail written to file", { to: message.to, filePath });
+  }
+}
+
+/**
+ * Sends messages through an SMTP server
+ */
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor() {
+    const { host, port, secure, user, password } = config.mail.smtp;
+
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure,
+      auth: user ? { user, pass: password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+// Outgoing mail through the transport selected by MAIL_TRANSPORT
+export class Mailer {
+  private static transport: MailTransport | null = null;
+
+  /**
+   * Replace the transport (e.g. in tests)
+   */
+  static setTransport(transport: MailTransport): void {
+    Mailer.transport = transport;
+  }
+
+  static async send(message: MailMessage): Promise<void> {
+    try {
+      await Mailer.getTransport().send({ ...message, from: config.mail.from });
+
+      logger.info("Mail sent", {
+        to: message.to,
+        subject: message.subject,
+        transport: config.mail.transport,
+      });
+    } catch (error) {
+      logger.error("Failed to send mail:", error);
+      throw new Error("Failed to send mail");
+    }
+  }
+
+  private static getTransport(): MailTransport {
+    if (!Mailer.transport) {
+      switch (config.mail.transport) {
+        case "smtp":
+          Mailer.transport = new SmtpMailTransport();
+          break;
+        case "file":
+          Mailer.transport = new FileMailTransport(config.mail.fileDir);
+          break;
+        default:
+          Mailer.transport = new ConsoleMailTransport();
+      }
+    }
+
+    return Mailer.transport;
+  }
+}
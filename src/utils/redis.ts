@@ -0,0 +1,134 @@
+import crypto from "crypto";
+import { createClient } from "redis";
+import { config } from "../config/env";
+import logger from "./logger";
+
+export type RedisConnection = ReturnType<typeof createClient>;
+
+// Delete the lock only if it still holds our token
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
+// Shared Redis connections (commands and pub/sub)
+export class RedisClient {
+  private static client: RedisConnection | null = null;
+  private static connecting: Promise<RedisConnection> | null = null;
+  private static subscribers: RedisConnection[] = [];
+
+  /**
+   * Get the shared command connection
+   */
+  public static async getClient(): Promise<RedisConnection> {
+    if (RedisClient.client?.isOpen) {
+      return RedisClient.client;
+    }
+
+    if (!RedisClient.connecting) {
+      // Fail commands fast during an outage instead of queueing them until
+      // Redis comes back
+      RedisClient.connecting = RedisClient.connect("client", {
+        disableOfflineQueue: true,
+      })
+        .then((client) => {
+          RedisClient.client = client;
+          return client;
+        })
+        .finally(() => {
+          RedisClient.connecting = null;
+        });
+    }
+
+    return RedisClient.connecting;
+  }
+
+  /**
+   * Create a dedicated connection for subscriptions
+   */
+  public static async createSubscriber(): Promise<RedisConnection> {
+    const subscriber = await RedisClient.connect("subscriber");
+    RedisClient.subscribers.push(subscriber);
+    return subscriber;
+  }
+
+  /**
+   * Publish a message on a channel
+   */
+  public static async publish(channel: string, message: string): Promise<void> {
+    const client = await RedisClient.getClient();
+    await client.publish(channel, message);
+  }
+
+  /**
+   * Take a lock that expires after ttlMs. Returns the token needed to
+   * release it, or null when someone else holds it.
+   */
+  public static async acquireLock(
+    key: string,
+    ttlMs: number
+  ): Promise<string | null> {
+    const client = await RedisClient.getClient();
+    const token = crypto.randomUUID();
+    const result = await client.set(key, token, { NX: true, PX: ttlMs });
+
+    return result === "OK" ? token : null;
+  }
+
+  /**
+   * Release a lock, unless it expired and was taken by someone else
+   */
+  public static async releaseLock(key: string, token: string): Promise<void> {
+    const client = await RedisClient.getClient();
+    await client.eval(RELEASE_LOCK_SCRIPT, {
+      keys: [key],
+      arguments: [token],
+    });
+  }
+
+  /**
+   * Prefix a key with the application namespace
+   */
+  public static key(...parts: string[]): string {
+    return [config.queue.prefix, ...parts].join(":");
+  }
+
+  public static async disconnect(): Promise<void> {
+    const connections = [
+      ...(RedisClient.client ? [RedisClient.client] : []),
+      ...RedisClient.subscribers,
+    ];
+
+    await Promise.all(
+      connections
+        .filter((connection) => connection.isOpen)
+        .map((connection) => connection.quit())
+    );
+
+    RedisClient.client = null;
+    RedisClient.subscribers = [];
+    logger.info("Redis connections closed");
+  }
+
+  private static async connect(
+    name: string,
+    options: { disableOfflineQueue?: boolean } = {}
+  ): Promise<RedisConnection> {
+    const connection = createClient({
+      url: config.redis.url,
+      password: config.redis.password || undefined,
+      ...options,
+    });
+
+    connection.on("error", (error) => {
+      logger.error(`Redis ${name} error:`, error);
+    });
+
+    await connection.connect();
+    logger.info(`Redis ${name} connected`);
+
+    return connection;
+  }
+}
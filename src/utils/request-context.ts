@@ -0,0 +1,10 @@
+import { Request } from "express";
+import { RequestContext } from "../types";
+
+/**
+ * Client details recorded alongside audit entries
+ */
+export const getRequestContext = (req: Request): RequestContext => ({
+  ipAddress: req.ip,
+  userAgent: req.get("User-Agent"),
+});
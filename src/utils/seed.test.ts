@@ -0,0 +1,35 @@
+import crypto from "crypto";
+import { SeedUtil } from "./seed";
+
+describe("SeedUtil", () => {
+  it("gives output N of a batch the base seed plus N", () => {
+    expect(SeedUtil.derive(42, 4)).toEqual([42, 43, 44, 45]);
+    expect(SeedUtil.derive(7, 1)).toEqual([7]);
+  });
+
+  it("keeps the largest allowed batch within the seed column", () => {
+    const seeds = SeedUtil.derive(SeedUtil.MAX_BASE_SEED, SeedUtil.MAX_OUTPUTS);
+
+    expect(seeds).toHaveLength(SeedUtil.MAX_OUTPUTS);
+    expect(Math.max(...seeds)).toBe(SeedUtil.MAX_SEED);
+  });
+
+  it("picks random base seeds in range", () => {
+    for (let i = 0; i < 100; i++) {
+      const seed = SeedUtil.random();
+
+      expect(Number.isInteger(seed)).toBe(true);
+      expect(seed).toBeGreaterThanOrEqual(0);
+      expect(seed).toBeLessThanOrEqual(SeedUtil.MAX_BASE_SEED);
+    }
+  });
+
+  it("derives the same base seed from the same hash", () => {
+    const hash = crypto.createHash("sha256").update("prompt").digest();
+
+    expect(SeedUtil.fromHash(hash)).toBe(SeedUtil.fromHash(hash));
+    expect(SeedUtil.fromHash(Buffer.alloc(4, 0xff))).toBeLessThanOrEqual(
+      SeedUtil.MAX_BASE_SEED
+    );
+  });
+});
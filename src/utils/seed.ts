@@ -0,0 +1,32 @@
+import crypto from "crypto";
+
+// Generation seeds. Output N of a batch uses baseSeed + N (Stable Diffusion
+// does the same within a batch), and every seed is stored in the int4
+// DesignVariant.seed column.
+export class SeedUtil {
+  static readonly MAX_SEED = 2147483647; // int4 max
+  static readonly MAX_OUTPUTS = 10; // most outputs a request may ask for
+  // Largest base seed whose whole batch still fits the column
+  static readonly MAX_BASE_SEED = this.MAX_SEED - (this.MAX_OUTPUTS - 1);
+
+  /**
+   * Random base seed
+   */
+  static random(): number {
+    return crypto.randomInt(0, this.MAX_BASE_SEED + 1);
+  }
+
+  /**
+   * Base seed picked deterministically from a hash
+   */
+  static fromHash(hash: Buffer): number {
+    return hash.readUInt32BE(0) % (this.MAX_BASE_SEED + 1);
+  }
+
+  /**
+   * Seeds of a batch of count outputs
+   */
+  static derive(baseSeed: number, count: number): number[] {
+    return Array.from({ length: count }, (_, index) => baseSeed + index);
+  }
+}
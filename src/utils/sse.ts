@@ -0,0 +1,70 @@
+import { Request, Response } from "express";
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * Server-Sent Events stream over an Express response
+ */
+export class SseStream {
+  private heartbeat: NodeJS.Timeout;
+  private closed = false;
+  private closeHandlers: Array<() => void> = [];
+
+  constructor(req: Request, private res: Response) {
+    res.status(200);
+    res.set({
+      "Content-Type": "text/event-stream",
+      // no-transform keeps the compression middleware from buffering events
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+
+    // Keep proxies from closing idle connections
+    this.heartbeat = setInterval(() => {
+      this.write(": heartbeat\n\n");
+    }, HEARTBEAT_INTERVAL_MS);
+
+    req.on("close", () => this.close());
+  }
+
+  /**
+   * Send a named event with a JSON payload
+   */
+  send(event: string, data: unknown): void {
+    this.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  /**
+   * Register cleanup to run when the stream closes
+   */
+  onClose(handler: () => void): void {
+    if (this.closed) {
+      handler();
+      return;
+    }
+
+    this.closeHandlers.push(handler);
+  }
+
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  close(): void {
+    if (this.closed) return;
+
+    this.closed = true;
+    clearInterval(this.heartbeat);
+    this.closeHandlers.forEach((handler) => handler());
+    this.closeHandlers = [];
+    this.res.end();
+  }
+
+  private write(chunk: string): void {
+    if (!this.closed) {
+      this.res.write(chunk);
+    }
+  }
+}
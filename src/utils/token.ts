@@ -0,0 +1,18 @@
+import crypto from "crypto";
+
+// Opaque tokens that are stored only as hashes
+export class TokenUtil {
+  /**
+   * Generate a URL-safe random token
+   */
+  static generate(bytes: number = 32): string {
+    return crypto.randomBytes(bytes).toString("base64url");
+  }
+
+  /**
+   * Hash a token for storage and lookup
+   */
+  static hash(token: string): string {
+    return crypto.createHash("sha256").update(token).digest("hex");
+  }
+}
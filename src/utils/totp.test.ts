@@ -0,0 +1,70 @@
+import { TotpUtil } from "./totp";
+
+// RFC 6238 appendix B secret ("12345678901234567890") in base32
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("TotpUtil", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("matches the RFC 6238 SHA-1 test vectors", () => {
+    // 6-digit truncation of the published 8-digit codes
+    expect(TotpUtil.generateCode(RFC_SECRET, TotpUtil.currentStep(59000))).toBe(
+      "287082"
+    );
+    expect(
+      TotpUtil.generateCode(RFC_SECRET, TotpUtil.currentStep(1111111109000))
+    ).toBe("081804");
+    expect(
+      TotpUtil.generateCode(RFC_SECRET, TotpUtil.currentStep(1234567890000))
+    ).toBe("005924");
+  });
+
+  it("round-trips a generated secret", () => {
+    const secret = TotpUtil.generateSecret();
+    const step = TotpUtil.currentStep();
+
+    expect(secret).toMatch(/^[A-Z2-7]+$/);
+    expect(TotpUtil.verify(secret, TotpUtil.generateCode(secret, step))).toBe(
+      step
+    );
+  });
+
+  describe("verify", () => {
+    const now = 1234567890000;
+    const step = TotpUtil.currentStep(now);
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now });
+    });
+
+    it("accepts codes one step either side of the current one", () => {
+      for (const offset of [-1, 0, 1]) {
+        const code = TotpUtil.generateCode(RFC_SECRET, step + offset);
+        expect(TotpUtil.verify(RFC_SECRET, code)).toBe(step + offset);
+      }
+    });
+
+    it("rejects codes outside the window", () => {
+      for (const offset of [-2, 2]) {
+        const code = TotpUtil.generateCode(RFC_SECRET, step + offset);
+        expect(TotpUtil.verify(RFC_SECRET, code)).toBeNull();
+      }
+    });
+
+    it("widens or narrows with the window argument", () => {
+      const twoAhead = TotpUtil.generateCode(RFC_SECRET, step + 2);
+      const oneAhead = TotpUtil.generateCode(RFC_SECRET, step + 1);
+
+      expect(TotpUtil.verify(RFC_SECRET, twoAhead, 2)).toBe(step + 2);
+      expect(TotpUtil.verify(RFC_SECRET, oneAhead, 0)).toBeNull();
+    });
+
+    it("rejects malformed codes", () => {
+      expect(TotpUtil.verify(RFC_SECRET, "12345")).toBeNull();
+      expect(TotpUtil.verify(RFC_SECRET, "1234567")).toBeNull();
+      expect(TotpUtil.verify(RFC_SECRET, "12a456")).toBeNull();
+    });
+  });
+});
@@ -1,6 +1,13 @@
 import Joi from "joi";
-import { ProjectType, RoomType, InteriorStyle } from "../types";
+import {
+  ProjectType,
+  RoomType,
+  InteriorStyle,
+  DesignReviewStatus,
+} from "../types";
 import { UserType } from "@prisma/client";
+import { ProviderRegistry } from "../services/providers/provider.registry";
+import { SeedUtil } from "./seed";
 
 // Base validation schemas
 export const schemas = {
@@ -42,7 +49,28 @@ export const schemas = {
 
   // Design schemas
   customPrompt: Joi.string().trim().max(1000).optional(),
-  aiProvider: Joi.string().valid("openai", "replicate").optional(),
+  aiProvider: Joi.string()
+    .trim()
+    .custom((value, helpers) =>
+      ProviderRegistry.isEnabled(value)
+        ? value
+        : helpers.error("any.only", { valids: ProviderRegistry.names() })
+    )
+    .optional(),
+  designMode: Joi.string().valid("generate", "redesign").default("generate"),
+  strength: Joi.number().min(0.1).max(1).optional(),
+  // Provider-specific limits are checked by the AI service
+  generationParameters: Joi.object({
+    seed: Joi.number().integer().min(0).max(SeedUtil.MAX_BASE_SEED),
+    negativePrompt: Joi.string().trim().max(500),
+    size: Joi.string().pattern(/^\d+x\d+$/),
+    aspectRatio: Joi.string().pattern(/^[1-9]\d*:[1-9]\d*$/),
+    steps: Joi.number().integer().min(1).max(500),
+    guidance: Joi.number().min(0).max(50),
+    numOutputs: Joi.number().integer().min(1).max(SeedUtil.MAX_OUTPUTS),
+  }).oxor("size", "aspectRatio"),
+  reviewStatus: Joi.string().valid(...Object.values(DesignReviewStatus)),
+  rating: Joi.number().integer().min(1).max(5),
 
   // Pagination schemas
   page: Joi.number().integer().min(1).default(1),
@@ -77,6 +105,42 @@ export const authSchemas = {
     currentPassword: schemas.password,
     newPassword: schemas.password,
   }),
+
+  forgotPassword: Joi.object({
+    email: schemas.email,
+  }),
+
+  resetPassword: Joi.object({
+    token: Joi.string().trim().required(),
+    newPassword: schemas.password,
+  }),
+
+  verifyEmail: Joi.object({
+    token: Joi.string().trim().required(),
+  }),
+
+  resendVerification: Joi.object({
+    email: schemas.email,
+  }),
+
+  twoFactorCode: Joi.object({
+    code: Joi.string()
+      .pattern(/^\d{6}$/)
+      .required()
+      .messages({ "string.pattern.base": "Code must be 6 digits" }),
+  }),
+
+  twoFactorLogin: Joi.object({
+    challengeToken: Joi.string().required(),
+    code: Joi.string()
+      .pattern(/^\d{6}$/)
+      .messages({ "string.pattern.base": "Code must be 6 digits" }),
+    recoveryCode: Joi.string().trim().max(32),
+  }).xor("code", "recoveryCode"),
+
+  disableTwoFactor: Joi.object({
+    password: Joi.string().required(),
+  }),
 };
 
 // Project validation schemas
@@ -86,6 +150,7 @@ export const projectSchemas = {
     description: schemas.projectDescription,
     type: schemas.projectType,
     style: schemas.interiorStyle,
+    organizationId: schemas.id.optional(),
   }),
 
   update: Joi.object({
@@ -99,6 +164,7 @@ export const projectSchemas = {
   query: Joi.object({
     page: schemas.page,
     limit: schemas.limit,
+    organizationId: schemas.id.optional(),
     type: schemas.projectType.optional(),
     style: schemas.interiorStyle.optional(),
     isActive: schemas.isActive,
@@ -145,6 +211,23 @@ export const designSchemas = {
     roomId: schemas.id,
     customPrompt: schemas.customPrompt,
     aiProvider: schemas.aiProvider,
+    mode: schemas.designMode,
+    // Redesign only
+    uploadId: schemas.id
+      .optional()
+      .when("mode", { not: "redesign", then: Joi.forbidden() }),
+    strength: schemas.strength.when("mode", {
+      not: "redesign",
+      then: Joi.forbidden(),
+    }),
+    // Redesigns keep the source photo's dimensions
+    parameters: schemas.generationParameters.when("mode", {
+      is: "redesign",
+      then: Joi.object({
+        size: Joi.forbidden(),
+        aspectRatio: Joi.forbidden(),
+      }),
+    }),
   }),
 
   query: Joi.object({
@@ -152,9 +235,81 @@ export const designSchemas = {
     limit: schemas.limit,
     roomId: schemas.id.optional(),
     status: Joi.string()
-      .valid("PENDING", "PROCESSING", "COMPLETED", "FAILED")
+      .valid("PENDING", "PROCESSING", "COMPLETED", "FAILED", "CANCELLED")
       .optional(),
-    aiProvider: schemas.aiProvider.optional(),
+    aiProvider: Joi.string().trim().optional(), // includes retired providers
+    reviewStatus: schemas.reviewStatus.optional(),
+    isFavorite: Joi.boolean().optional(),
+    minRating: schemas.rating.optional(),
+  }),
+
+  edit: Joi.object({
+    instruction: Joi.string().trim().min(3).max(1000).required(),
+    aiProvider: schemas.aiProvider,
+  }),
+
+  roomDesigns: Joi.object({
+    tree: Joi.boolean().default(false),
+  }),
+
+  review: Joi.object({
+    reviewStatus: schemas.reviewStatus.optional(),
+    rating: schemas.rating.allow(null).optional(),
+    isFavorite: Joi.boolean().optional(),
+  }).min(1),
+};
+
+// Design comment validation schemas
+export const commentSchemas = {
+  create: Joi.object({
+    body: Joi.string().trim().min(1).max(2000).required(),
+    parentId: schemas.id.optional(),
+    pin: Joi.object({
+      x: Joi.number().min(0).max(1).required(),
+      y: Joi.number().min(0).max(1).required(),
+    }).optional(),
+  }).oxor("parentId", "pin"), // replies belong to their thread's pin
+
+  update: Joi.object({
+    body: Joi.string().trim().min(1).max(2000).required(),
+  }),
+
+  resolve: Joi.object({
+    resolved: Joi.boolean().required(),
+  }),
+
+  query: Joi.object({
+    resolved: Joi.boolean().optional(),
+  }),
+};
+
+// Organization validation schemas
+export const organizationSchemas = {
+  create: Joi.object({
+    name: Joi.string().trim().min(2).max(100).required(),
+  }),
+
+  update: Joi.object({
+    name: Joi.string().trim().min(2).max(100).required(),
+  }),
+
+  addMember: Joi.object({
+    email: schemas.email,
+    role: Joi.string()
+      .valid("OWNER", "ADMIN", "DESIGNER", "VIEWER")
+      .default("DESIGNER"),
+  }),
+
+  updateMember: Joi.object({
+    role: Joi.string().valid("OWNER", "ADMIN", "DESIGNER", "VIEWER").required(),
+  }),
+};
+
+// Share link validation schemas
+export const shareSchemas = {
+  create: Joi.object({
+    password: Joi.string().min(4).max(128).optional(),
+    expiresAt: Joi.date().iso().greater("now").optional(),
   }),
 };
 
@@ -165,6 +320,25 @@ export const uploadSchemas = {
   }),
 };
 
+// Maintenance validation schemas
+export const maintenanceSchemas = {
+  runsQuery: Joi.object({
+    page: schemas.page,
+    limit: schemas.limit,
+    job: Joi.string()
+      .valid(
+        "expired-sessions",
+        "orphaned-uploads",
+        "asset-reconcile",
+        "stuck-designs"
+      )
+      .optional(),
+    status: Joi.string()
+      .valid("RUNNING", "SUCCEEDED", "FAILED", "SKIPPED")
+      .optional(),
+  }),
+};
+
 // Validation utility functions
 export class ValidationUtil {
   /**
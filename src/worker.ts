@@ -0,0 +1,137 @@
+import { config } from "./config/env";
+import Database, { prisma } from "./config/database";
+import { DesignQueue } from "./queues/design.queue";
+import { AssetCleanupQueue } from "./queues/asset-cleanup.queue";
+import { MaintenanceQueue } from "./queues/maintenance.queue";
+import { RedisClient } from "./utils/redis";
+import { DesignService } from "./services/design.service";
+import { AssetCleanupService } from "./services/asset-cleanup.service";
+import { MaintenanceService } from "./services/maintenance.service";
+import logger from "./utils/logger";
+
+// Start queue worker
+async function startWorker() {
+  try {
+    await Database.connect();
+    logger.info("Database connected successfully");
+
+    const designService = new DesignService(prisma);
+    const designQueue = DesignQueue.getInstance();
+
+    // Register design generation processor
+    designQueue.process(config.queue.design.concurrency, async (job) => {
+      const attempts = job.opts.attempts || 1;
+
+      logger.info("Processing design generation job", {
+        jobId: job.id,
+        designId: job.data.designId,
+        attempt: job.attemptsMade + 1,
+        attempts,
+      });
+
+      try {
+        await designService.processDesignGeneration(job.data.designId, {
+          isFinalAttempt: job.attemptsMade + 1 >= attempts,
+        });
+      } catch (error) {
+        if (!designService.isRetryableError(error)) {
+          await job.discard();
+        }
+        throw error;
+      }
+    });
+
+    designQueue.on("failed", (job, error) => {
+      logger.warn("Design generation job failed", {
+        jobId: job.id,
+        designId: job.data.designId,
+        attemptsMade: job.attemptsMade,
+        error: error.message,
+      });
+    });
+
+    const assetCleanupService = new AssetCleanupService(prisma);
+    const assetCleanupQueue = AssetCleanupQueue.getInstance();
+
+    // Register Cloudinary cleanup processor; one job at a time keeps the
+    // Admin API rate limit in reach
+    assetCleanupQueue.process(1, async (job) => {
+      if (job.data.type === "reconcile") {
+        return assetCleanupService.reconcile({ dryRun: job.data.dryRun });
+      }
+
+      await assetCleanupService.deleteAssets(job.data.publicIds);
+    });
+
+    assetCleanupQueue.on("failed", (job, error) => {
+      logger.warn("Asset cleanup job failed", {
+        jobId: job.id,
+        type: job.data.type,
+        attemptsMade: job.attemptsMade,
+        error: error.message,
+      });
+    });
+
+    const maintenanceService = new MaintenanceService(prisma);
+    const maintenanceQueue = MaintenanceQueue.getInstance();
+
+    // Register maintenance processor; jobs are named, hence "*"
+    maintenanceQueue.process("*", 1, async (job) => {
+      await maintenanceService.runJob(
+        job.data.job,
+        job.data.trigger,
+        job.data.triggeredById
+      );
+    });
+
+    maintenanceQueue.on("failed", (job, error) => {
+      logger.warn("Maintenance job failed", {
+        jobId: job.id,
+        job: job.data.job,
+        error: error.message,
+      });
+    });
+
+    await maintenanceService.failInterruptedRuns();
+    await MaintenanceQueue.syncSchedules(config.maintenance.schedules);
+
+    // Pick up designs whose jobs were lost while no worker was running
+    await designService.recoverOrphanedDesigns();
+
+    logger.info(`👷 Worker started (${config.env})`, {
+      designConcurrency: config.queue.design.concurrency,
+      maintenanceSchedules: config.maintenance.schedules,
+    });
+
+    // Graceful shutdown
+    const gracefulShutdown = async (signal: string) => {
+      logger.info(`${signal} received, shutting down worker...`);
+
+      try {
+        await DesignQueue.close();
+        await AssetCleanupQueue.close();
+        await MaintenanceQueue.close();
+        await RedisClient.disconnect();
+        await Database.disconnect();
+        logger.info("Worker shutdown completed");
+        process.exit(0);
+      } catch (error) {
+        logger.error("Error during worker shutdown:", error);
+        process.exit(1);
+      }
+    };
+
+    process.on("SIGTERM", () => gracefulShutdown("SIGTERM"));
+    process.on("SIGINT", () => gracefulShutdown("SIGINT"));
+  } catch (error) {
+    logger.error("Failed to start worker:", error);
+    process.exit(1);
+  }
+}
+
+// Start the worker
+if (require.main === module) {
+  startWorker();
+}
+
+export default startWorker;